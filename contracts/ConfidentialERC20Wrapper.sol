@@ -0,0 +1,177 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ERC7984} from "./ERC7984.sol";
+
+/**
+ * @title ConfidentialERC20Wrapper
+ * @notice Wraps a standard ERC-20 into a 6-decimal ERC-7984 confidential token
+ * @dev Wrapping is public (the deposited ERC-20 amount is visible on-chain), balances afterwards are
+ *      encrypted. Unwrapping burns an encrypted amount, makes the burned handle publicly decryptable and
+ *      releases the underlying once the decryption is submitted back through `finalizeUnwrap`.
+ *      Fee-on-transfer and rebasing underlyings are not supported.
+ */
+contract ConfidentialERC20Wrapper is ERC7984 {
+    using SafeERC20 for IERC20;
+
+    uint8 private constant CONFIDENTIAL_DECIMALS = 6;
+
+    IERC20 public immutable underlying;
+
+    // Underlying units per confidential unit (> 1 when the underlying has more than 6 decimals)
+    uint256 public immutable underlyingPerUnit;
+
+    // Confidential units per underlying unit (> 1 when the underlying has fewer than 6 decimals)
+    uint256 public immutable unitsPerUnderlying;
+
+    // Confidential units in circulation, capped so encrypted balances cannot overflow
+    uint256 public totalWrapped;
+
+    // Burned handle => recipient of the underlying, for unwraps awaiting decryption
+    mapping(bytes32 => address) public pendingUnwraps;
+
+    error ZeroAmount();
+    error WrapCapExceeded();
+    error UnknownUnwrap();
+
+    event Wrapped(address indexed from, address indexed to, uint256 underlyingAmount, uint64 units);
+    event UnwrapRequested(address indexed from, address indexed to, euint64 amount);
+    event UnwrapFinalized(address indexed to, euint64 amount, uint256 underlyingAmount);
+
+    constructor(
+        IERC20Metadata underlying_,
+        string memory name_,
+        string memory symbol_
+    ) ERC7984(name_, symbol_) {
+        if (address(underlying_) == address(0)) revert ZeroAddress();
+        uint8 underlyingDecimals = underlying_.decimals();
+
+        underlying = underlying_;
+        underlyingPerUnit = underlyingDecimals > CONFIDENTIAL_DECIMALS
+            ? 10 ** (underlyingDecimals - CONFIDENTIAL_DECIMALS)
+            : 1;
+        unitsPerUnderlying = underlyingDecimals < CONFIDENTIAL_DECIMALS
+            ? 10 ** (CONFIDENTIAL_DECIMALS - underlyingDecimals)
+            : 1;
+    }
+
+    /**
+     * @notice Wrap underlying tokens into a confidential balance
+     * @dev Dust below one confidential unit is left with the caller. Requires an ERC-20 allowance.
+     * @param to Recipient of the confidential balance
+     * @param amount Amount of the underlying to wrap, in underlying units
+     * @return minted The encrypted amount minted
+     */
+    function wrap(address to, uint256 amount) external returns (euint64 minted) {
+        minted = _wrap(to, amount);
+        FHE.allow(minted, msg.sender);
+    }
+
+    /**
+     * @notice Wrap underlying tokens and transfer the confidential balance to a receiver contract
+     * @dev Lets a single transaction fund an estate: `data` is forwarded to the recipient's
+     *      `onERC7984Received` hook. If the recipient rejects the transfer, the caller keeps the wrapped balance.
+     * @param to Receiving contract
+     * @param amount Amount of the underlying to wrap, in underlying units
+     * @param data Data forwarded to the receiver hook
+     * @return transferred The encrypted amount delivered to the recipient
+     */
+    function wrapAndCall(
+        address to,
+        uint256 amount,
+        bytes calldata data
+    ) external returns (euint64 transferred) {
+        euint64 minted = _wrap(msg.sender, amount);
+        transferred = _transferAndCall(msg.sender, to, minted, data);
+    }
+
+    /**
+     * @notice Burn a confidential amount and request release of the underlying
+     * @dev Burns zero when the balance is insufficient. The burned handle becomes publicly decryptable
+     *      and anyone may complete the unwrap with `finalizeUnwrap`.
+     * @param to Recipient of the underlying
+     * @param encryptedAmount Encrypted amount to unwrap, in confidential units
+     * @param inputProof Proof for the encrypted input
+     * @return burned The encrypted amount actually burned
+     */
+    function unwrap(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64 burned) {
+        if (to == address(0)) revert ZeroAddress();
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+
+        // Only whole underlying units can be released
+        if (unitsPerUnderlying > 1) {
+            amount = FHE.sub(amount, FHE.rem(amount, uint64(unitsPerUnderlying)));
+        }
+
+        burned = _burn(msg.sender, amount);
+        FHE.makePubliclyDecryptable(burned);
+        pendingUnwraps[euint64.unwrap(burned)] = to;
+
+        emit UnwrapRequested(msg.sender, to, burned);
+    }
+
+    /**
+     * @notice Release the underlying for a pending unwrap
+     * @param burned Burned handle emitted by `UnwrapRequested`
+     * @param abiEncodedCleartexts ABI-encoded decrypted burned amount
+     * @param decryptionProof KMS signatures over the decryption
+     */
+    function finalizeUnwrap(
+        euint64 burned,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        bytes32 handle = euint64.unwrap(burned);
+        address to = pendingUnwraps[handle];
+        if (to == address(0)) revert UnknownUnwrap();
+        delete pendingUnwraps[handle];
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = handle;
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+        uint64 units = abi.decode(abiEncodedCleartexts, (uint64));
+        totalWrapped -= units;
+        uint256 underlyingAmount = (uint256(units) * underlyingPerUnit) / unitsPerUnderlying;
+        if (underlyingAmount > 0) {
+            underlying.safeTransfer(to, underlyingAmount);
+        }
+
+        emit UnwrapFinalized(to, burned, underlyingAmount);
+    }
+
+    /**
+     * @notice Get token decimals (6 for confidential tokens)
+     */
+    function decimals() public pure override returns (uint8) {
+        return CONFIDENTIAL_DECIMALS;
+    }
+
+    /**
+     * @notice Pull the underlying and mint the matching confidential balance
+     * @return minted The encrypted amount minted
+     */
+    function _wrap(address to, uint256 amount) internal returns (euint64 minted) {
+        uint256 units = (amount * unitsPerUnderlying) / underlyingPerUnit;
+        if (units == 0) revert ZeroAmount();
+        if (totalWrapped + units > type(uint64).max) revert WrapCapExceeded();
+        totalWrapped += units;
+
+        uint256 pulled = (units * underlyingPerUnit) / unitsPerUnderlying;
+        underlying.safeTransferFrom(msg.sender, address(this), pulled);
+
+        minted = FHE.asEuint64(uint64(units));
+        FHE.allowThis(minted);
+        _mint(to, minted);
+
+        emit Wrapped(msg.sender, to, pulled, uint64(units));
+    }
+}
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 import {IERC7984} from "./interfaces/IERC7984.sol";
 import {IERC7984Receiver} from "./interfaces/IERC7984Receiver.sol";
@@ -26,6 +26,7 @@ abstract contract ERC7984 is IERC7984, ZamaEthereumConfig {
     error NotOperator();
     error ZeroAddress();
     error TransferToNonReceiver();
+    error UnauthorizedAmount();
 
     constructor(string memory name_, string memory symbol_) {
         _name = name_;
@@ -88,8 +89,21 @@ abstract contract ERC7984 is IERC7984, ZamaEthereumConfig {
         if (to == address(0)) revert ZeroAddress();
 
         euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
-        _transfer(msg.sender, to, amount);
-        return amount;
+        return _transfer(msg.sender, to, amount);
+    }
+
+    /**
+     * @notice Transfer an existing encrypted amount from the caller's own balance
+     * @dev Lets contracts holding tokens pay out without being their own operator; the caller must have ACL access to `amount`
+     */
+    function confidentialTransfer(
+        address to,
+        euint64 amount
+    ) external virtual override returns (euint64 transferred) {
+        if (to == address(0)) revert ZeroAddress();
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedAmount();
+
+        return _transfer(msg.sender, to, amount);
     }
 
     /**
@@ -103,14 +117,84 @@ abstract contract ERC7984 is IERC7984, ZamaEthereumConfig {
         if (to == address(0)) revert ZeroAddress();
         if (!isOperator(from, msg.sender)) revert NotOperator();
 
-        _transfer(from, to, amount);
-        return amount;
+        return _transfer(from, to, amount);
+    }
+
+    /**
+     * @notice Transfer tokens confidentially and notify the recipient contract
+     * @dev The recipient hook receives `data`; if it rejects the transfer the amount is refunded
+     */
+    function confidentialTransferAndCall(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        bytes calldata data
+    ) external virtual override returns (euint64 transferred) {
+        if (to == address(0)) revert ZeroAddress();
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        return _transferAndCall(msg.sender, to, amount, data);
+    }
+
+    /**
+     * @notice Transfer an existing encrypted amount and notify the recipient contract
+     * @dev The caller must have ACL access to `amount`
+     */
+    function confidentialTransferAndCall(
+        address to,
+        euint64 amount,
+        bytes calldata data
+    ) external virtual override returns (euint64 transferred) {
+        if (to == address(0)) revert ZeroAddress();
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedAmount();
+
+        return _transferAndCall(msg.sender, to, amount, data);
     }
 
     /**
      * @notice Internal transfer function
+     * @return transferred The encrypted amount actually moved (zero if the sender's balance was insufficient)
      */
-    function _transfer(address from, address to, euint64 amount) internal virtual {
+    function _transfer(address from, address to, euint64 amount) internal virtual returns (euint64 transferred) {
+        transferred = _update(from, to, amount);
+        FHE.allow(transferred, msg.sender);
+
+        // Check if recipient is a contract and call receiver hook
+        if (_isContract(to)) {
+            _checkOnERC7984Received(msg.sender, from, to, transferred, "");
+        }
+    }
+
+    /**
+     * @notice Internal transfer function that forwards `data` to the recipient hook
+     * @dev Refunds the sender and returns an encrypted zero if the recipient rejects the transfer
+     */
+    function _transferAndCall(
+        address from,
+        address to,
+        euint64 amount,
+        bytes memory data
+    ) internal virtual returns (euint64 transferred) {
+        transferred = _update(from, to, amount);
+
+        if (_isContract(to) && !_tryOnERC7984Received(msg.sender, from, to, transferred, data)) {
+            // Move the funds back to the sender
+            _update(to, from, transferred);
+            transferred = FHE.asEuint64(0);
+            FHE.allowThis(transferred);
+            FHE.allow(transferred, from);
+            FHE.allow(transferred, to);
+        }
+
+        FHE.allow(transferred, msg.sender);
+    }
+
+    /**
+     * @notice Internal balance update shared by all transfer paths
+     * @dev Moves zero when `amount` exceeds the sender's balance, so balances can never underflow
+     * @return transferred The encrypted amount actually moved, readable by both parties
+     */
+    function _update(address from, address to, euint64 amount) internal virtual returns (euint64 transferred) {
         // Initialize balances if needed
         if (!FHE.isInitialized(_balances[from])) {
             _balances[from] = FHE.asEuint64(0);
@@ -123,22 +207,25 @@ abstract contract ERC7984 is IERC7984, ZamaEthereumConfig {
             FHE.allow(_balances[to], to);
         }
 
+        // Transfer nothing if the sender cannot cover the amount
+        ebool sufficient = FHE.le(amount, _balances[from]);
+        transferred = FHE.select(sufficient, amount, FHE.asEuint64(0));
+
         // Subtract from sender
-        _balances[from] = FHE.sub(_balances[from], amount);
+        _balances[from] = FHE.sub(_balances[from], transferred);
         FHE.allowThis(_balances[from]);
         FHE.allow(_balances[from], from);
 
         // Add to recipient
-        _balances[to] = FHE.add(_balances[to], amount);
+        _balances[to] = FHE.add(_balances[to], transferred);
         FHE.allowThis(_balances[to]);
         FHE.allow(_balances[to], to);
 
-        emit ConfidentialTransfer(from, to);
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
 
-        // Check if recipient is a contract and call receiver hook
-        if (_isContract(to)) {
-            _checkOnERC7984Received(msg.sender, from, to, amount, "");
-        }
+        emit ConfidentialTransfer(from, to);
     }
 
     /**
@@ -164,8 +251,10 @@ abstract contract ERC7984 is IERC7984, ZamaEthereumConfig {
 
     /**
      * @notice Internal burn function
+     * @dev Burns zero when `amount` exceeds the holder's balance
+     * @return burned The encrypted amount actually burned
      */
-    function _burn(address from, euint64 amount) internal virtual {
+    function _burn(address from, euint64 amount) internal virtual returns (euint64 burned) {
         if (from == address(0)) revert ZeroAddress();
 
         // Initialize balance if needed
@@ -175,11 +264,18 @@ abstract contract ERC7984 is IERC7984, ZamaEthereumConfig {
             FHE.allow(_balances[from], from);
         }
 
+        // Burn nothing if the holder cannot cover the amount
+        ebool sufficient = FHE.le(amount, _balances[from]);
+        burned = FHE.select(sufficient, amount, FHE.asEuint64(0));
+
         // Subtract from holder
-        _balances[from] = FHE.sub(_balances[from], amount);
+        _balances[from] = FHE.sub(_balances[from], burned);
         FHE.allowThis(_balances[from]);
         FHE.allow(_balances[from], from);
 
+        FHE.allowThis(burned);
+        FHE.allow(burned, from);
+
         emit ConfidentialTransfer(from, address(0));
     }
 
@@ -204,12 +300,26 @@ abstract contract ERC7984 is IERC7984, ZamaEthereumConfig {
         euint64 amount,
         bytes memory data
     ) internal {
+        if (!_tryOnERC7984Received(operator, from, to, amount, data)) {
+            revert TransferToNonReceiver();
+        }
+    }
+
+    /**
+     * @notice Call onERC7984Received on recipient contract without reverting
+     * @return accepted Whether the recipient returned the expected selector
+     */
+    function _tryOnERC7984Received(
+        address operator,
+        address from,
+        address to,
+        euint64 amount,
+        bytes memory data
+    ) internal returns (bool accepted) {
         try IERC7984Receiver(to).onERC7984Received(operator, from, address(this), amount, data) returns (bytes4 retval) {
-            if (retval != IERC7984Receiver.onERC7984Received.selector) {
-                revert TransferToNonReceiver();
-            }
+            return retval == IERC7984Receiver.onERC7984Received.selector;
         } catch {
-            revert TransferToNonReceiver();
+            return false;
         }
     }
 }
@@ -0,0 +1,392 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {InheritanceBase} from "./InheritanceBase.sol";
+
+/**
+ * @title InheritanceAccessExtension
+ * @notice Who besides heirs and executors can see estate values (allocations heirs share, auditors of the
+ *         estate totals and public disclosure of the final totals), and heirs disclaiming their inheritance
+ * @dev Only meant to run through InheritanceHeirExtension's fallback, inside the distribution's delegatecall
+ */
+contract InheritanceAccessExtension is InheritanceBase {
+    /**
+     * @notice Let a third party read the caller's own allocations in an estate, e.g. to prove an inheritance to a lender
+     * @dev Grants access to every current allocation handle and to the handles of later changes. Percentage
+     *      shares are not shared; a share heir's viewer sees the amounts once finalization resolves them.
+     * @param estateId The estate the caller is an heir of
+     * @param viewer Address allowed to decrypt the allocations
+     */
+    function grantAllocationView(uint256 estateId, address viewer) external estateActive(estateId) {
+        if (!isHeirOf[estateId][msg.sender]) revert NotHeir();
+        if (viewer == address(0) || viewer == msg.sender) revert InvalidViewer();
+        if (isAllocationViewer[estateId][msg.sender][viewer]) revert AlreadyViewer();
+
+        isAllocationViewer[estateId][msg.sender][viewer] = true;
+        allocationViewers[estateId][msg.sender].push(viewer);
+        if (!_containsEstate(viewerEstates[viewer], estateId)) viewerEstates[viewer].push(estateId);
+
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            euint64 allocation = allocations[estateId][msg.sender][tokens[i]];
+            if (FHE.isInitialized(allocation)) FHE.allow(allocation, viewer);
+        }
+
+        emit AllocationViewGranted(estateId, msg.sender, viewer);
+    }
+
+    /**
+     * @notice Stop sharing the caller's allocations with a viewer
+     * @dev The viewer loses access to later allocation changes and to getSharedAllocation. ACL grants cannot be
+     *      revoked, so a viewer who kept a current handle can still decrypt that value.
+     * @param estateId The estate the caller is an heir of
+     * @param viewer Address to remove
+     */
+    function revokeAllocationView(uint256 estateId, address viewer) external {
+        if (!isAllocationViewer[estateId][msg.sender][viewer]) revert NotViewer();
+
+        isAllocationViewer[estateId][msg.sender][viewer] = false;
+        _removeAddress(allocationViewers[estateId][msg.sender], viewer);
+
+        emit AllocationViewRevoked(estateId, msg.sender, viewer);
+    }
+
+    /**
+     * @notice Get the addresses the caller currently shares their allocations in an estate with
+     * @param estateId The estate to query
+     * @return Array of viewer addresses
+     */
+    function getMyAllocationViewers(uint256 estateId) external view returns (address[] memory) {
+        return allocationViewers[estateId][msg.sender];
+    }
+
+    /**
+     * @notice Get the estates where an heir has shared their allocations with the caller
+     * @dev The index is append-only; check canViewAllocation per heir to see which grants still stand
+     * @return Array of estate IDs
+     */
+    function getMySharedEstates() external view returns (uint256[] memory) {
+        return viewerEstates[msg.sender];
+    }
+
+    /**
+     * @notice Check whether an heir currently shares their allocations with a viewer
+     * @param estateId The estate to query
+     * @param heir Address of the heir
+     * @param viewer Address of the viewer
+     * @return True if the viewer may read the heir's allocations
+     */
+    function canViewAllocation(uint256 estateId, address heir, address viewer) external view returns (bool) {
+        return isAllocationViewer[estateId][heir][viewer];
+    }
+
+    /**
+     * @notice Get the encrypted allocation of an heir who shares it with the caller
+     * @dev Returns an uninitialized handle while the heir has no allocation in the token
+     * @param estateId The estate to query
+     * @param heir Address of the heir
+     * @param token The confidential token
+     * @return Encrypted allocation handle
+     */
+    function getSharedAllocation(uint256 estateId, address heir, address token) external view returns (euint64) {
+        if (!isAllocationViewer[estateId][heir][msg.sender]) revert NotViewer();
+        return allocations[estateId][heir][token];
+    }
+
+    /**
+     * @notice Appoint an auditor who can decrypt the estate totals, e.g. a probate court or regulator (only after
+     *      finalization)
+     * @dev Grants access to the final total allocated and to the current balance and total paid out of every estate
+     *      token, including their later updates. Auditors are never granted an individual allocation, but comparing
+     *      successive balances or totals paid reveals the size of each payout.
+     * @param estateId The estate to audit
+     * @param auditor Address of the auditor; may not be an executor or heir of the estate
+     */
+    function addAuditor(
+        uint256 estateId,
+        address auditor
+    ) external onlyEstateExecutor(estateId) isEstateFinalized(estateId) estateActive(estateId) {
+        if (auditor == address(0) || isExecutorOf(estateId, auditor) || isHeirOf[estateId][auditor]) {
+            revert InvalidAuditor();
+        }
+        if (isAuditor[estateId][auditor]) revert AlreadyAuditor();
+
+        isAuditor[estateId][auditor] = true;
+        estateAuditors[estateId].push(auditor);
+        if (!_containsEstate(auditorEstates[auditor], estateId)) auditorEstates[auditor].push(estateId);
+
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            FHE.allow(estateBalances[estateId][tokens[i]], auditor);
+            FHE.allow(totalAllocated[estateId][tokens[i]], auditor);
+            FHE.allow(totalPaid[estateId][tokens[i]], auditor);
+        }
+
+        emit AuditorAdded(estateId, auditor);
+    }
+
+    /**
+     * @notice Remove an auditor from an estate
+     * @dev The auditor loses access to later updates of the totals; ACL grants on values it could already
+     *      decrypt cannot be revoked
+     * @param estateId The estate to configure
+     * @param auditor Address of the auditor
+     */
+    function removeAuditor(uint256 estateId, address auditor) external onlyEstateExecutor(estateId) {
+        if (!isAuditor[estateId][auditor]) revert NotAuditor();
+
+        isAuditor[estateId][auditor] = false;
+        _removeAddress(estateAuditors[estateId], auditor);
+
+        emit AuditorRemoved(estateId, auditor);
+    }
+
+    /**
+     * @notice Get the auditors of an estate
+     * @param estateId The estate to query
+     * @return Array of auditor addresses
+     */
+    function getAuditors(uint256 estateId) external view returns (address[] memory) {
+        return estateAuditors[estateId];
+    }
+
+    /**
+     * @notice Get the estates where the caller has been appointed auditor
+     * @dev The index is append-only; compare with getAuditors(estateId) to see which appointments still stand
+     * @return Array of estate IDs
+     */
+    function getMyAuditorEstates() external view returns (uint256[] memory) {
+        return auditorEstates[msg.sender];
+    }
+
+    /**
+     * @notice Get the encrypted totals of one estate token (auditors and executors only)
+     * @param estateId The estate to query
+     * @param token The confidential token
+     * @return balance Encrypted balance the estate still holds
+     * @return allocated Encrypted total allocated to heirs
+     * @return paid Encrypted total paid out of the estate, including a sweep of unclaimed allocations
+     */
+    function getAuditTotals(
+        uint256 estateId,
+        address token
+    ) external view returns (euint64 balance, euint64 allocated, euint64 paid) {
+        if (!isAuditor[estateId][msg.sender] && !isExecutorOf(estateId, msg.sender)) revert OnlyAuditor();
+        return (estateBalances[estateId][token], totalAllocated[estateId][token], totalPaid[estateId][token]);
+    }
+
+    /**
+     * @notice Make the final total allocated and total paid out of every estate token publicly decryptable
+     * @dev Only once the estate has closed: finalized and either swept or fully claimed, so the totals no longer
+     *      change. Individual allocations stay private. The plaintexts are recorded by `confirmEstateTotals`.
+     * @param estateId The estate to disclose
+     */
+    function discloseEstateTotals(uint256 estateId) external onlyEstateExecutor(estateId) isEstateFinalized(estateId) {
+        if (totalsDisclosedAt[estateId] != 0) revert TotalsAlreadyDisclosed();
+        if (estates[estateId].active) {
+            address[] storage heirs = estateHeirs[estateId];
+            for (uint256 i = 0; i < heirs.length; i++) {
+                if (!claimed[estateId][heirs[i]]) revert EstateNotClosed();
+            }
+        }
+
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            FHE.makePubliclyDecryptable(totalAllocated[estateId][tokens[i]]);
+            FHE.makePubliclyDecryptable(totalPaid[estateId][tokens[i]]);
+        }
+
+        totalsDisclosureRequested[estateId] = true;
+        emit TotalsDisclosureRequested(estateId);
+    }
+
+    /**
+     * @notice Record the public decryption of an estate's disclosed totals (callable by anyone)
+     * @param estateId The estate being disclosed
+     * @param abiEncodedCleartexts ABI-encoded total allocated and total paid of each estate token, in token order
+     * @param decryptionProof KMS signatures over the decryption
+     */
+    function confirmEstateTotals(
+        uint256 estateId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        if (!totalsDisclosureRequested[estateId] || totalsDisclosedAt[estateId] != 0) revert NoPendingDisclosure();
+        FHE.checkSignatures(_disclosureHandles(estateId), abiEncodedCleartexts, decryptionProof);
+
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            uint64 allocated = abi.decode(abiEncodedCleartexts[64 * i:64 * i + 32], (uint64));
+            uint64 paid = abi.decode(abiEncodedCleartexts[64 * i + 32:64 * i + 64], (uint64));
+            disclosedTotals[estateId][tokens[i]] = DisclosedTotals(allocated, paid);
+            emit TotalsDisclosed(estateId, tokens[i], allocated, paid);
+        }
+        totalsDisclosedAt[estateId] = block.timestamp;
+    }
+
+    /**
+     * @notice Get whether an estate's totals were submitted for disclosure and when they were published
+     * @param estateId The estate to query
+     * @return requested True once discloseEstateTotals has been called
+     * @return disclosedAt Timestamp the plaintexts were recorded, or 0 while pending
+     */
+    function getDisclosureStatus(uint256 estateId) external view returns (bool requested, uint256 disclosedAt) {
+        return (totalsDisclosureRequested[estateId], totalsDisclosedAt[estateId]);
+    }
+
+    /**
+     * @notice Get the publicly decryptable handles of a requested disclosure, so anyone can confirm it
+     * @param estateId The estate being disclosed
+     * @return Total allocated and total paid handle of each estate token, in token order
+     */
+    function getDisclosureHandles(uint256 estateId) external view returns (bytes32[] memory) {
+        if (!totalsDisclosureRequested[estateId]) revert NoPendingDisclosure();
+        return _disclosureHandles(estateId);
+    }
+
+    /**
+     * @notice Get the published totals of one estate token
+     * @param estateId The estate to query
+     * @param token The confidential token
+     * @return allocated Total allocated to heirs, in token units
+     * @return paid Total paid out of the estate, including a sweep of unclaimed allocations, in token units
+     */
+    function getDisclosedTotals(
+        uint256 estateId,
+        address token
+    ) external view returns (uint64 allocated, uint64 paid) {
+        DisclosedTotals storage totals = disclosedTotals[estateId][token];
+        return (totals.allocated, totals.paid);
+    }
+
+    /**
+     * @notice Choose who receives allocations that heirs disclaim (only before finalization)
+     * @dev Naming an alternate is unavailable while the estate requires more than one approval
+     * @param estateId The estate to configure
+     * @param policy Equal shares for the heirs still owed, a named alternate, or the residuary heir
+     * @param alternate Address of the alternate beneficiary, ignored unless the policy is Alternate
+     */
+    function setDisclaimerPolicy(
+        uint256 estateId,
+        DisclaimerPolicy policy,
+        address alternate
+    ) external onlyEstateExecutor(estateId) notFinalized(estateId) estateActive(estateId) {
+        if (policy != DisclaimerPolicy.Alternate) {
+            alternate = address(0);
+        } else if (alternate == address(0)) {
+            revert ZeroAddress();
+        } else if (approvalThreshold[estateId] > 1) {
+            revert ProposalRequired();
+        }
+
+        disclaimerPolicy[estateId] = policy;
+        disclaimerAlternate[estateId] = alternate;
+        emit DisclaimerPolicySet(estateId, policy, alternate);
+    }
+
+    /**
+     * @notice Renounce your whole inheritance from a finalized estate before claiming any of it
+     * @dev Moves each token's allocation to the policy's beneficiaries without decrypting it, so totalAllocated
+     *      is unchanged. Encrypted allocations cannot serve as divisors, so PerCapita splits equally among the
+     *      heirs still owed, with the rounding dust going to the first of them.
+     * @param estateId The estate to disclaim
+     */
+    function disclaim(
+        uint256 estateId
+    ) external isEstateFinalized(estateId) estateActive(estateId) notDisputed(estateId) beforeClaimDeadline(estateId) {
+        if (!isHeirOf[estateId][msg.sender]) revert NotHeir();
+        if (claimed[estateId][msg.sender]) revert AlreadyClaimed();
+
+        address[] memory recipients = _disclaimerRecipients(estateId, msg.sender);
+
+        claimed[estateId][msg.sender] = true;
+        disclaimed[estateId][msg.sender] = true;
+        emit HeirDisclaimed(estateId, msg.sender, disclaimerPolicy[estateId]);
+
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            // Accepting an installment rules out disclaiming
+            if (FHE.isInitialized(paidAmounts[estateId][msg.sender][tokens[i]])) revert AlreadyClaimed();
+            _disclaimAllocation(estateId, msg.sender, tokens[i], recipients);
+        }
+    }
+
+    /**
+     * @notice Internal helper to list the handles a disclosure decrypts, in the order confirmEstateTotals expects
+     */
+    function _disclosureHandles(uint256 estateId) internal view returns (bytes32[] memory handles) {
+        address[] storage tokens = estateTokens[estateId];
+        handles = new bytes32[](tokens.length * 2);
+        for (uint256 i = 0; i < tokens.length; i++) {
+            handles[2 * i] = euint64.unwrap(totalAllocated[estateId][tokens[i]]);
+            handles[2 * i + 1] = euint64.unwrap(totalPaid[estateId][tokens[i]]);
+        }
+    }
+
+    /**
+     * @notice Internal helper to resolve the estate's disclaimer policy to the heirs who take a disclaimed allocation
+     * @dev A named alternate who is not an heir yet is registered so they can claim
+     * @return recipients The beneficiaries, none of whom have claimed
+     */
+    function _disclaimerRecipients(
+        uint256 estateId,
+        address heir
+    ) internal returns (address[] memory recipients) {
+        DisclaimerPolicy policy = disclaimerPolicy[estateId];
+
+        if (policy != DisclaimerPolicy.PerCapita) {
+            address beneficiary = policy == DisclaimerPolicy.Alternate
+                ? disclaimerAlternate[estateId]
+                : residuaryHeir[estateId];
+            if (beneficiary == address(0) || beneficiary == heir) revert NoDisclaimerBeneficiary();
+
+            if (!isHeirOf[estateId][beneficiary]) {
+                _registerHeir(estateId, beneficiary);
+            } else if (claimed[estateId][beneficiary]) {
+                revert AlreadyClaimed();
+            }
+
+            recipients = new address[](1);
+            recipients[0] = beneficiary;
+            return recipients;
+        }
+
+        // Per capita: every other heir who is still owed
+        address[] storage heirs = estateHeirs[estateId];
+        uint256 count;
+        for (uint256 i = 0; i < heirs.length; i++) {
+            if (heirs[i] != heir && !claimed[estateId][heirs[i]]) count++;
+        }
+        if (count == 0) revert NoDisclaimerBeneficiary();
+
+        recipients = new address[](count);
+        count = 0;
+        for (uint256 i = 0; i < heirs.length; i++) {
+            if (heirs[i] != heir && !claimed[estateId][heirs[i]]) recipients[count++] = heirs[i];
+        }
+    }
+
+    /**
+     * @notice Internal helper to split a disclaimed allocation of one token among the recipients
+     */
+    function _disclaimAllocation(
+        uint256 estateId,
+        address heir,
+        address token,
+        address[] memory recipients
+    ) internal {
+        euint64 amount = allocations[estateId][heir][token];
+        if (!FHE.isInitialized(amount)) return;
+        _storeAllocation(estateId, heir, token, FHE.asEuint64(0));
+
+        uint64 count = uint64(recipients.length);
+        euint64 part = FHE.div(amount, count);
+        for (uint256 i = 1; i < recipients.length; i++) {
+            _creditAllocation(estateId, recipients[i], token, part);
+        }
+
+        // The first recipient also takes the rounding dust
+        _creditAllocation(estateId, recipients[0], token, FHE.sub(amount, FHE.mul(part, count - 1)));
+    }
+}
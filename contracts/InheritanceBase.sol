@@ -0,0 +1,891 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, euint128, euint256} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IERC7984} from "./interfaces/IERC7984.sol";
+
+/**
+ * @title InheritanceBase
+ * @notice Shared storage, events and estate logic for InheritanceDistribution and InheritanceExtension
+ * @dev Both contracts inherit this layout so the extension can run via delegatecall against the distribution's storage
+ */
+abstract contract InheritanceBase is ZamaEthereumConfig {
+    // Global state
+    uint256 public nextEstateId;
+    address public admin;
+
+    // Confidential tokens estates may hold, managed by the admin
+    mapping(address => bool) public isAllowedToken;
+    address[] internal allowedTokens;
+
+    // Time a death attestation must stand unchallenged before claims unlock
+    uint256 public constant DEATH_CHALLENGE_WINDOW = 30 days;
+
+    // Time an executor-initiated wallet recovery can be vetoed before it takes effect
+    uint256 public constant RECOVERY_CHALLENGE_WINDOW = 14 days;
+
+    // Denominator for percentage allocations (10000 bps = 100%)
+    uint64 public constant BPS_DENOMINATOR = 10_000;
+
+    // Largest share of each allocation a guardian may draw as maintenance before the heir comes of age
+    uint16 public constant MAX_MAINTENANCE_BPS = 2_500;
+
+    // Estate struct
+    struct Estate {
+        address executor;
+        uint256 createdAt;
+        bool finalized;
+        bool active;
+        string name;
+        address testator;
+        uint256 lastCheckIn;
+        uint256 inactivityPeriod;
+        uint256 deathAttestedAt;
+    }
+
+    // Vesting schedule for an heir; start 0 means vesting begins when claims unlock
+    struct VestingSchedule {
+        uint64 start;
+        uint64 cliff;
+        uint64 duration;
+        uint32 installments;
+    }
+
+    // Sensitive actions that need co-executor approval when the threshold is above one
+    enum ProposalAction {
+        AddHeir,
+        AddHeirWithShare,
+        RemoveHeir,
+        FinalizeEstate,
+        AddCoExecutor,
+        RemoveCoExecutor,
+        SetApprovalThreshold,
+        CancelEstate,
+        UpdateAllocation,
+        RecordLapse
+    }
+
+    // Guardian of a minor heir; maintenance claims are capped at maintenanceBps of each allocation
+    struct Guardianship {
+        address guardian;
+        uint64 majorityAt;
+        uint16 maintenanceBps;
+    }
+
+    // Executor-initiated move of an heir's inheritance to a new wallet
+    struct RecoveryRequest {
+        address newAddress;
+        uint256 executeAfter;
+    }
+
+    // Who receives an allocation an heir disclaims
+    enum DisclaimerPolicy {
+        PerCapita,
+        Alternate,
+        Residuary
+    }
+
+    // How an arbiter settles a dispute over a finalized estate
+    enum DisputeResolution {
+        Unfreeze,
+        Reopen,
+        Cancel
+    }
+
+    // Dispute raised by an heir; claims stay frozen while raisedBy is set
+    struct Dispute {
+        address raisedBy;
+        uint64 raisedAt;
+        bytes32 reasonHash;
+    }
+
+    // Letter to an heir, encrypted in the browser; only the heir may decrypt the key
+    struct Letter {
+        bytes ciphertext;
+        euint256 key;
+    }
+
+    // Plaintext totals of one token, published once the estate closes
+    struct DisclosedTotals {
+        uint64 allocated;
+        uint64 paid;
+    }
+
+    // Proposal awaiting co-executor approvals
+    struct Proposal {
+        uint256 estateId;
+        ProposalAction action;
+        address target;
+        address token;
+        uint256 param;
+        euint64 value;
+        address proposer;
+        uint256 approvals;
+        bool executed;
+    }
+
+    // Core mappings (estateId as primary key, token as the last key for per-asset amounts)
+    mapping(uint256 => Estate) public estates;
+    mapping(uint256 => address[]) internal estateHeirs;
+    mapping(uint256 => mapping(address => bool)) public isHeirOf;
+    mapping(uint256 => mapping(address => mapping(address => euint64))) internal allocations;
+    mapping(uint256 => mapping(address => bool)) public claimed;
+    mapping(uint256 => mapping(address => mapping(address => euint64))) internal paidAmounts;
+    mapping(uint256 => mapping(address => euint64)) internal estateBalances;
+    mapping(uint256 => mapping(address => euint64)) internal totalAllocated;
+    mapping(uint256 => mapping(address => euint64)) internal totalPaid;
+
+    // Tokens an estate holds or allocates, in order of first use
+    mapping(uint256 => address[]) internal estateTokens;
+    mapping(uint256 => mapping(address => bool)) internal hasEstateToken;
+
+    // Deposits per depositor, refunded if the estate is cancelled
+    mapping(uint256 => address[]) internal estateDepositors;
+    mapping(uint256 => mapping(address => bool)) internal isDepositor;
+    mapping(uint256 => mapping(address => mapping(address => euint64))) internal deposits;
+
+    // Percentage allocations, resolved against the estate balance at finalization
+    mapping(uint256 => mapping(address => bool)) public isShareHeir;
+    mapping(uint256 => mapping(address => euint64)) internal shareBps;
+    mapping(uint256 => euint64) internal totalShareBps;
+    mapping(uint256 => address) public residuaryHeir;
+
+    // Rounding dust given to the residuary heir at finalization, per token, so a reopened estate can undo it
+    mapping(uint256 => mapping(address => euint64)) internal shareDust;
+
+    // Installment payouts
+    mapping(uint256 => mapping(address => VestingSchedule)) public vestingSchedules;
+
+    // Two-step finalization: a publicly decryptable solvency check awaiting its decryption proof
+    mapping(uint256 => ebool) public solvencyCheck;
+    mapping(uint256 => bool) public finalizationRejected;
+
+    // Optional claim window after claims unlock; unclaimed allocations can be swept once it ends
+    mapping(uint256 => uint256) public claimPeriod;
+
+    // Contingent beneficiaries who inherit a lapsed heir's allocation
+    mapping(uint256 => mapping(address => address[])) internal contingents;
+    mapping(uint256 => mapping(address => mapping(address => euint64))) internal contingentShareBps;
+    mapping(uint256 => mapping(address => bool)) public lapsed;
+
+    // Redistribution of disclaimed allocations
+    mapping(uint256 => DisclaimerPolicy) public disclaimerPolicy;
+    mapping(uint256 => address) public disclaimerAlternate;
+    mapping(uint256 => mapping(address => bool)) public disclaimed;
+
+    // Guardians of minor heirs and the maintenance they have drawn, per token
+    mapping(uint256 => mapping(address => Guardianship)) public guardianships;
+    mapping(uint256 => mapping(address => mapping(address => euint64))) internal maintenanceClaimed;
+
+    // Sealed letters to heirs
+    mapping(uint256 => mapping(address => Letter)) internal letters;
+
+    // Pending wallet recoveries, keyed by the heir's current address
+    mapping(uint256 => mapping(address => RecoveryRequest)) public pendingRecoveries;
+    mapping(uint256 => address[]) internal recoveringHeirs;
+
+    // Optional arbiter who settles disputes raised within the window after finalization
+    mapping(uint256 => address) public arbiter;
+    mapping(uint256 => uint256) public disputeWindow;
+    mapping(uint256 => uint256) public finalizedAt;
+    mapping(uint256 => Dispute) public disputes;
+    // Total time claims stayed frozen by resolved disputes; pushes the claim deadline back
+    mapping(uint256 => uint256) internal disputedDuration;
+
+    // Third parties an heir lets read their own allocations, e.g. a lender or tax adviser
+    mapping(uint256 => mapping(address => address[])) internal allocationViewers;
+    mapping(uint256 => mapping(address => mapping(address => bool))) internal isAllocationViewer;
+
+    // Auditors who can decrypt the estate totals but never an individual allocation
+    mapping(uint256 => address[]) internal estateAuditors;
+    mapping(uint256 => mapping(address => bool)) internal isAuditor;
+
+    // Public disclosure of the final totals, e.g. for estate tax filings
+    mapping(uint256 => bool) internal totalsDisclosureRequested;
+    mapping(uint256 => uint256) internal totalsDisclosedAt;
+    mapping(uint256 => mapping(address => DisclosedTotals)) internal disclosedTotals;
+
+    // Co-executors and approval workflow
+    mapping(uint256 => address[]) internal coExecutors;
+    mapping(uint256 => mapping(address => bool)) public isCoExecutor;
+    mapping(uint256 => uint256) public approvalThreshold;
+    uint256 public nextProposalId;
+    mapping(uint256 => Proposal) public proposals;
+    mapping(uint256 => mapping(address => bool)) public hasApproved;
+    mapping(uint256 => uint256[]) internal estateProposals;
+
+    // Index mappings for efficient queries
+    mapping(address => uint256[]) internal executorEstates;
+    mapping(address => uint256[]) internal heirEstates;
+    mapping(address => uint256[]) internal testatorEstates;
+    mapping(address => uint256[]) internal guardianEstates;
+    mapping(address => uint256[]) internal arbiterEstates;
+    mapping(address => uint256[]) internal viewerEstates;
+    mapping(address => uint256[]) internal auditorEstates;
+
+    // Events
+    event AdminTransferred(address indexed previousAdmin, address indexed newAdmin);
+    event TokenAllowed(address indexed token);
+    event TokenDisallowed(address indexed token);
+    event EstateCreated(uint256 indexed estateId, address indexed executor, string name);
+    event HeirAdded(uint256 indexed estateId, address indexed heir);
+    event HeirRemoved(uint256 indexed estateId, address indexed heir);
+    event AllocationUpdated(uint256 indexed estateId, address indexed heir);
+    event ResiduaryHeirSet(uint256 indexed estateId, address indexed heir);
+    event ContingentAdded(uint256 indexed estateId, address indexed heir, address indexed contingent);
+    event HeirLapsed(uint256 indexed estateId, address indexed heir);
+    event ContingentAllocated(uint256 indexed estateId, address indexed heir, address indexed contingent);
+    event DisclaimerPolicySet(uint256 indexed estateId, DisclaimerPolicy policy, address alternate);
+    event HeirDisclaimed(uint256 indexed estateId, address indexed heir, DisclaimerPolicy policy);
+    event GuardianSet(uint256 indexed estateId, address indexed heir, address indexed guardian, uint64 majorityAt, uint16 maintenanceBps);
+    event MaintenanceClaimed(uint256 indexed estateId, address indexed heir, address indexed token, euint64 amount);
+    event ArbiterSet(uint256 indexed estateId, address indexed arbiter, uint256 disputeWindow);
+    event DisputeRaised(uint256 indexed estateId, address indexed heir, bytes32 reasonHash);
+    event DisputeResolved(uint256 indexed estateId, address indexed arbiter, DisputeResolution resolution);
+    event AllocationViewGranted(uint256 indexed estateId, address indexed heir, address indexed viewer);
+    event AllocationViewRevoked(uint256 indexed estateId, address indexed heir, address indexed viewer);
+    event AuditorAdded(uint256 indexed estateId, address indexed auditor);
+    event AuditorRemoved(uint256 indexed estateId, address indexed auditor);
+    event TotalsDisclosureRequested(uint256 indexed estateId);
+    event TotalsDisclosed(uint256 indexed estateId, address indexed token, uint64 allocated, uint64 paid);
+    event LetterSealed(uint256 indexed estateId, address indexed heir);
+    event RecoveryProposed(uint256 indexed estateId, address indexed heir, address indexed newAddress, uint256 executeAfter);
+    event RecoveryVetoed(uint256 indexed estateId, address indexed heir, address indexed vetoedBy);
+    event HeirRecovered(uint256 indexed estateId, address indexed previousAddress, address indexed newAddress);
+    event CoExecutorAdded(uint256 indexed estateId, address indexed coExecutor);
+    event CoExecutorRemoved(uint256 indexed estateId, address indexed coExecutor);
+    event ApprovalThresholdSet(uint256 indexed estateId, uint256 threshold);
+    event ProposalCreated(uint256 indexed proposalId, uint256 indexed estateId, address indexed proposer, ProposalAction action, address target);
+    event ProposalApproved(uint256 indexed proposalId, address indexed approver);
+    event ProposalExecuted(uint256 indexed proposalId);
+    event VestingScheduleSet(uint256 indexed estateId, address indexed heir, uint64 start, uint64 cliff, uint64 duration, uint32 installments);
+    event FinalizationRequested(uint256 indexed estateId, ebool solvencyCheck);
+    event FinalizationRejected(uint256 indexed estateId);
+    event EstateFinalized(uint256 indexed estateId);
+    event EstateCancelled(uint256 indexed estateId);
+    event DepositRefunded(uint256 indexed estateId, address indexed depositor, address indexed token, euint64 amount);
+    event AllocationClaimed(uint256 indexed estateId, address indexed heir, address indexed token, euint64 amount);
+    event TokensDeposited(uint256 indexed estateId, address indexed from, address indexed token);
+    event TestatorCheckedIn(uint256 indexed estateId, uint256 timestamp);
+    event DeathAttested(uint256 indexed estateId, address indexed executor);
+    event DeathAttestationChallenged(uint256 indexed estateId);
+    event ClaimPeriodSet(uint256 indexed estateId, uint256 period);
+    event AllocationExpired(uint256 indexed estateId, address indexed heir);
+    event UnclaimedSwept(uint256 indexed estateId, address indexed recipient, address indexed token, euint64 amount);
+
+    // Errors
+    error OnlyAdmin();
+    error OnlyExecutor();
+    error EstateAlreadyFinalized();
+    error EstateNotFinalized();
+    error EstateNotActive();
+    error EstateNotFound();
+    error AlreadyHeir();
+    error NotHeir();
+    error AlreadyClaimed();
+    error ZeroAddress();
+    error InvalidToken();
+    error MissingEstateId();
+    error OnlyTestator();
+    error InvalidInactivityPeriod();
+    error DeathAlreadyAttested();
+    error ClaimsLocked();
+    error InvalidVestingSchedule();
+    error HasVestingSchedule();
+    error ProposalRequired();
+    error ProposalNotFound();
+    error ProposalAlreadyExecuted();
+    error AlreadyApproved();
+    error AlreadyExecutor();
+    error NotCoExecutor();
+    error InvalidThreshold();
+    error AlreadyContingent();
+    error NoContingents();
+    error NoDisclaimerBeneficiary();
+    error InvalidGuardianship();
+    error OnlyGuardian();
+    error MajorityNotReached();
+    error MajorityReached();
+    error OnlyArbiter();
+    error NoArbiter();
+    error InvalidArbiter();
+    error InvalidDisputeWindow();
+    error DisputeWindowClosed();
+    error EstateDisputed();
+    error NoActiveDispute();
+    error DistributionStarted();
+    error InvalidViewer();
+    error AlreadyViewer();
+    error NotViewer();
+    error InvalidAuditor();
+    error AlreadyAuditor();
+    error NotAuditor();
+    error OnlyAuditor();
+    error EstateNotClosed();
+    error TotalsAlreadyDisclosed();
+    error NoPendingDisclosure();
+    error NoLetter();
+    error RecoveryAlreadyPending();
+    error NoPendingRecovery();
+    error RecoveryTimelocked();
+    error ClaimDeadlinePassed();
+    error ClaimDeadlineNotPassed();
+    error FinalizationPending();
+    error NoPendingFinalization();
+
+    // Modifiers
+    modifier onlyAdmin() {
+        if (msg.sender != admin) revert OnlyAdmin();
+        _;
+    }
+
+    modifier onlyEstateExecutor(uint256 estateId) {
+        if (!isExecutorOf(estateId, msg.sender)) revert OnlyExecutor();
+        _;
+    }
+
+    modifier singleApproval(uint256 estateId) {
+        if (approvalThreshold[estateId] > 1) revert ProposalRequired();
+        _;
+    }
+
+    modifier notFinalized(uint256 estateId) {
+        if (estates[estateId].finalized) revert EstateAlreadyFinalized();
+        if (FHE.isInitialized(solvencyCheck[estateId])) revert FinalizationPending();
+        _;
+    }
+
+    modifier isEstateFinalized(uint256 estateId) {
+        if (!estates[estateId].finalized) revert EstateNotFinalized();
+        _;
+    }
+
+    modifier estateActive(uint256 estateId) {
+        if (!estates[estateId].active) revert EstateNotActive();
+        _;
+    }
+
+    modifier estateExists(uint256 estateId) {
+        if (estates[estateId].executor == address(0)) revert EstateNotFound();
+        _;
+    }
+
+    modifier onlyTestator(uint256 estateId) {
+        if (msg.sender != estates[estateId].testator) revert OnlyTestator();
+        _;
+    }
+
+    modifier claimsUnlocked(uint256 estateId) {
+        if (!isClaimUnlocked(estateId)) revert ClaimsLocked();
+        _;
+    }
+
+    modifier notDisputed(uint256 estateId) {
+        if (disputes[estateId].raisedBy != address(0)) revert EstateDisputed();
+        _;
+    }
+
+    modifier beforeClaimDeadline(uint256 estateId) {
+        uint256 deadline = claimDeadline(estateId);
+        if (deadline != 0 && block.timestamp > deadline) revert ClaimDeadlinePassed();
+        _;
+    }
+
+    /**
+     * @notice Internal add heir logic shared by direct calls and approved proposals
+     */
+    function _addHeir(
+        uint256 estateId,
+        address heir,
+        address token,
+        euint64 allocation
+    ) internal notFinalized(estateId) estateActive(estateId) {
+        _trackToken(estateId, token);
+        _registerHeir(estateId, heir);
+        _storeAllocation(estateId, heir, token, allocation);
+
+        // Update total allocated
+        _addToTotalAllocated(estateId, token, allocation);
+    }
+
+    /**
+     * @notice Internal add share heir logic shared by direct calls and approved proposals
+     */
+    function _addHeirWithShare(
+        uint256 estateId,
+        address heir,
+        euint64 requestedShare
+    ) internal notFinalized(estateId) estateActive(estateId) {
+        euint64 share = FHE.min(requestedShare, BPS_DENOMINATOR);
+
+        _registerHeir(estateId, heir);
+
+        // Store share
+        isShareHeir[estateId][heir] = true;
+        shareBps[estateId][heir] = share;
+        FHE.allowThis(share);
+        FHE.allow(share, heir);
+        _allowExecutors(estateId, share);
+
+        totalShareBps[estateId] = FHE.add(totalShareBps[estateId], share);
+        FHE.allowThis(totalShareBps[estateId]);
+        _allowExecutors(estateId, totalShareBps[estateId]);
+    }
+
+    /**
+     * @notice Internal update logic shared by direct calls and approved proposals
+     * @dev For amount heirs this also sets an allocation in a token the heir had none in
+     */
+    function _updateAllocation(
+        uint256 estateId,
+        address heir,
+        address token,
+        euint64 value
+    ) internal notFinalized(estateId) estateActive(estateId) {
+        if (!isHeirOf[estateId][heir]) revert NotHeir();
+
+        if (isShareHeir[estateId][heir]) {
+            euint64 share = FHE.min(value, BPS_DENOMINATOR);
+
+            // Swap the old share for the new one in the running total
+            totalShareBps[estateId] = FHE.add(FHE.sub(totalShareBps[estateId], shareBps[estateId][heir]), share);
+            FHE.allowThis(totalShareBps[estateId]);
+            _allowExecutors(estateId, totalShareBps[estateId]);
+
+            shareBps[estateId][heir] = share;
+            FHE.allowThis(share);
+            FHE.allow(share, heir);
+            _allowExecutors(estateId, share);
+        } else {
+            _trackToken(estateId, token);
+
+            // Swap the old allocation for the new one in the running total
+            totalAllocated[estateId][token] = FHE.sub(totalAllocated[estateId][token], allocations[estateId][heir][token]);
+            _addToTotalAllocated(estateId, token, value);
+            _storeAllocation(estateId, heir, token, value);
+        }
+
+        emit AllocationUpdated(estateId, heir);
+    }
+
+    /**
+     * @notice Internal remove heir logic shared by direct calls and approved proposals
+     */
+    function _removeHeir(
+        uint256 estateId,
+        address heir
+    ) internal notFinalized(estateId) estateActive(estateId) {
+        if (!isHeirOf[estateId][heir]) revert NotHeir();
+
+        // Subtract each allocation from its token's total and clear it
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            address token = tokens[i];
+            totalAllocated[estateId][token] = FHE.sub(totalAllocated[estateId][token], allocations[estateId][heir][token]);
+            _allowTotalAllocated(estateId, totalAllocated[estateId][token]);
+
+            allocations[estateId][heir][token] = FHE.asEuint64(0);
+        }
+        isHeirOf[estateId][heir] = false;
+
+        // Clear percentage share
+        if (isShareHeir[estateId][heir]) {
+            totalShareBps[estateId] = FHE.sub(totalShareBps[estateId], shareBps[estateId][heir]);
+            FHE.allowThis(totalShareBps[estateId]);
+            _allowExecutors(estateId, totalShareBps[estateId]);
+
+            shareBps[estateId][heir] = FHE.asEuint64(0);
+            isShareHeir[estateId][heir] = false;
+        }
+        if (residuaryHeir[estateId] == heir) {
+            residuaryHeir[estateId] = address(0);
+        }
+        delete vestingSchedules[estateId][heir];
+        delete contingents[estateId][heir];
+        delete guardianships[estateId][heir];
+        delete letters[estateId][heir].ciphertext;
+        letters[estateId][heir].key = euint256.wrap(0);
+        _clearRecovery(estateId, heir);
+
+        // Drop the heir's viewers so they are not re-granted if the address is added again
+        address[] storage viewers = allocationViewers[estateId][heir];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            isAllocationViewer[estateId][heir][viewers[i]] = false;
+        }
+        delete allocationViewers[estateId][heir];
+
+        // Remove from heirs array
+        _removeAddress(estateHeirs[estateId], heir);
+
+        // Remove from heir's estates index
+        _removeFromArray(heirEstates[heir], estateId);
+
+        emit HeirRemoved(estateId, heir);
+    }
+
+    /**
+     * @notice Internal finalize request shared by direct calls and approved proposals
+     * @dev Publishes only whether fixed allocations plus percentage shares fit in the balance of every token.
+     *      Allocations stay locked until the result is confirmed; a new request replaces a stale one.
+     */
+    function _requestFinalization(uint256 estateId) internal estateActive(estateId) {
+        if (estates[estateId].finalized) revert EstateAlreadyFinalized();
+
+        // Shares resolve to at most balance * totalShareBps / 10000, so compare in 128 bits
+        euint128 sharesBps = FHE.asEuint128(totalShareBps[estateId]);
+        ebool solvent = FHE.asEbool(true);
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            euint128 balance = FHE.asEuint128(estateBalances[estateId][tokens[i]]);
+            euint128 committed = FHE.add(
+                FHE.asEuint128(totalAllocated[estateId][tokens[i]]),
+                FHE.div(FHE.mul(balance, sharesBps), BPS_DENOMINATOR)
+            );
+            solvent = FHE.and(solvent, FHE.le(committed, balance));
+        }
+
+        FHE.allowThis(solvent);
+        FHE.makePubliclyDecryptable(solvent);
+        solvencyCheck[estateId] = solvent;
+        finalizationRejected[estateId] = false;
+
+        emit FinalizationRequested(estateId, solvent);
+    }
+
+    /**
+     * @notice Check whether the dead-man's switch allows claims for an estate
+     * @param estateId The estate to query
+     * @return Whether the testator has been inactive long enough or a death attestation has survived its challenge window
+     */
+    function isClaimUnlocked(uint256 estateId) public view returns (bool) {
+        Estate storage estate = estates[estateId];
+        if (block.timestamp > estate.lastCheckIn + estate.inactivityPeriod) return true;
+        return estate.deathAttestedAt != 0 && block.timestamp >= estate.deathAttestedAt + DEATH_CHALLENGE_WINDOW;
+    }
+
+    /**
+     * @notice Get the time at which claims unlock under the current dead-man's switch state
+     * @param estateId The estate to query
+     * @return The unlock timestamp (may move forward while the testator keeps checking in)
+     */
+    function claimsUnlockedAt(uint256 estateId) public view returns (uint256) {
+        Estate storage estate = estates[estateId];
+        uint256 unlockAt = estate.lastCheckIn + estate.inactivityPeriod + 1;
+        if (estate.deathAttestedAt != 0 && estate.deathAttestedAt + DEATH_CHALLENGE_WINDOW < unlockAt) {
+            unlockAt = estate.deathAttestedAt + DEATH_CHALLENGE_WINDOW;
+        }
+        return unlockAt;
+    }
+
+    /**
+     * @notice Get the time after which unclaimed allocations expire
+     * @dev Extended by the time claims were frozen by resolved disputes; no allocation expires during a dispute
+     * @param estateId The estate to query
+     * @return The deadline timestamp, or 0 if the estate has no claim period
+     */
+    function claimDeadline(uint256 estateId) public view returns (uint256) {
+        uint256 period = claimPeriod[estateId];
+        return period == 0 ? 0 : claimsUnlockedAt(estateId) + period + disputedDuration[estateId];
+    }
+
+    /**
+     * @notice Check whether an address is the primary executor or a co-executor of an estate
+     * @param estateId The estate to query
+     * @param account Address to check
+     * @return Whether the account can act as executor
+     */
+    function isExecutorOf(uint256 estateId, address account) public view returns (bool) {
+        return account == estates[estateId].executor || isCoExecutor[estateId][account];
+    }
+
+    /**
+     * @notice Internal helper to grant the primary executor and every co-executor access to a handle
+     */
+    function _allowExecutors(uint256 estateId, euint64 value) internal {
+        FHE.allow(value, estates[estateId].executor);
+
+        address[] storage cos = coExecutors[estateId];
+        for (uint256 i = 0; i < cos.length; i++) {
+            FHE.allow(value, cos[i]);
+        }
+    }
+
+    /**
+     * @notice Internal helper to grant the contract, executors and auditors access to an estate total
+     * @dev Only for the balance and total paid; auditors must never see an allocation. Differencing successive
+     *      updates still reveals the size of each deposit and payout.
+     */
+    function _allowAggregate(uint256 estateId, euint64 value) internal {
+        FHE.allowThis(value);
+        _allowExecutors(estateId, value);
+
+        address[] storage auditors = estateAuditors[estateId];
+        for (uint256 i = 0; i < auditors.length; i++) {
+            FHE.allow(value, auditors[i]);
+        }
+    }
+
+    /**
+     * @notice Internal helper to grant the contract and executors access to an estate's total allocated
+     * @dev Auditors only get the total fixed at finalization, since the difference between two intermediate
+     *      totals is a single heir's allocation
+     */
+    function _allowTotalAllocated(uint256 estateId, euint64 value) internal {
+        FHE.allowThis(value);
+        _allowExecutors(estateId, value);
+    }
+
+    /**
+     * @notice Internal helper to add an allowed token to an estate with zeroed encrypted balances
+     */
+    function _trackToken(uint256 estateId, address token) internal {
+        if (hasEstateToken[estateId][token]) return;
+        if (!isAllowedToken[token]) revert InvalidToken();
+
+        hasEstateToken[estateId][token] = true;
+        estateTokens[estateId].push(token);
+
+        estateBalances[estateId][token] = FHE.asEuint64(0);
+        _allowAggregate(estateId, estateBalances[estateId][token]);
+
+        totalAllocated[estateId][token] = FHE.asEuint64(0);
+        _allowTotalAllocated(estateId, totalAllocated[estateId][token]);
+
+        totalPaid[estateId][token] = FHE.asEuint64(0);
+        _allowAggregate(estateId, totalPaid[estateId][token]);
+    }
+
+    /**
+     * @notice Internal helper to record a new heir in the estate and index mappings
+     */
+    function _registerHeir(uint256 estateId, address heir) internal {
+        if (heir == address(0)) revert ZeroAddress();
+        if (isHeirOf[estateId][heir]) revert AlreadyHeir();
+
+        isHeirOf[estateId][heir] = true;
+        estateHeirs[estateId].push(heir);
+
+        // Track in heir's estates
+        heirEstates[heir].push(estateId);
+
+        emit HeirAdded(estateId, heir);
+    }
+
+    /**
+     * @notice Internal helper to store an allocation readable by the heir, executor and the heir's viewers
+     */
+    function _storeAllocation(uint256 estateId, address heir, address token, euint64 allocation) internal {
+        allocations[estateId][heir][token] = allocation;
+        FHE.allowThis(allocation);
+        FHE.allow(allocation, heir);
+        _allowExecutors(estateId, allocation);
+        _allowGuardian(estateId, heir, allocation);
+
+        address[] storage viewers = allocationViewers[estateId][heir];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            FHE.allow(allocation, viewers[i]);
+        }
+    }
+
+    /**
+     * @notice Internal helper to add a lapsed or disclaimed amount to another heir's allocation of the same token
+     */
+    function _creditAllocation(uint256 estateId, address heir, address token, euint64 amount) internal {
+        _storeAllocation(estateId, heir, token, FHE.add(allocations[estateId][heir][token], amount));
+    }
+
+    /**
+     * @notice Internal helper to grant a minor heir's guardian access to a handle until majority
+     */
+    function _allowGuardian(uint256 estateId, address heir, euint64 value) internal {
+        Guardianship storage guardianship = guardianships[estateId][heir];
+        if (guardianship.guardian != address(0) && block.timestamp < guardianship.majorityAt) {
+            FHE.allow(value, guardianship.guardian);
+        }
+    }
+
+    /**
+     * @notice Internal helper to pay part of an heir's allocation from the estate's own balance of a token
+     * @dev Caps the payout at the remaining estate balance and adds what actually moved to the heir's paid-to-date
+     * @param recipient The heir, or their guardian for maintenance
+     * @return transferred The encrypted amount actually paid
+     */
+    function _payout(
+        uint256 estateId,
+        address heir,
+        address recipient,
+        address token,
+        euint64 due
+    ) internal returns (euint64 transferred) {
+        // Cap the payout at what remains of this estate's balance
+        euint64 balance = estateBalances[estateId][token];
+        euint64 amount = FHE.select(FHE.le(due, balance), due, balance);
+
+        // Pay out directly from the contract's own token balance
+        FHE.allowTransient(amount, token);
+        transferred = IERC7984(token).confidentialTransfer(recipient, amount);
+
+        // Debit the estate by what actually moved so other estates' funds are never touched
+        estateBalances[estateId][token] = FHE.sub(balance, transferred);
+        _allowAggregate(estateId, estateBalances[estateId][token]);
+
+        // Record the amount actually paid to date
+        euint64 paid = paidAmounts[estateId][heir][token];
+        paid = FHE.isInitialized(paid) ? FHE.add(paid, transferred) : transferred;
+        paidAmounts[estateId][heir][token] = paid;
+        FHE.allowThis(paid);
+        FHE.allow(paid, heir);
+        _allowExecutors(estateId, paid);
+        _allowGuardian(estateId, heir, paid);
+
+        totalPaid[estateId][token] = FHE.add(totalPaid[estateId][token], transferred);
+        _allowAggregate(estateId, totalPaid[estateId][token]);
+
+        emit AllocationClaimed(estateId, heir, token, transferred);
+    }
+
+    /**
+     * @notice Internal helper to add to an estate's encrypted total allocated
+     */
+    function _addToTotalAllocated(uint256 estateId, address token, euint64 amount) internal {
+        totalAllocated[estateId][token] = FHE.add(totalAllocated[estateId][token], amount);
+        _allowTotalAllocated(estateId, totalAllocated[estateId][token]);
+    }
+
+    /**
+     * @notice Internal helper to turn percentage shares into allocations of every estate token
+     */
+    function _resolveShares(uint256 estateId) internal {
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            _resolveTokenShares(estateId, tokens[i]);
+        }
+    }
+
+    /**
+     * @notice Internal helper to turn percentage shares into allocations of one token
+     * @dev Each amount is floor(balance * bps / 10000); the rounding dust goes to the residuary heir if one is set
+     */
+    function _resolveTokenShares(uint256 estateId, address token) internal {
+        address[] storage heirs = estateHeirs[estateId];
+        euint128 balance = FHE.asEuint128(estateBalances[estateId][token]);
+        euint64 distributed = FHE.asEuint64(0);
+        bool hasShares;
+
+        for (uint256 i = 0; i < heirs.length; i++) {
+            address heir = heirs[i];
+            if (!isShareHeir[estateId][heir]) continue;
+
+            euint64 amount = _applyShare(balance, shareBps[estateId][heir]);
+            _storeAllocation(estateId, heir, token, amount);
+            distributed = FHE.add(distributed, amount);
+            hasShares = true;
+        }
+        if (!hasShares) return;
+
+        // Dust is what the combined share yields minus the sum of the individually rounded amounts
+        address residuary = residuaryHeir[estateId];
+        if (residuary != address(0)) {
+            euint64 dust = FHE.sub(_applyShare(balance, totalShareBps[estateId]), distributed);
+            _storeAllocation(estateId, residuary, token, FHE.add(allocations[estateId][residuary][token], dust));
+            distributed = FHE.add(distributed, dust);
+            shareDust[estateId][token] = dust;
+            FHE.allowThis(dust);
+        }
+
+        _addToTotalAllocated(estateId, token, distributed);
+    }
+
+    /**
+     * @notice Internal helper computing floor(balance * bps / 10000) without 64-bit overflow
+     */
+    function _applyShare(euint128 balance, euint64 bps) internal returns (euint64) {
+        return FHE.asEuint64(FHE.div(FHE.mul(balance, FHE.asEuint128(bps)), BPS_DENOMINATOR));
+    }
+
+    /**
+     * @notice Internal helper to close an estate and refund every depositor from what remains of its balance
+     * @dev Shared by executor cancellation and an arbiter's cancelling resolution
+     */
+    function _closeAndRefund(uint256 estateId) internal {
+        estates[estateId].active = false;
+
+        // Return each depositor's contribution of every token from the estate balance
+        address[] storage tokens = estateTokens[estateId];
+        address[] storage depositors = estateDepositors[estateId];
+        for (uint256 t = 0; t < tokens.length; t++) {
+            address token = tokens[t];
+            for (uint256 i = 0; i < depositors.length; i++) {
+                address depositor = depositors[i];
+                euint64 deposited = deposits[estateId][depositor][token];
+                if (!FHE.isInitialized(deposited)) continue;
+
+                euint64 balance = estateBalances[estateId][token];
+                euint64 refund = FHE.select(FHE.le(deposited, balance), deposited, balance);
+
+                FHE.allowTransient(refund, token);
+                euint64 transferred = IERC7984(token).confidentialTransfer(depositor, refund);
+
+                estateBalances[estateId][token] = FHE.sub(balance, transferred);
+                FHE.allowThis(estateBalances[estateId][token]);
+                emit DepositRefunded(estateId, depositor, token, transferred);
+            }
+            _allowAggregate(estateId, estateBalances[estateId][token]);
+        }
+
+        // Drop the estate from every heir's index
+        address[] storage heirs = estateHeirs[estateId];
+        for (uint256 i = 0; i < heirs.length; i++) {
+            _removeFromArray(heirEstates[heirs[i]], estateId);
+        }
+
+        emit EstateCancelled(estateId);
+    }
+
+    /**
+     * @notice Internal helper to drop an heir's pending wallet recovery, if any
+     */
+    function _clearRecovery(uint256 estateId, address heir) internal {
+        if (pendingRecoveries[estateId][heir].newAddress == address(0)) return;
+
+        delete pendingRecoveries[estateId][heir];
+        _removeAddress(recoveringHeirs[estateId], heir);
+    }
+
+    /**
+     * @notice Internal helper to remove an address from an array
+     */
+    function _removeAddress(address[] storage arr, address value) internal {
+        for (uint256 i = 0; i < arr.length; i++) {
+            if (arr[i] == value) {
+                arr[i] = arr[arr.length - 1];
+                arr.pop();
+                break;
+            }
+        }
+    }
+
+    /**
+     * @notice Internal helper to remove a value from an array
+     */
+    function _removeFromArray(uint256[] storage arr, uint256 value) internal {
+        for (uint256 i = 0; i < arr.length; i++) {
+            if (arr[i] == value) {
+                arr[i] = arr[arr.length - 1];
+                arr.pop();
+                break;
+            }
+        }
+    }
+
+    /**
+     * @notice Internal helper to check whether an estate is already in an address's index
+     */
+    function _containsEstate(uint256[] storage known, uint256 estateId) internal view returns (bool) {
+        for (uint256 i = 0; i < known.length; i++) {
+            if (known[i] == estateId) return true;
+        }
+        return false;
+    }
+}
@@ -1,105 +1,53 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
-import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
-import {IERC7984} from "./interfaces/IERC7984.sol";
+import {FHE, ebool, euint64, euint128, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
 import {IERC7984Receiver} from "./interfaces/IERC7984Receiver.sol";
+import {InheritanceBase} from "./InheritanceBase.sol";
 
 /**
  * @title InheritanceDistribution
  * @notice Multi-estate private inheritance distribution where heirs only see their own allocations
- * @dev Uses FHE to encrypt allocation amounts, preventing heirs from seeing siblings' shares
+ * @dev Uses FHE to encrypt allocation amounts, preventing heirs from seeing siblings' shares.
+ *      Functions not defined here are forwarded to InheritanceExtension to stay under the contract size limit.
  */
-contract InheritanceDistribution is IERC7984Receiver, ZamaEthereumConfig {
-    // Global state
-    uint256 public nextEstateId;
-    IERC7984 public token;
-
-    // Estate struct
-    struct Estate {
-        address executor;
-        uint256 createdAt;
-        bool finalized;
-        bool active;
-        string name;
-    }
-
-    // Core mappings (estateId as primary key)
-    mapping(uint256 => Estate) public estates;
-    mapping(uint256 => address[]) private estateHeirs;
-    mapping(uint256 => mapping(address => bool)) public isHeirOf;
-    mapping(uint256 => mapping(address => euint64)) private allocations;
-    mapping(uint256 => mapping(address => bool)) public claimed;
-    mapping(uint256 => euint64) private estateBalances;
-    mapping(uint256 => euint64) private totalAllocated;
-
-    // Index mappings for efficient queries
-    mapping(address => uint256[]) private executorEstates;
-    mapping(address => uint256[]) private heirEstates;
-
-    // Events
-    event EstateCreated(uint256 indexed estateId, address indexed executor, string name);
-    event HeirAdded(uint256 indexed estateId, address indexed heir);
-    event HeirRemoved(uint256 indexed estateId, address indexed heir);
-    event EstateFinalized(uint256 indexed estateId);
-    event AllocationClaimed(uint256 indexed estateId, address indexed heir);
-    event TokensDeposited(uint256 indexed estateId, address indexed from);
-
-    // Errors
-    error OnlyExecutor();
-    error EstateAlreadyFinalized();
-    error EstateNotFinalized();
-    error EstateNotActive();
-    error EstateNotFound();
-    error AlreadyHeir();
-    error NotHeir();
-    error AlreadyClaimed();
-    error ZeroAddress();
-    error InvalidToken();
-    error MissingEstateId();
-
-    // Modifiers
-    modifier onlyEstateExecutor(uint256 estateId) {
-        if (msg.sender != estates[estateId].executor) revert OnlyExecutor();
-        _;
-    }
-
-    modifier notFinalized(uint256 estateId) {
-        if (estates[estateId].finalized) revert EstateAlreadyFinalized();
-        _;
-    }
-
-    modifier isEstateFinalized(uint256 estateId) {
-        if (!estates[estateId].finalized) revert EstateNotFinalized();
-        _;
-    }
-
-    modifier estateActive(uint256 estateId) {
-        if (!estates[estateId].active) revert EstateNotActive();
-        _;
-    }
-
-    modifier estateExists(uint256 estateId) {
-        if (estates[estateId].executor == address(0)) revert EstateNotFound();
-        _;
-    }
+contract InheritanceDistribution is InheritanceBase, IERC7984Receiver {
+    // Contract implementing the remaining entry points, reached through the fallback
+    address public immutable extension;
 
     /**
-     * @notice Initialize the contract with a token
-     * @param _token Address of the ERC-7984 token to distribute
+     * @notice Initialize the contract with a first allowed token and its extension
+     * @dev The deployer becomes the admin who manages the token allowlist
+     * @param _token Address of an ERC-7984 token to allow from the start
+     * @param _extension Address of the deployed InheritanceExtension
      */
-    constructor(address _token) {
-        if (_token == address(0)) revert ZeroAddress();
-        token = IERC7984(_token);
+    constructor(address _token, address _extension) {
+        if (_token == address(0) || _extension == address(0)) revert ZeroAddress();
+        extension = _extension;
+
+        admin = msg.sender;
+        emit AdminTransferred(address(0), msg.sender);
+
+        isAllowedToken[_token] = true;
+        allowedTokens.push(_token);
+        emit TokenAllowed(_token);
     }
 
     /**
      * @notice Create a new inheritance distribution estate
      * @param name Human-readable name for the estate
+     * @param testator Address of the person whose estate it is
+     * @param inactivityPeriod Seconds without a testator check-in after which claims unlock
      * @return estateId The ID of the newly created estate
      */
-    function createEstate(string calldata name) external returns (uint256 estateId) {
+    function createEstate(
+        string calldata name,
+        address testator,
+        uint256 inactivityPeriod
+    ) external returns (uint256 estateId) {
+        if (testator == address(0)) revert ZeroAddress();
+        if (inactivityPeriod == 0) revert InvalidInactivityPeriod();
+
         estateId = nextEstateId++;
 
         estates[estateId] = Estate({
@@ -107,27 +55,30 @@ contract InheritanceDistribution is IERC7984Receiver, ZamaEthereumConfig {
             createdAt: block.timestamp,
             finalized: false,
             active: true,
-            name: name
+            name: name,
+            testator: testator,
+            lastCheckIn: block.timestamp,
+            inactivityPeriod: inactivityPeriod,
+            deathAttestedAt: 0
         });
+        approvalThreshold[estateId] = 1;
 
-        // Initialize encrypted balances
-        estateBalances[estateId] = FHE.asEuint64(0);
-        totalAllocated[estateId] = FHE.asEuint64(0);
+        // Token balances are initialized on first deposit or allocation
+        totalShareBps[estateId] = FHE.asEuint64(0);
+        FHE.allowThis(totalShareBps[estateId]);
+        FHE.allow(totalShareBps[estateId], msg.sender);
 
-        FHE.allowThis(estateBalances[estateId]);
-        FHE.allow(estateBalances[estateId], msg.sender);
-        FHE.allowThis(totalAllocated[estateId]);
-        FHE.allow(totalAllocated[estateId], msg.sender);
-
-        // Track in executor's estates
+        // Track in executor's and testator's estates
         executorEstates[msg.sender].push(estateId);
+        testatorEstates[testator].push(estateId);
 
         emit EstateCreated(estateId, msg.sender, name);
     }
 
     /**
      * @notice Handle incoming ERC-7984 token transfers
-     * @dev The data parameter must contain the estateId to route the deposit
+     * @dev The calling token must be allowed; the data parameter must contain the estateId to route the deposit.
+     *      Deposits into a cancelled or swept estate revert, so the token returns them to the sender.
      */
     function onERC7984Received(
         address,
@@ -136,60 +87,128 @@ contract InheritanceDistribution is IERC7984Receiver, ZamaEthereumConfig {
         euint64 amount,
         bytes calldata data
     ) external override returns (bytes4) {
-        if (msg.sender != address(token)) revert InvalidToken();
+        address token = msg.sender;
+        if (!isAllowedToken[token]) revert InvalidToken();
         if (data.length < 32) revert MissingEstateId();
 
         // Decode estate ID from data
         uint256 estateId = abi.decode(data, (uint256));
         if (estates[estateId].executor == address(0)) revert EstateNotFound();
+        if (!estates[estateId].active) revert EstateNotActive();
 
-        // Add to estate balance
-        estateBalances[estateId] = FHE.add(estateBalances[estateId], amount);
-        FHE.allowThis(estateBalances[estateId]);
-        FHE.allow(estateBalances[estateId], estates[estateId].executor);
+        // Add to the estate's balance of this token
+        _trackToken(estateId, token);
+        estateBalances[estateId][token] = FHE.add(estateBalances[estateId][token], amount);
+        _allowAggregate(estateId, estateBalances[estateId][token]);
 
-        emit TokensDeposited(estateId, from);
+        // Track the depositor's contribution for refunds
+        if (!isDepositor[estateId][from]) {
+            isDepositor[estateId][from] = true;
+            estateDepositors[estateId].push(from);
+        }
+        euint64 deposited = FHE.add(deposits[estateId][from][token], amount);
+        deposits[estateId][from][token] = deposited;
+        FHE.allowThis(deposited);
+        FHE.allow(deposited, from);
+
+        emit TokensDeposited(estateId, from, token);
         return IERC7984Receiver.onERC7984Received.selector;
     }
 
     /**
-     * @notice Add an heir with an encrypted allocation
+     * @notice Add an heir with an encrypted allocation of one token
+     * @dev Use updateAllocation to give the heir amounts of further tokens
      * @param estateId The estate to add the heir to
      * @param heir Address of the heir
+     * @param token Allowed token the allocation is paid in
      * @param encryptedAllocation Encrypted allocation amount
      * @param inputProof Proof for the encrypted input
      */
     function addHeir(
         uint256 estateId,
         address heir,
+        address token,
         externalEuint64 encryptedAllocation,
         bytes calldata inputProof
-    ) external onlyEstateExecutor(estateId) notFinalized(estateId) estateActive(estateId) {
-        if (heir == address(0)) revert ZeroAddress();
-        if (isHeirOf[estateId][heir]) revert AlreadyHeir();
-
-        euint64 allocation = FHE.fromExternal(encryptedAllocation, inputProof);
+    ) external onlyEstateExecutor(estateId) singleApproval(estateId) {
+        _addHeir(estateId, heir, token, FHE.fromExternal(encryptedAllocation, inputProof));
+    }
 
-        // Store allocation
-        allocations[estateId][heir] = allocation;
-        isHeirOf[estateId][heir] = true;
-        estateHeirs[estateId].push(heir);
+    /**
+     * @notice Add an heir with an encrypted percentage share of the estate balance
+     * @dev The amount is computed at finalization; shares above 100% are capped at 100%
+     * @param estateId The estate to add the heir to
+     * @param heir Address of the heir
+     * @param encryptedShareBps Encrypted share in basis points (10000 = 100%)
+     * @param inputProof Proof for the encrypted input
+     */
+    function addHeirWithShare(
+        uint256 estateId,
+        address heir,
+        externalEuint64 encryptedShareBps,
+        bytes calldata inputProof
+    ) external onlyEstateExecutor(estateId) singleApproval(estateId) {
+        _addHeirWithShare(estateId, heir, FHE.fromExternal(encryptedShareBps, inputProof));
+    }
 
-        // Update total allocated
-        totalAllocated[estateId] = FHE.add(totalAllocated[estateId], allocation);
+    /**
+     * @notice Replace an heir's encrypted allocation of a token (only before finalization)
+     * @dev For percentage heirs the value is the new share in basis points, capped at 100%, and the token is ignored
+     * @param estateId The estate to update
+     * @param heir Address of an existing heir
+     * @param token Allowed token of the allocation
+     * @param encryptedValue Encrypted new amount or share
+     * @param inputProof Proof for the encrypted input
+     */
+    function updateAllocation(
+        uint256 estateId,
+        address heir,
+        address token,
+        externalEuint64 encryptedValue,
+        bytes calldata inputProof
+    ) external onlyEstateExecutor(estateId) singleApproval(estateId) {
+        _updateAllocation(estateId, heir, token, FHE.fromExternal(encryptedValue, inputProof));
+    }
 
-        // Set ACL permissions
-        FHE.allowThis(allocation);
-        FHE.allow(allocation, heir);
-        FHE.allow(allocation, estates[estateId].executor);
+    /**
+     * @notice Designate the heir who receives rounding dust from percentage allocations
+     * @dev Unavailable while the estate requires more than one approval, since the residuary heir receives swept balances
+     * @param estateId The estate to configure
+     * @param heir Address of an existing heir
+     */
+    function setResiduaryHeir(
+        uint256 estateId,
+        address heir
+    ) external onlyEstateExecutor(estateId) notFinalized(estateId) estateActive(estateId) singleApproval(estateId) {
+        if (!isHeirOf[estateId][heir]) revert NotHeir();
 
-        FHE.allowThis(totalAllocated[estateId]);
-        FHE.allow(totalAllocated[estateId], estates[estateId].executor);
+        residuaryHeir[estateId] = heir;
+        emit ResiduaryHeirSet(estateId, heir);
+    }
 
-        // Track in heir's estates
-        heirEstates[heir].push(estateId);
+    /**
+     * @notice Pay an heir in installments instead of a single claim
+     * @dev Unavailable while the estate requires more than one approval, since a schedule delays the heir's payout
+     * @param estateId The estate to configure
+     * @param heir Address of an existing heir
+     * @param start Vesting start timestamp (0 = when claims unlock)
+     * @param cliff Seconds after start before anything vests
+     * @param duration Seconds after start until the full allocation has vested
+     * @param installments Number of equal releases over the duration (0 = continuous)
+     */
+    function setVestingSchedule(
+        uint256 estateId,
+        address heir,
+        uint64 start,
+        uint64 cliff,
+        uint64 duration,
+        uint32 installments
+    ) external onlyEstateExecutor(estateId) notFinalized(estateId) estateActive(estateId) singleApproval(estateId) {
+        if (!isHeirOf[estateId][heir]) revert NotHeir();
+        if (duration == 0 || cliff > duration || installments > duration) revert InvalidVestingSchedule();
 
-        emit HeirAdded(estateId, heir);
+        vestingSchedules[estateId][heir] = VestingSchedule(start, cliff, duration, installments);
+        emit VestingScheduleSet(estateId, heir, start, cliff, duration, installments);
     }
 
     /**
@@ -200,84 +219,241 @@ contract InheritanceDistribution is IERC7984Receiver, ZamaEthereumConfig {
     function removeHeir(
         uint256 estateId,
         address heir
-    ) external onlyEstateExecutor(estateId) notFinalized(estateId) estateActive(estateId) {
-        if (!isHeirOf[estateId][heir]) revert NotHeir();
+    ) external onlyEstateExecutor(estateId) singleApproval(estateId) {
+        _removeHeir(estateId, heir);
+    }
+
+    /**
+     * @notice Request finalization of an estate (locks all allocations)
+     * @dev Publishes an encrypted solvency check; confirmFinalization completes it once decrypted
+     * @param estateId The estate to finalize
+     */
+    function finalizeEstate(
+        uint256 estateId
+    ) external onlyEstateExecutor(estateId) singleApproval(estateId) {
+        _requestFinalization(estateId);
+    }
 
-        // Subtract from total allocated
-        totalAllocated[estateId] = FHE.sub(totalAllocated[estateId], allocations[estateId][heir]);
-        FHE.allowThis(totalAllocated[estateId]);
-        FHE.allow(totalAllocated[estateId], estates[estateId].executor);
-
-        // Clear allocation
-        allocations[estateId][heir] = FHE.asEuint64(0);
-        isHeirOf[estateId][heir] = false;
-
-        // Remove from heirs array
-        address[] storage heirs = estateHeirs[estateId];
-        for (uint256 i = 0; i < heirs.length; i++) {
-            if (heirs[i] == heir) {
-                heirs[i] = heirs[heirs.length - 1];
-                heirs.pop();
-                break;
+    /**
+     * @notice Complete a finalization request with the public decryption of its solvency check (callable by anyone)
+     * @dev Finalizes and resolves percentage shares if the allocations fit in the balance, otherwise unlocks the estate for edits
+     * @param estateId The estate being finalized
+     * @param abiEncodedCleartexts ABI-encoded decrypted solvency result
+     * @param decryptionProof KMS signatures over the decryption
+     */
+    function confirmFinalization(
+        uint256 estateId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external estateActive(estateId) {
+        ebool check = solvencyCheck[estateId];
+        if (!FHE.isInitialized(check)) revert NoPendingFinalization();
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = ebool.unwrap(check);
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+        solvencyCheck[estateId] = ebool.wrap(0);
+        if (abi.decode(abiEncodedCleartexts, (bool))) {
+            estates[estateId].finalized = true;
+            finalizedAt[estateId] = block.timestamp;
+            _resolveShares(estateId);
+
+            // Auditors kept from before a reopened dispute get the new final totals
+            address[] storage tokens = estateTokens[estateId];
+            address[] storage auditors = estateAuditors[estateId];
+            for (uint256 i = 0; i < tokens.length; i++) {
+                for (uint256 j = 0; j < auditors.length; j++) {
+                    FHE.allow(totalAllocated[estateId][tokens[i]], auditors[j]);
+                }
             }
+            emit EstateFinalized(estateId);
+        } else {
+            finalizationRejected[estateId] = true;
+            emit FinalizationRejected(estateId);
         }
+    }
+
+    /**
+     * @notice Record proof of life for an estate (testator only)
+     * @dev Also challenges any pending death attestation
+     * @param estateId The estate to check in for
+     */
+    function checkIn(uint256 estateId) external onlyTestator(estateId) estateActive(estateId) {
+        Estate storage estate = estates[estateId];
+        estate.lastCheckIn = block.timestamp;
 
-        // Remove from heir's estates index
-        _removeFromArray(heirEstates[heir], estateId);
+        if (estate.deathAttestedAt != 0) {
+            estate.deathAttestedAt = 0;
+            emit DeathAttestationChallenged(estateId);
+        }
 
-        emit HeirRemoved(estateId, heir);
+        emit TestatorCheckedIn(estateId, block.timestamp);
     }
 
     /**
-     * @notice Finalize an estate (locks all allocations)
-     * @param estateId The estate to finalize
+     * @notice Attest the testator's death; claims unlock once the challenge window passes
+     * @dev Unavailable while the estate requires more than one approval; claims then unlock through inactivity only
+     * @param estateId The estate to attest for
      */
-    function finalizeEstate(
+    function attestDeath(
         uint256 estateId
-    ) external onlyEstateExecutor(estateId) notFinalized(estateId) estateActive(estateId) {
-        estates[estateId].finalized = true;
-        emit EstateFinalized(estateId);
+    ) external onlyEstateExecutor(estateId) estateActive(estateId) singleApproval(estateId) {
+        if (estates[estateId].deathAttestedAt != 0) revert DeathAlreadyAttested();
+
+        estates[estateId].deathAttestedAt = block.timestamp;
+        emit DeathAttested(estateId, msg.sender);
+    }
+
+    /**
+     * @notice Get the fraction of an heir's allocation that has vested
+     * @dev Heirs without a schedule are fully vested
+     * @param estateId The estate to query
+     * @param heir Address of the heir
+     * @return numerator Vested units
+     * @return denominator Total units
+     */
+    function vestedFraction(
+        uint256 estateId,
+        address heir
+    ) public view returns (uint256 numerator, uint256 denominator) {
+        VestingSchedule storage schedule = vestingSchedules[estateId][heir];
+        if (schedule.duration == 0) return (1, 1);
+
+        uint256 start = schedule.start == 0 ? claimsUnlockedAt(estateId) : schedule.start;
+        if (block.timestamp < start + schedule.cliff) return (0, 1);
+        if (block.timestamp >= start + schedule.duration) return (1, 1);
+
+        uint256 elapsed = block.timestamp - start;
+        if (schedule.installments == 0) return (elapsed, schedule.duration);
+        return ((elapsed * schedule.installments) / schedule.duration, schedule.installments);
     }
 
     /**
-     * @notice Get the caller's allocation for a specific estate
+     * @notice Get the caller's allocation of a token for a specific estate
      * @param estateId The estate to query
-     * @return The encrypted allocation amount
+     * @param token The token to query
+     * @return The encrypted allocation amount (uninitialized if none)
      */
-    function getMyAllocation(uint256 estateId) external view estateExists(estateId) returns (euint64) {
+    function getMyAllocation(
+        uint256 estateId,
+        address token
+    ) external view estateExists(estateId) returns (euint64) {
         if (!isHeirOf[estateId][msg.sender]) revert NotHeir();
-        return allocations[estateId][msg.sender];
+        return allocations[estateId][msg.sender][token];
     }
 
     /**
-     * @notice Get a specific heir's allocation (executor only)
+     * @notice Get the caller's percentage share for a specific estate
+     * @param estateId The estate to query
+     * @return The encrypted share in basis points (uninitialized for amount heirs)
+     */
+    function getMyShare(uint256 estateId) external view estateExists(estateId) returns (euint64) {
+        if (!isHeirOf[estateId][msg.sender]) revert NotHeir();
+        return shareBps[estateId][msg.sender];
+    }
+
+    /**
+     * @notice Get a specific heir's percentage share (executor only)
      * @param estateId The estate to query
      * @param heir Address of the heir
-     * @return The encrypted allocation amount
+     * @return The encrypted share in basis points (uninitialized for amount heirs)
      */
-    function getAllocation(
+    function getShare(
         uint256 estateId,
         address heir
     ) external view onlyEstateExecutor(estateId) returns (euint64) {
-        return allocations[estateId][heir];
+        return shareBps[estateId][heir];
+    }
+
+    /**
+     * @notice Get a specific heir's allocation of a token (executor only)
+     * @param estateId The estate to query
+     * @param heir Address of the heir
+     * @param token The token to query
+     * @return The encrypted allocation amount (uninitialized if none)
+     */
+    function getAllocation(
+        uint256 estateId,
+        address heir,
+        address token
+    ) external view onlyEstateExecutor(estateId) returns (euint64) {
+        return allocations[estateId][heir][token];
+    }
+
+    /**
+     * @notice Get the amount of a token actually paid to the caller from a specific estate
+     * @param estateId The estate to query
+     * @param token The token to query
+     * @return The encrypted paid-to-date amount (uninitialized until the first claim)
+     */
+    function getMyPaidAmount(
+        uint256 estateId,
+        address token
+    ) external view estateExists(estateId) returns (euint64) {
+        if (!isHeirOf[estateId][msg.sender]) revert NotHeir();
+        return paidAmounts[estateId][msg.sender][token];
+    }
+
+    /**
+     * @notice Get the amount of a token actually paid to a specific heir (executor only)
+     * @param estateId The estate to query
+     * @param heir Address of the heir
+     * @param token The token to query
+     * @return The encrypted paid-to-date amount (uninitialized until the first claim)
+     */
+    function getPaidAmount(
+        uint256 estateId,
+        address heir,
+        address token
+    ) external view onlyEstateExecutor(estateId) returns (euint64) {
+        return paidAmounts[estateId][heir][token];
     }
 
     /**
-     * @notice Claim inheritance allocation from a specific estate
+     * @notice Claim inheritance allocation of every token from a specific estate
+     * @dev Requires the testator's dead-man's switch to have released, and majority for heirs with a guardian;
+     *      each payout is capped at the estate's remaining encrypted balance of that token
      * @param estateId The estate to claim from
      */
     function claimAllocation(
         uint256 estateId
-    ) external isEstateFinalized(estateId) estateActive(estateId) {
+    ) external isEstateFinalized(estateId) estateActive(estateId) notDisputed(estateId) claimsUnlocked(estateId) beforeClaimDeadline(estateId) {
         if (!isHeirOf[estateId][msg.sender]) revert NotHeir();
         if (claimed[estateId][msg.sender]) revert AlreadyClaimed();
+        if (vestingSchedules[estateId][msg.sender].duration != 0) revert HasVestingSchedule();
+        if (block.timestamp < guardianships[estateId][msg.sender].majorityAt) revert MajorityNotReached();
 
-        euint64 amount = allocations[estateId][msg.sender];
         claimed[estateId][msg.sender] = true;
 
-        token.confidentialTransferFrom(address(this), msg.sender, amount);
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            // Maintenance a guardian already drew counts as paid
+            euint64 due = allocations[estateId][msg.sender][tokens[i]];
+            euint64 paid = paidAmounts[estateId][msg.sender][tokens[i]];
+            if (FHE.isInitialized(paid)) due = FHE.sub(due, paid);
+            _payout(estateId, msg.sender, msg.sender, tokens[i], due);
+        }
+    }
+
+    /**
+     * @notice Claim the currently vested part of an allocation not yet paid out, in every token
+     * @dev Marks the allocation claimed once fully vested; heirs without a schedule receive everything
+     * @param estateId The estate to claim from
+     */
+    function claimVested(
+        uint256 estateId
+    ) external isEstateFinalized(estateId) estateActive(estateId) notDisputed(estateId) claimsUnlocked(estateId) beforeClaimDeadline(estateId) {
+        if (!isHeirOf[estateId][msg.sender]) revert NotHeir();
+        if (claimed[estateId][msg.sender]) revert AlreadyClaimed();
+        if (block.timestamp < guardianships[estateId][msg.sender].majorityAt) revert MajorityNotReached();
+
+        (uint256 numerator, uint256 denominator) = vestedFraction(estateId, msg.sender);
+        if (numerator == denominator) {
+            claimed[estateId][msg.sender] = true;
+        }
 
-        emit AllocationClaimed(estateId, msg.sender);
+        _payVested(estateId, msg.sender, numerator, denominator);
     }
 
     /**
@@ -314,7 +490,28 @@ contract InheritanceDistribution is IERC7984Receiver, ZamaEthereumConfig {
     }
 
     /**
-     * @notice Get estates where caller is executor
+     * @notice Get the dead-man's switch state for an estate
+     * @param estateId The estate to query
+     */
+    function getTestatorStatus(uint256 estateId) external view returns (
+        address _testator,
+        uint256 _lastCheckIn,
+        uint256 _inactivityPeriod,
+        uint256 _deathAttestedAt,
+        bool _claimUnlocked
+    ) {
+        Estate storage estate = estates[estateId];
+        return (
+            estate.testator,
+            estate.lastCheckIn,
+            estate.inactivityPeriod,
+            estate.deathAttestedAt,
+            isClaimUnlocked(estateId)
+        );
+    }
+
+    /**
+     * @notice Get estates where caller is executor or co-executor
      * @return Array of estate IDs
      */
     function getMyExecutorEstates() external view returns (uint256[] memory) {
@@ -330,25 +527,37 @@ contract InheritanceDistribution is IERC7984Receiver, ZamaEthereumConfig {
     }
 
     /**
-     * @notice Get contract's token balance for an estate (executor only)
+     * @notice Get estates where caller is testator
+     * @return Array of estate IDs
+     */
+    function getMyTestatorEstates() external view returns (uint256[] memory) {
+        return testatorEstates[msg.sender];
+    }
+
+    /**
+     * @notice Get contract's balance of a token for an estate (executor only)
      * @param estateId The estate to query
+     * @param token The token to query
      * @return The encrypted balance
      */
     function getContractBalance(
-        uint256 estateId
+        uint256 estateId,
+        address token
     ) external view onlyEstateExecutor(estateId) returns (euint64) {
-        return estateBalances[estateId];
+        return estateBalances[estateId][token];
     }
 
     /**
-     * @notice Get total allocated amount for an estate (executor only)
+     * @notice Get total allocated amount of a token for an estate (executor only)
      * @param estateId The estate to query
+     * @param token The token to query
      * @return The encrypted total allocated
      */
     function getTotalAllocated(
-        uint256 estateId
+        uint256 estateId,
+        address token
     ) external view onlyEstateExecutor(estateId) returns (euint64) {
-        return totalAllocated[estateId];
+        return totalAllocated[estateId][token];
     }
 
     /**
@@ -362,14 +571,53 @@ contract InheritanceDistribution is IERC7984Receiver, ZamaEthereumConfig {
     }
 
     /**
-     * @notice Internal helper to remove a value from an array
+     * @notice Internal helper to pay an heir the vested part not yet paid out of every token
+     */
+    function _payVested(uint256 estateId, address heir, uint256 numerator, uint256 denominator) internal {
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            _payout(estateId, heir, heir, tokens[i], _vestedDue(estateId, heir, tokens[i], numerator, denominator));
+        }
+    }
+
+    /**
+     * @notice Internal helper computing the vested part of an allocation not yet paid out
      */
-    function _removeFromArray(uint256[] storage arr, uint256 value) internal {
-        for (uint256 i = 0; i < arr.length; i++) {
-            if (arr[i] == value) {
-                arr[i] = arr[arr.length - 1];
-                arr.pop();
-                break;
+    function _vestedDue(
+        uint256 estateId,
+        address heir,
+        address token,
+        uint256 numerator,
+        uint256 denominator
+    ) internal returns (euint64) {
+        // Vested amount = floor(allocation * numerator / denominator), computed in 128 bits
+        euint64 vested = FHE.asEuint64(FHE.div(
+            FHE.mul(FHE.asEuint128(allocations[estateId][heir][token]), uint128(numerator)),
+            uint128(denominator)
+        ));
+
+        // Nothing is due if the vested amount has not grown past what was already paid
+        euint64 paid = paidAmounts[estateId][heir][token];
+        if (!FHE.isInitialized(paid)) return vested;
+        return FHE.select(FHE.le(paid, vested), FHE.sub(vested, paid), FHE.asEuint64(0));
+    }
+
+    /**
+     * @notice Forward calls for functions implemented by the extension
+     * @dev Delegatecall keeps msg.sender and runs the extension against this contract's storage
+     */
+    fallback() external {
+        address target = extension;
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), target, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch success
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
             }
         }
     }
@@ -0,0 +1,568 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, euint128, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {IERC7984} from "./interfaces/IERC7984.sol";
+import {InheritanceBase} from "./InheritanceBase.sol";
+
+/**
+ * @title InheritanceExtension
+ * @notice Token allowlist, co-executor governance, estate cancellation, contingent beneficiaries and claim expiry
+ * @dev Only meant to run through InheritanceDistribution's fallback, which delegatecalls into it.
+ *      Functions not defined here are forwarded in turn to InheritanceHeirExtension.
+ */
+contract InheritanceExtension is InheritanceBase {
+    // Contract implementing the heir lifecycle entry points, reached through the fallback
+    address public immutable heirExtension;
+
+    /**
+     * @param _heirExtension Address of the deployed InheritanceHeirExtension
+     */
+    constructor(address _heirExtension) {
+        if (_heirExtension == address(0)) revert ZeroAddress();
+        heirExtension = _heirExtension;
+    }
+
+    /**
+     * @notice Allow estates to hold and allocate a confidential token (admin only)
+     * @param token Address of the ERC-7984 token
+     */
+    function allowToken(address token) external onlyAdmin {
+        if (token == address(0) || isAllowedToken[token]) revert InvalidToken();
+
+        isAllowedToken[token] = true;
+        allowedTokens.push(token);
+        emit TokenAllowed(token);
+    }
+
+    /**
+     * @notice Stop new deposits and allocations of a token (admin only)
+     * @dev Balances already held stay claimable and refundable
+     * @param token Address of the ERC-7984 token
+     */
+    function disallowToken(address token) external onlyAdmin {
+        if (!isAllowedToken[token]) revert InvalidToken();
+
+        isAllowedToken[token] = false;
+        _removeAddress(allowedTokens, token);
+        emit TokenDisallowed(token);
+    }
+
+    /**
+     * @notice Hand the token allowlist over to a new admin (admin only)
+     * @param newAdmin Address of the new admin
+     */
+    function transferAdmin(address newAdmin) external onlyAdmin {
+        if (newAdmin == address(0)) revert ZeroAddress();
+
+        emit AdminTransferred(admin, newAdmin);
+        admin = newAdmin;
+    }
+
+    /**
+     * @notice Name a contingent beneficiary who inherits part of an heir's allocation if it lapses
+     * @dev Shares are in basis points of the lapsed amount; whatever the shares leave over goes to the first contingent.
+     *      Unavailable while the estate requires more than one approval, since a contingent can receive an allocation.
+     * @param estateId The estate to configure
+     * @param heir Address of an existing heir
+     * @param contingent Address of the contingent beneficiary
+     * @param encryptedShareBps Encrypted share in basis points (10000 = 100%)
+     * @param inputProof Proof for the encrypted input
+     */
+    function addContingent(
+        uint256 estateId,
+        address heir,
+        address contingent,
+        externalEuint64 encryptedShareBps,
+        bytes calldata inputProof
+    ) external onlyEstateExecutor(estateId) notFinalized(estateId) estateActive(estateId) singleApproval(estateId) {
+        if (!isHeirOf[estateId][heir]) revert NotHeir();
+        if (contingent == address(0)) revert ZeroAddress();
+        if (contingent == heir || FHE.isInitialized(contingentShareBps[estateId][heir][contingent])) {
+            revert AlreadyContingent();
+        }
+
+        euint64 share = FHE.min(FHE.fromExternal(encryptedShareBps, inputProof), BPS_DENOMINATOR);
+        contingentShareBps[estateId][heir][contingent] = share;
+        contingents[estateId][heir].push(contingent);
+        FHE.allowThis(share);
+        _allowExecutors(estateId, share);
+
+        emit ContingentAdded(estateId, heir, contingent);
+    }
+
+    /**
+     * @notice Record that an heir's allocation has lapsed and pass it to their contingents
+     * @param estateId The estate to update
+     * @param heir Address of the lapsed heir
+     */
+    function recordLapse(
+        uint256 estateId,
+        address heir
+    ) external onlyEstateExecutor(estateId) singleApproval(estateId) {
+        _recordLapse(estateId, heir);
+    }
+
+    /**
+     * @notice Internal lapse logic shared by direct calls and approved proposals
+     * @dev Moves the unpaid part of each token's allocation without decrypting it, so totalAllocated is unchanged
+     */
+    function _recordLapse(
+        uint256 estateId,
+        address heir
+    ) internal isEstateFinalized(estateId) estateActive(estateId) notDisputed(estateId) {
+        if (!isHeirOf[estateId][heir]) revert NotHeir();
+        if (claimed[estateId][heir]) revert AlreadyClaimed();
+        address[] storage heirContingents = contingents[estateId][heir];
+        if (heirContingents.length == 0) revert NoContingents();
+
+        claimed[estateId][heir] = true;
+        lapsed[estateId][heir] = true;
+        emit HeirLapsed(estateId, heir);
+
+        // Contingents who are not heirs yet are registered so they can claim
+        for (uint256 i = 0; i < heirContingents.length; i++) {
+            address contingent = heirContingents[i];
+            if (!isHeirOf[estateId][contingent]) {
+                _registerHeir(estateId, contingent);
+            } else if (claimed[estateId][contingent]) {
+                revert AlreadyClaimed();
+            }
+            emit ContingentAllocated(estateId, heir, contingent);
+        }
+
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            _lapseAllocation(estateId, heir, tokens[i]);
+        }
+    }
+
+    /**
+     * @notice Cancel an unfinalized estate and refund every depositor
+     * @dev Heirs lose access to the estate; the executor keeps it as an archived, inactive estate
+     * @param estateId The estate to cancel
+     */
+    function cancelEstate(
+        uint256 estateId
+    ) external onlyEstateExecutor(estateId) singleApproval(estateId) {
+        _cancelEstate(estateId);
+    }
+
+    /**
+     * @notice Internal cancel logic shared by direct calls and approved proposals
+     */
+    function _cancelEstate(uint256 estateId) internal notFinalized(estateId) estateActive(estateId) {
+        _closeAndRefund(estateId);
+    }
+
+    /**
+     * @notice Set how long heirs have to claim once claims unlock
+     * @dev Unavailable while the estate requires more than one approval, since expired allocations are swept away
+     * @param estateId The estate to configure
+     * @param period Seconds after claims unlock before unclaimed allocations expire (0 = never)
+     */
+    function setClaimPeriod(
+        uint256 estateId,
+        uint256 period
+    ) external onlyEstateExecutor(estateId) notFinalized(estateId) estateActive(estateId) singleApproval(estateId) {
+        claimPeriod[estateId] = period;
+        emit ClaimPeriodSet(estateId, period);
+    }
+
+    /**
+     * @notice Expire every unclaimed allocation after the deadline and close the estate (callable by anyone)
+     * @dev The whole remaining balance of every token, unclaimed allocations plus any unallocated residue,
+     *      goes to the residuary heir if one is set, otherwise back to the primary executor, and counts as paid out
+     * @param estateId The estate to sweep
+     */
+    function sweepUnclaimed(
+        uint256 estateId
+    ) external isEstateFinalized(estateId) estateActive(estateId) notDisputed(estateId) {
+        uint256 deadline = claimDeadline(estateId);
+        if (deadline == 0 || block.timestamp <= deadline) revert ClaimDeadlineNotPassed();
+
+        estates[estateId].active = false;
+
+        address[] storage heirs = estateHeirs[estateId];
+        for (uint256 i = 0; i < heirs.length; i++) {
+            if (!claimed[estateId][heirs[i]]) {
+                claimed[estateId][heirs[i]] = true;
+                emit AllocationExpired(estateId, heirs[i]);
+            }
+        }
+
+        address recipient = residuaryHeir[estateId];
+        if (recipient == address(0)) recipient = estates[estateId].executor;
+
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            address token = tokens[i];
+            euint64 balance = estateBalances[estateId][token];
+            FHE.allowTransient(balance, token);
+            euint64 transferred = IERC7984(token).confidentialTransfer(recipient, balance);
+
+            estateBalances[estateId][token] = FHE.sub(balance, transferred);
+            _allowAggregate(estateId, estateBalances[estateId][token]);
+            totalPaid[estateId][token] = FHE.add(totalPaid[estateId][token], transferred);
+            _allowAggregate(estateId, totalPaid[estateId][token]);
+
+            emit UnclaimedSwept(estateId, recipient, token, transferred);
+        }
+    }
+
+    /**
+     * @notice Add a co-executor who can act on the estate and approve proposals
+     * @param estateId The estate to configure
+     * @param coExecutor Address of the new co-executor
+     */
+    function addCoExecutor(
+        uint256 estateId,
+        address coExecutor
+    ) external onlyEstateExecutor(estateId) singleApproval(estateId) {
+        _addCoExecutor(estateId, coExecutor);
+    }
+
+    /**
+     * @notice Remove a co-executor
+     * @dev FHE ACL grants cannot be revoked, so a removed co-executor keeps access to handles it was already granted
+     * @param estateId The estate to configure
+     * @param coExecutor Address of the co-executor to remove
+     */
+    function removeCoExecutor(
+        uint256 estateId,
+        address coExecutor
+    ) external onlyEstateExecutor(estateId) singleApproval(estateId) {
+        _removeCoExecutor(estateId, coExecutor);
+    }
+
+    /**
+     * @notice Set how many executors must approve a sensitive action
+     * @param estateId The estate to configure
+     * @param threshold Required approvals (1 = any executor acts alone)
+     */
+    function setApprovalThreshold(
+        uint256 estateId,
+        uint256 threshold
+    ) external onlyEstateExecutor(estateId) singleApproval(estateId) {
+        _setApprovalThreshold(estateId, threshold);
+    }
+
+    /**
+     * @notice Propose a sensitive action for co-executor approval
+     * @dev The proposer's approval is counted immediately; the action executes once the threshold is reached
+     * @param estateId The estate to act on
+     * @param action The action to perform
+     * @param target Heir or co-executor address the action applies to
+     * @param token Token of the allocation for AddHeir/UpdateAllocation
+     * @param param Numeric argument (new threshold for SetApprovalThreshold)
+     * @param encryptedValue Encrypted allocation or share for AddHeir/AddHeirWithShare/UpdateAllocation
+     * @param inputProof Proof for the encrypted input (empty for other actions)
+     * @return proposalId The ID of the new proposal
+     */
+    function propose(
+        uint256 estateId,
+        ProposalAction action,
+        address target,
+        address token,
+        uint256 param,
+        externalEuint64 encryptedValue,
+        bytes calldata inputProof
+    ) external onlyEstateExecutor(estateId) estateActive(estateId) returns (uint256 proposalId) {
+        euint64 value;
+        if (
+            action == ProposalAction.AddHeir ||
+            action == ProposalAction.AddHeirWithShare ||
+            action == ProposalAction.UpdateAllocation
+        ) {
+            value = FHE.fromExternal(encryptedValue, inputProof);
+            FHE.allowThis(value);
+            _allowExecutors(estateId, value);
+        }
+
+        proposalId = nextProposalId++;
+        proposals[proposalId] = Proposal({
+            estateId: estateId,
+            action: action,
+            target: target,
+            token: token,
+            param: param,
+            value: value,
+            proposer: msg.sender,
+            approvals: 0,
+            executed: false
+        });
+        estateProposals[estateId].push(proposalId);
+
+        emit ProposalCreated(proposalId, estateId, msg.sender, action, target);
+        _approveProposal(proposalId);
+    }
+
+    /**
+     * @notice Approve a pending proposal; executes it once the threshold is reached
+     * @param proposalId The proposal to approve
+     */
+    function approveProposal(
+        uint256 proposalId
+    ) external onlyEstateExecutor(proposals[proposalId].estateId) {
+        if (proposals[proposalId].proposer == address(0)) revert ProposalNotFound();
+        _approveProposal(proposalId);
+    }
+
+    /**
+     * @notice Get the contingent beneficiaries named for an heir
+     * @param estateId The estate to query
+     * @param heir Address of the heir
+     * @return Array of contingent addresses, the first receiving any remainder
+     */
+    function getContingents(uint256 estateId, address heir) external view returns (address[] memory) {
+        return contingents[estateId][heir];
+    }
+
+    /**
+     * @notice Get a contingent beneficiary's share of an heir's allocation (executor only)
+     * @param estateId The estate to query
+     * @param heir Address of the heir
+     * @param contingent Address of the contingent beneficiary
+     * @return The encrypted share in basis points
+     */
+    function getContingentShare(
+        uint256 estateId,
+        address heir,
+        address contingent
+    ) external view onlyEstateExecutor(estateId) returns (euint64) {
+        return contingentShareBps[estateId][heir][contingent];
+    }
+
+    /**
+     * @notice Get the number of heirs who have not yet claimed in full
+     * @param estateId The estate to query
+     * @return outstanding Number of outstanding heirs
+     */
+    function getOutstandingHeirCount(uint256 estateId) external view returns (uint256 outstanding) {
+        address[] storage heirs = estateHeirs[estateId];
+        for (uint256 i = 0; i < heirs.length; i++) {
+            if (!claimed[estateId][heirs[i]]) outstanding++;
+        }
+    }
+
+    /**
+     * @notice Get every token the admin currently allows
+     * @return Array of token addresses
+     */
+    function getAllowedTokens() external view returns (address[] memory) {
+        return allowedTokens;
+    }
+
+    /**
+     * @notice Get the tokens an estate holds or allocates
+     * @param estateId The estate to query
+     * @return Array of token addresses in order of first use
+     */
+    function getEstateTokens(uint256 estateId) external view returns (address[] memory) {
+        return estateTokens[estateId];
+    }
+
+    /**
+     * @notice Get all co-executor addresses for an estate
+     * @param estateId The estate to query
+     * @return Array of co-executor addresses
+     */
+    function getCoExecutors(uint256 estateId) external view returns (address[] memory) {
+        return coExecutors[estateId];
+    }
+
+    /**
+     * @notice Get all proposal IDs for an estate
+     * @param estateId The estate to query
+     * @return Array of proposal IDs
+     */
+    function getEstateProposals(uint256 estateId) external view returns (uint256[] memory) {
+        return estateProposals[estateId];
+    }
+
+    /**
+     * @notice Internal helper to count an approval and execute the proposal at the threshold
+     */
+    function _approveProposal(uint256 proposalId) internal {
+        Proposal storage proposal = proposals[proposalId];
+        if (proposal.executed) revert ProposalAlreadyExecuted();
+        if (hasApproved[proposalId][msg.sender]) revert AlreadyApproved();
+
+        hasApproved[proposalId][msg.sender] = true;
+        proposal.approvals++;
+        emit ProposalApproved(proposalId, msg.sender);
+
+        if (proposal.approvals >= approvalThreshold[proposal.estateId]) {
+            _executeProposal(proposalId);
+        }
+    }
+
+    /**
+     * @notice Internal helper to run an approved proposal
+     */
+    function _executeProposal(uint256 proposalId) internal {
+        Proposal storage proposal = proposals[proposalId];
+        proposal.executed = true;
+
+        uint256 estateId = proposal.estateId;
+        ProposalAction action = proposal.action;
+        if (action == ProposalAction.AddHeir) {
+            _addHeir(estateId, proposal.target, proposal.token, proposal.value);
+        } else if (action == ProposalAction.AddHeirWithShare) {
+            _addHeirWithShare(estateId, proposal.target, proposal.value);
+        } else if (action == ProposalAction.RemoveHeir) {
+            _removeHeir(estateId, proposal.target);
+        } else if (action == ProposalAction.FinalizeEstate) {
+            _requestFinalization(estateId);
+        } else if (action == ProposalAction.AddCoExecutor) {
+            _addCoExecutor(estateId, proposal.target);
+        } else if (action == ProposalAction.RemoveCoExecutor) {
+            _removeCoExecutor(estateId, proposal.target);
+        } else if (action == ProposalAction.SetApprovalThreshold) {
+            _setApprovalThreshold(estateId, proposal.param);
+        } else if (action == ProposalAction.CancelEstate) {
+            _cancelEstate(estateId);
+        } else if (action == ProposalAction.UpdateAllocation) {
+            _updateAllocation(estateId, proposal.target, proposal.token, proposal.value);
+        } else {
+            _recordLapse(estateId, proposal.target);
+        }
+
+        emit ProposalExecuted(proposalId);
+    }
+
+    /**
+     * @notice Internal helper to add a co-executor and grant it access to existing encrypted state
+     */
+    function _addCoExecutor(uint256 estateId, address coExecutor) internal estateActive(estateId) {
+        if (coExecutor == address(0)) revert ZeroAddress();
+        if (isExecutorOf(estateId, coExecutor)) revert AlreadyExecutor();
+
+        isCoExecutor[estateId][coExecutor] = true;
+        coExecutors[estateId].push(coExecutor);
+        executorEstates[coExecutor].push(estateId);
+
+        // Grant access to the estate aggregates and every heir's encrypted values
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 t = 0; t < tokens.length; t++) {
+            FHE.allow(estateBalances[estateId][tokens[t]], coExecutor);
+            FHE.allow(totalAllocated[estateId][tokens[t]], coExecutor);
+            FHE.allow(totalPaid[estateId][tokens[t]], coExecutor);
+        }
+        FHE.allow(totalShareBps[estateId], coExecutor);
+
+        address[] storage heirs = estateHeirs[estateId];
+        for (uint256 i = 0; i < heirs.length; i++) {
+            address heir = heirs[i];
+            for (uint256 t = 0; t < tokens.length; t++) {
+                if (FHE.isInitialized(allocations[estateId][heir][tokens[t]])) {
+                    FHE.allow(allocations[estateId][heir][tokens[t]], coExecutor);
+                }
+                if (FHE.isInitialized(paidAmounts[estateId][heir][tokens[t]])) {
+                    FHE.allow(paidAmounts[estateId][heir][tokens[t]], coExecutor);
+                }
+                if (FHE.isInitialized(maintenanceClaimed[estateId][heir][tokens[t]])) {
+                    FHE.allow(maintenanceClaimed[estateId][heir][tokens[t]], coExecutor);
+                }
+            }
+            if (isShareHeir[estateId][heir]) {
+                FHE.allow(shareBps[estateId][heir], coExecutor);
+            }
+            address[] storage heirContingents = contingents[estateId][heir];
+            for (uint256 j = 0; j < heirContingents.length; j++) {
+                FHE.allow(contingentShareBps[estateId][heir][heirContingents[j]], coExecutor);
+            }
+        }
+
+        // Open proposals carry encrypted values the new co-executor has to see before approving
+        uint256[] storage ids = estateProposals[estateId];
+        for (uint256 i = 0; i < ids.length; i++) {
+            euint64 value = proposals[ids[i]].value;
+            if (!proposals[ids[i]].executed && FHE.isInitialized(value)) FHE.allow(value, coExecutor);
+        }
+
+        emit CoExecutorAdded(estateId, coExecutor);
+    }
+
+    /**
+     * @notice Internal helper to remove a co-executor while keeping the threshold reachable
+     * @dev Withdraws the co-executor's approvals of open proposals, which must reach the threshold again
+     */
+    function _removeCoExecutor(uint256 estateId, address coExecutor) internal estateActive(estateId) {
+        if (!isCoExecutor[estateId][coExecutor]) revert NotCoExecutor();
+        if (approvalThreshold[estateId] > coExecutors[estateId].length) revert InvalidThreshold();
+
+        isCoExecutor[estateId][coExecutor] = false;
+        _removeAddress(coExecutors[estateId], coExecutor);
+        _removeFromArray(executorEstates[coExecutor], estateId);
+
+        uint256[] storage ids = estateProposals[estateId];
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (!proposals[ids[i]].executed && hasApproved[ids[i]][coExecutor]) {
+                hasApproved[ids[i]][coExecutor] = false;
+                proposals[ids[i]].approvals--;
+            }
+        }
+
+        emit CoExecutorRemoved(estateId, coExecutor);
+    }
+
+    /**
+     * @notice Internal helper to set the approval threshold within the executor count
+     */
+    function _setApprovalThreshold(uint256 estateId, uint256 threshold) internal estateActive(estateId) {
+        if (threshold == 0 || threshold > coExecutors[estateId].length + 1) revert InvalidThreshold();
+
+        approvalThreshold[estateId] = threshold;
+        emit ApprovalThresholdSet(estateId, threshold);
+    }
+
+    /**
+     * @notice Internal helper to split the unpaid part of a lapsed heir's allocation of one token among their contingents
+     */
+    function _lapseAllocation(uint256 estateId, address heir, address token) internal {
+        address[] storage heirContingents = contingents[estateId][heir];
+
+        // The heir keeps only what was already paid out under a vesting schedule
+        euint64 paid = paidAmounts[estateId][heir][token];
+        euint64 remaining = allocations[estateId][heir][token];
+        if (FHE.isInitialized(paid)) {
+            remaining = FHE.sub(remaining, paid);
+            _storeAllocation(estateId, heir, token, paid);
+        } else {
+            _storeAllocation(estateId, heir, token, FHE.asEuint64(0));
+        }
+
+        // Each later contingent takes its share, capped so the parts never exceed the lapsed amount
+        euint128 lapsedAmount = FHE.asEuint128(remaining);
+        for (uint256 i = 1; i < heirContingents.length; i++) {
+            euint64 part = _applyShare(lapsedAmount, contingentShareBps[estateId][heir][heirContingents[i]]);
+            part = FHE.min(part, remaining);
+            remaining = FHE.sub(remaining, part);
+            _creditAllocation(estateId, heirContingents[i], token, part);
+        }
+
+        // The first contingent takes its own share plus any rounding dust and unassigned remainder
+        _creditAllocation(estateId, heirContingents[0], token, remaining);
+    }
+
+    /**
+     * @notice Forward calls for functions implemented by the heir extension
+     * @dev Runs inside the distribution's delegatecall, so the heir extension also sees its storage and msg.sender
+     */
+    fallback() external {
+        address target = heirExtension;
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), target, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch success
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+}
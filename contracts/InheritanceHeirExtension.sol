@@ -0,0 +1,578 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, euint128, euint256, externalEuint64, externalEuint256} from "@fhevm/solidity/lib/FHE.sol";
+import {InheritanceBase} from "./InheritanceBase.sol";
+
+/**
+ * @title InheritanceHeirExtension
+ * @notice Heir wallet recovery, guardians for minor heirs, disputes over finalized estates and sealed letters to heirs
+ * @dev Only meant to run through InheritanceExtension's fallback, inside the distribution's delegatecall.
+ *      Functions not defined here are forwarded in turn to InheritanceAccessExtension.
+ */
+contract InheritanceHeirExtension is InheritanceBase {
+    // Contract implementing who besides heirs and executors can see estate values, reached through the fallback
+    address public immutable accessExtension;
+
+    /**
+     * @param _accessExtension Address of the deployed InheritanceAccessExtension
+     */
+    constructor(address _accessExtension) {
+        if (_accessExtension == address(0)) revert ZeroAddress();
+        accessExtension = _accessExtension;
+    }
+
+    /**
+     * @notice Put a minor heir's inheritance under a guardian until the heir comes of age (only before finalization)
+     * @dev Until majority the guardian can read the heir's allocations and draw maintenance up to maintenanceBps of
+     *      each; the heir can only claim from majority on. Passing the zero address removes the guardian.
+     *      Unavailable while the estate requires more than one approval, since the guardian can draw funds.
+     * @param estateId The estate to configure
+     * @param heir Address of an existing heir
+     * @param guardian Address of the guardian
+     * @param majorityAt Timestamp from which the heir claims for themselves
+     * @param maintenanceBps Share of each allocation the guardian may draw, in basis points (at most MAX_MAINTENANCE_BPS)
+     */
+    function setGuardian(
+        uint256 estateId,
+        address heir,
+        address guardian,
+        uint64 majorityAt,
+        uint16 maintenanceBps
+    ) external onlyEstateExecutor(estateId) notFinalized(estateId) estateActive(estateId) singleApproval(estateId) {
+        if (!isHeirOf[estateId][heir]) revert NotHeir();
+
+        if (guardian == address(0)) {
+            delete guardianships[estateId][heir];
+            emit GuardianSet(estateId, heir, address(0), 0, 0);
+            return;
+        }
+        if (guardian == heir || majorityAt <= block.timestamp || maintenanceBps > MAX_MAINTENANCE_BPS) {
+            revert InvalidGuardianship();
+        }
+
+        guardianships[estateId][heir] = Guardianship(guardian, majorityAt, maintenanceBps);
+        if (!_containsEstate(guardianEstates[guardian], estateId)) guardianEstates[guardian].push(estateId);
+
+        // Grant access to what was stored before the guardian was named
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            euint64 allocation = allocations[estateId][heir][tokens[i]];
+            if (FHE.isInitialized(allocation)) FHE.allow(allocation, guardian);
+        }
+        if (isShareHeir[estateId][heir]) FHE.allow(shareBps[estateId][heir], guardian);
+
+        emit GuardianSet(estateId, heir, guardian, majorityAt, maintenanceBps);
+    }
+
+    /**
+     * @notice Draw maintenance for a minor heir from their allocation of a token (guardian only, before majority)
+     * @dev Pays the guardian, counts as paid to the heir and adds to the maintenance ledger. The amount is capped
+     *      at the heir's maintenance limit minus what was already drawn, and at the estate's balance.
+     * @param estateId The estate to draw from
+     * @param heir Address of the minor heir
+     * @param token The token to draw
+     * @param encryptedAmount Encrypted amount requested
+     * @param inputProof Proof for the encrypted input
+     */
+    function claimMaintenance(
+        uint256 estateId,
+        address heir,
+        address token,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external isEstateFinalized(estateId) estateActive(estateId) notDisputed(estateId) claimsUnlocked(estateId) beforeClaimDeadline(estateId) {
+        {
+            Guardianship storage guardianship = guardianships[estateId][heir];
+            if (msg.sender != guardianship.guardian || guardianship.guardian == address(0)) revert OnlyGuardian();
+            if (block.timestamp >= guardianship.majorityAt) revert MajorityReached();
+        }
+        if (claimed[estateId][heir]) revert AlreadyClaimed();
+        if (!hasEstateToken[estateId][token]) revert InvalidToken();
+
+        euint64 amount = FHE.min(
+            FHE.fromExternal(encryptedAmount, inputProof),
+            _maintenanceAvailable(estateId, heir, token)
+        );
+        euint64 transferred = _payout(estateId, heir, msg.sender, token, amount);
+
+        _recordMaintenance(estateId, heir, token, transferred);
+
+        emit MaintenanceClaimed(estateId, heir, token, transferred);
+    }
+
+    /**
+     * @notice Get a ward's allocation, paid-to-date and maintenance drawn in a token (guardian or executor only)
+     * @param estateId The estate to query
+     * @param heir Address of the heir
+     * @param token The token to query
+     * @return allocation The encrypted allocation
+     * @return paid The encrypted amount paid so far, maintenance included
+     * @return maintenance The encrypted maintenance drawn by the guardian
+     */
+    function getWardAmounts(
+        uint256 estateId,
+        address heir,
+        address token
+    ) external view returns (euint64 allocation, euint64 paid, euint64 maintenance) {
+        if (msg.sender != guardianships[estateId][heir].guardian && !isExecutorOf(estateId, msg.sender)) {
+            revert OnlyGuardian();
+        }
+        return (
+            allocations[estateId][heir][token],
+            paidAmounts[estateId][heir][token],
+            maintenanceClaimed[estateId][heir][token]
+        );
+    }
+
+    /**
+     * @notice Get the heirs of an estate under a guardian
+     * @param estateId The estate to query
+     * @param guardian Address of the guardian
+     * @return wards Addresses of the heirs
+     */
+    function getWards(uint256 estateId, address guardian) external view returns (address[] memory wards) {
+        address[] storage heirs = estateHeirs[estateId];
+        uint256 count;
+        for (uint256 i = 0; i < heirs.length; i++) {
+            if (guardianships[estateId][heirs[i]].guardian == guardian) count++;
+        }
+
+        wards = new address[](count);
+        count = 0;
+        for (uint256 i = 0; i < heirs.length; i++) {
+            if (guardianships[estateId][heirs[i]].guardian == guardian) wards[count++] = heirs[i];
+        }
+    }
+
+    /**
+     * @notice Get the estates where the caller has been named guardian
+     * @dev The index is append-only; use getWards to check the guardianship is still in place
+     * @return Array of estate IDs
+     */
+    function getMyGuardianEstates() external view returns (uint256[] memory) {
+        return guardianEstates[msg.sender];
+    }
+
+    /**
+     * @notice Name a neutral arbiter who can settle disputes raised after finalization (only before finalization)
+     * @dev Passing the zero address removes the arbiter and with it the possibility to dispute. Unavailable while
+     *      the estate requires more than one approval, since the arbiter's ruling decides who gets paid.
+     * @param estateId The estate to configure
+     * @param newArbiter Address of the arbiter; may not be an executor or heir of the estate
+     * @param window Seconds after finalization during which heirs can raise a dispute
+     */
+    function setArbiter(
+        uint256 estateId,
+        address newArbiter,
+        uint256 window
+    ) external onlyEstateExecutor(estateId) notFinalized(estateId) estateActive(estateId) singleApproval(estateId) {
+        if (newArbiter == address(0)) {
+            window = 0;
+        } else {
+            if (isExecutorOf(estateId, newArbiter) || isHeirOf[estateId][newArbiter]) revert InvalidArbiter();
+            if (window == 0) revert InvalidDisputeWindow();
+            if (!_containsEstate(arbiterEstates[newArbiter], estateId)) arbiterEstates[newArbiter].push(estateId);
+        }
+
+        arbiter[estateId] = newArbiter;
+        disputeWindow[estateId] = window;
+        emit ArbiterSet(estateId, newArbiter, window);
+    }
+
+    /**
+     * @notice Contest a finalized estate, freezing claims, disclaimers, lapses and sweeps until the arbiter rules
+     * @dev Only one dispute can be open at a time; the reason itself stays off-chain
+     * @param estateId The estate to dispute
+     * @param reasonHash Hash of the reason for the dispute
+     */
+    function raiseDispute(
+        uint256 estateId,
+        bytes32 reasonHash
+    ) external isEstateFinalized(estateId) estateActive(estateId) notDisputed(estateId) {
+        if (!isHeirOf[estateId][msg.sender]) revert NotHeir();
+        if (arbiter[estateId] == address(0)) revert NoArbiter();
+        if (block.timestamp > finalizedAt[estateId] + disputeWindow[estateId]) revert DisputeWindowClosed();
+
+        disputes[estateId] = Dispute(msg.sender, uint64(block.timestamp), reasonHash);
+        emit DisputeRaised(estateId, msg.sender, reasonHash);
+    }
+
+    /**
+     * @notice Settle the open dispute of an estate (arbiter only)
+     * @dev Unfreeze resumes claims, with the claim deadline moved back by the time the dispute lasted. Reopen
+     *      returns the estate to editing so the executors can fix it and finalize again, which is only possible
+     *      while nothing has been paid, disclaimed or lapsed. Cancel closes the estate and refunds depositors from
+     *      what remains of its balance.
+     * @param estateId The disputed estate
+     * @param resolution How the dispute is settled
+     */
+    function resolveDispute(uint256 estateId, DisputeResolution resolution) external estateActive(estateId) {
+        if (msg.sender != arbiter[estateId]) revert OnlyArbiter();
+        if (disputes[estateId].raisedBy == address(0)) revert NoActiveDispute();
+
+        disputedDuration[estateId] += block.timestamp - disputes[estateId].raisedAt;
+        delete disputes[estateId];
+        if (resolution == DisputeResolution.Reopen) {
+            _reopenEstate(estateId);
+        } else if (resolution == DisputeResolution.Cancel) {
+            _closeAndRefund(estateId);
+        }
+
+        emit DisputeResolved(estateId, msg.sender, resolution);
+    }
+
+    /**
+     * @notice Get the estates where the caller has been named arbiter
+     * @dev The index is append-only; compare with arbiter(estateId) to check the appointment still stands
+     * @return Array of estate IDs
+     */
+    function getMyArbiterEstates() external view returns (uint256[] memory) {
+        return arbiterEstates[msg.sender];
+    }
+
+    /**
+     * @notice Attach a sealed letter to an heir (testator only, before finalization)
+     * @dev The letter is encrypted in the testator's browser with a one-time key; only the ciphertext is stored and
+     *      the key is granted to the heir alone, so executors never see the text. Passing an empty ciphertext removes
+     *      the letter.
+     * @param estateId The estate to configure
+     * @param heir Address of an existing heir
+     * @param ciphertext The encrypted letter
+     * @param encryptedKey Encrypted key of the letter
+     * @param inputProof Proof for the encrypted input
+     */
+    function setLetter(
+        uint256 estateId,
+        address heir,
+        bytes calldata ciphertext,
+        externalEuint256 encryptedKey,
+        bytes calldata inputProof
+    ) external onlyTestator(estateId) notFinalized(estateId) estateActive(estateId) {
+        if (!isHeirOf[estateId][heir]) revert NotHeir();
+
+        Letter storage letter = letters[estateId][heir];
+        letter.ciphertext = ciphertext;
+        if (ciphertext.length == 0) {
+            letter.key = euint256.wrap(0);
+        } else {
+            euint256 key = FHE.fromExternal(encryptedKey, inputProof);
+            FHE.allowThis(key);
+            FHE.allow(key, heir);
+            letter.key = key;
+        }
+
+        emit LetterSealed(estateId, heir);
+    }
+
+    /**
+     * @notice Check whether an heir has a sealed letter
+     * @param estateId The estate to query
+     * @param heir Address of the heir
+     * @return True if a letter is attached
+     */
+    function hasLetter(uint256 estateId, address heir) external view returns (bool) {
+        return letters[estateId][heir].ciphertext.length > 0;
+    }
+
+    /**
+     * @notice Get the caller's sealed letter
+     * @param estateId The estate to query
+     * @return ciphertext The encrypted letter
+     * @return key Encrypted key of the letter, decryptable by the caller only
+     */
+    function getMyLetter(uint256 estateId) external view returns (bytes memory ciphertext, euint256 key) {
+        Letter storage letter = letters[estateId][msg.sender];
+        if (letter.ciphertext.length == 0) revert NoLetter();
+        return (letter.ciphertext, letter.key);
+    }
+
+    /**
+     * @notice Move an heir's inheritance to a new wallet
+     * @dev An heir calling for themselves migrates at once. An executor's request, for an heir who lost their key,
+     *      takes effect after RECOVERY_CHALLENGE_WINDOW unless the heir or an executor vetoes it first, and is
+     *      unavailable while the estate requires more than one approval.
+     * @param estateId The estate the heir belongs to
+     * @param heir Current address of the heir
+     * @param newAddress Wallet that takes over the heir's allocation and claim rights
+     */
+    function proposeRecovery(
+        uint256 estateId,
+        address heir,
+        address newAddress
+    ) external estateActive(estateId) {
+        if (!isHeirOf[estateId][heir]) revert NotHeir();
+        if (newAddress == address(0)) revert ZeroAddress();
+        if (isHeirOf[estateId][newAddress]) revert AlreadyHeir();
+
+        if (msg.sender == heir) {
+            _clearRecovery(estateId, heir);
+            _migrateHeir(estateId, heir, newAddress);
+            return;
+        }
+
+        if (!isExecutorOf(estateId, msg.sender)) revert OnlyExecutor();
+        if (approvalThreshold[estateId] > 1) revert ProposalRequired();
+        if (pendingRecoveries[estateId][heir].newAddress != address(0)) revert RecoveryAlreadyPending();
+
+        uint256 executeAfter = block.timestamp + RECOVERY_CHALLENGE_WINDOW;
+        pendingRecoveries[estateId][heir] = RecoveryRequest(newAddress, executeAfter);
+        recoveringHeirs[estateId].push(heir);
+
+        emit RecoveryProposed(estateId, heir, newAddress, executeAfter);
+    }
+
+    /**
+     * @notice Stop a pending recovery during its challenge window (the heir or any executor)
+     * @param estateId The estate the heir belongs to
+     * @param heir Current address of the heir
+     */
+    function vetoRecovery(uint256 estateId, address heir) external {
+        if (msg.sender != heir && !isExecutorOf(estateId, msg.sender)) revert OnlyExecutor();
+        if (pendingRecoveries[estateId][heir].newAddress == address(0)) revert NoPendingRecovery();
+
+        _clearRecovery(estateId, heir);
+        emit RecoveryVetoed(estateId, heir, msg.sender);
+    }
+
+    /**
+     * @notice Apply a recovery whose challenge window has passed (callable by anyone)
+     * @param estateId The estate the heir belongs to
+     * @param heir Current address of the heir
+     */
+    function executeRecovery(uint256 estateId, address heir) external estateActive(estateId) {
+        RecoveryRequest memory request = pendingRecoveries[estateId][heir];
+        if (request.newAddress == address(0)) revert NoPendingRecovery();
+        if (block.timestamp < request.executeAfter) revert RecoveryTimelocked();
+        if (isHeirOf[estateId][request.newAddress]) revert AlreadyHeir();
+
+        _clearRecovery(estateId, heir);
+        _migrateHeir(estateId, heir, request.newAddress);
+    }
+
+    /**
+     * @notice Get the heirs with a pending wallet recovery
+     * @param estateId The estate to query
+     * @return Current addresses of the heirs, to look up in pendingRecoveries
+     */
+    function getPendingRecoveries(uint256 estateId) external view returns (address[] memory) {
+        return recoveringHeirs[estateId];
+    }
+
+    /**
+     * @notice Internal helper to move every record of an heir to a new address
+     * @dev Encrypted handles are reused and re-granted to the new address; the old address keeps read access
+     *      to values it could already see, as ACL grants cannot be revoked
+     */
+    function _migrateHeir(uint256 estateId, address from, address to) internal {
+        // Keep the heir's position so per-capita and contingent ordering are unchanged
+        address[] storage heirs = estateHeirs[estateId];
+        for (uint256 i = 0; i < heirs.length; i++) {
+            if (heirs[i] == from) {
+                heirs[i] = to;
+                break;
+            }
+        }
+        isHeirOf[estateId][from] = false;
+        isHeirOf[estateId][to] = true;
+        _removeFromArray(heirEstates[from], estateId);
+        heirEstates[to].push(estateId);
+
+        claimed[estateId][to] = claimed[estateId][from];
+        lapsed[estateId][to] = lapsed[estateId][from];
+        disclaimed[estateId][to] = disclaimed[estateId][from];
+        delete claimed[estateId][from];
+        delete lapsed[estateId][from];
+        delete disclaimed[estateId][from];
+
+        vestingSchedules[estateId][to] = vestingSchedules[estateId][from];
+        delete vestingSchedules[estateId][from];
+        guardianships[estateId][to] = guardianships[estateId][from];
+        delete guardianships[estateId][from];
+
+        Letter storage letter = letters[estateId][from];
+        if (letter.ciphertext.length > 0) {
+            FHE.allow(letter.key, to);
+            letters[estateId][to] = letter;
+            delete letter.ciphertext;
+            letter.key = euint256.wrap(0);
+        }
+
+        if (isShareHeir[estateId][from]) {
+            euint64 share = shareBps[estateId][from];
+            isShareHeir[estateId][to] = true;
+            shareBps[estateId][to] = share;
+            FHE.allow(share, to);
+            isShareHeir[estateId][from] = false;
+            shareBps[estateId][from] = euint64.wrap(0);
+        }
+
+        if (residuaryHeir[estateId] == from) residuaryHeir[estateId] = to;
+        if (disclaimerAlternate[estateId] == from) disclaimerAlternate[estateId] = to;
+
+        // Move viewers first so the re-stored allocations are granted to them
+        address[] storage viewers = allocationViewers[estateId][from];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            isAllocationViewer[estateId][to][viewers[i]] = true;
+            isAllocationViewer[estateId][from][viewers[i]] = false;
+        }
+        allocationViewers[estateId][to] = viewers;
+        delete allocationViewers[estateId][from];
+
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            _migrateTokenAmounts(estateId, from, to, tokens[i]);
+        }
+        _migrateContingents(estateId, from, to);
+
+        emit HeirRecovered(estateId, from, to);
+    }
+
+    /**
+     * @notice Internal helper to move an heir's allocation and paid amount of one token
+     */
+    function _migrateTokenAmounts(uint256 estateId, address from, address to, address token) internal {
+        euint64 allocation = allocations[estateId][from][token];
+        if (FHE.isInitialized(allocation)) {
+            _storeAllocation(estateId, to, token, allocation);
+            allocations[estateId][from][token] = euint64.wrap(0);
+        }
+
+        euint64 paid = paidAmounts[estateId][from][token];
+        if (FHE.isInitialized(paid)) {
+            paidAmounts[estateId][to][token] = paid;
+            FHE.allow(paid, to);
+            paidAmounts[estateId][from][token] = euint64.wrap(0);
+        }
+
+        euint64 drawn = maintenanceClaimed[estateId][from][token];
+        if (FHE.isInitialized(drawn)) {
+            maintenanceClaimed[estateId][to][token] = drawn;
+            FHE.allow(drawn, to);
+            maintenanceClaimed[estateId][from][token] = euint64.wrap(0);
+        }
+    }
+
+    /**
+     * @notice Internal helper to compute the maintenance a guardian can still draw from a ward's allocation
+     * @dev Limit = floor(allocation * maintenanceBps / 10000), computed in 128 bits, minus what was already drawn
+     */
+    function _maintenanceAvailable(uint256 estateId, address heir, address token) internal returns (euint64) {
+        uint128 maintenanceBps = guardianships[estateId][heir].maintenanceBps;
+        euint64 limit = FHE.asEuint64(FHE.div(
+            FHE.mul(FHE.asEuint128(allocations[estateId][heir][token]), maintenanceBps),
+            BPS_DENOMINATOR
+        ));
+        euint64 drawn = maintenanceClaimed[estateId][heir][token];
+        if (!FHE.isInitialized(drawn)) return limit;
+        return FHE.select(FHE.le(drawn, limit), FHE.sub(limit, drawn), FHE.asEuint64(0));
+    }
+
+    /**
+     * @notice Internal helper to add a maintenance payout to the ward's ledger
+     */
+    function _recordMaintenance(uint256 estateId, address heir, address token, euint64 transferred) internal {
+        euint64 drawn = maintenanceClaimed[estateId][heir][token];
+        drawn = FHE.isInitialized(drawn) ? FHE.add(drawn, transferred) : transferred;
+        maintenanceClaimed[estateId][heir][token] = drawn;
+        FHE.allowThis(drawn);
+        FHE.allow(drawn, heir);
+        FHE.allow(drawn, msg.sender);
+        _allowExecutors(estateId, drawn);
+    }
+
+    /**
+     * @notice Internal helper to return a finalized estate to editing
+     * @dev Undoes the share resolution of finalization, so percentage heirs are resolved again on the next one
+     */
+    function _reopenEstate(uint256 estateId) internal {
+        address[] storage heirs = estateHeirs[estateId];
+        address[] storage tokens = estateTokens[estateId];
+        for (uint256 i = 0; i < heirs.length; i++) {
+            if (claimed[estateId][heirs[i]] || lapsed[estateId][heirs[i]]) revert DistributionStarted();
+            for (uint256 t = 0; t < tokens.length; t++) {
+                if (FHE.isInitialized(paidAmounts[estateId][heirs[i]][tokens[t]])) revert DistributionStarted();
+            }
+        }
+
+        for (uint256 t = 0; t < tokens.length; t++) {
+            _unresolveTokenShares(estateId, tokens[t]);
+        }
+
+        estates[estateId].finalized = false;
+        finalizedAt[estateId] = 0;
+    }
+
+    /**
+     * @notice Internal helper to remove the allocations of one token that percentage shares resolved to
+     */
+    function _unresolveTokenShares(uint256 estateId, address token) internal {
+        address[] storage heirs = estateHeirs[estateId];
+        euint64 resolved = FHE.asEuint64(0);
+        for (uint256 i = 0; i < heirs.length; i++) {
+            if (!isShareHeir[estateId][heirs[i]]) continue;
+            resolved = FHE.add(resolved, allocations[estateId][heirs[i]][token]);
+            allocations[estateId][heirs[i]][token] = euint64.wrap(0);
+        }
+
+        // A residuary heir with a fixed amount keeps it minus the rounding dust
+        euint64 dust = shareDust[estateId][token];
+        if (FHE.isInitialized(dust)) {
+            address residuary = residuaryHeir[estateId];
+            if (!isShareHeir[estateId][residuary]) {
+                _storeAllocation(estateId, residuary, token, FHE.sub(allocations[estateId][residuary][token], dust));
+                resolved = FHE.add(resolved, dust);
+            }
+            shareDust[estateId][token] = euint64.wrap(0);
+        }
+
+        totalAllocated[estateId][token] = FHE.sub(totalAllocated[estateId][token], resolved);
+        _allowTotalAllocated(estateId, totalAllocated[estateId][token]);
+    }
+
+    /**
+     * @notice Internal helper to move the heir's own contingents and their place in other heirs' contingents
+     */
+    function _migrateContingents(uint256 estateId, address from, address to) internal {
+        address[] storage own = contingents[estateId][from];
+        for (uint256 i = 0; i < own.length; i++) {
+            contingentShareBps[estateId][to][own[i]] = contingentShareBps[estateId][from][own[i]];
+            contingentShareBps[estateId][from][own[i]] = euint64.wrap(0);
+        }
+        contingents[estateId][to] = own;
+        delete contingents[estateId][from];
+
+        address[] storage heirs = estateHeirs[estateId];
+        for (uint256 i = 0; i < heirs.length; i++) {
+            address[] storage named = contingents[estateId][heirs[i]];
+            for (uint256 j = 0; j < named.length; j++) {
+                if (named[j] != from) continue;
+
+                named[j] = to;
+                contingentShareBps[estateId][heirs[i]][to] = contingentShareBps[estateId][heirs[i]][from];
+                contingentShareBps[estateId][heirs[i]][from] = euint64.wrap(0);
+                break;
+            }
+        }
+    }
+
+    /**
+     * @notice Forward calls for functions implemented by the access extension
+     * @dev Runs inside the distribution's delegatecall, so the access extension also sees its storage and msg.sender
+     */
+    fallback() external {
+        address target = accessExtension;
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), target, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch success
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+}
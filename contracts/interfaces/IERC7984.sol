@@ -29,6 +29,14 @@ interface IERC7984 {
         bytes calldata inputProof
     ) external returns (euint64 transferred);
 
+    /**
+     * @notice Transfer an existing encrypted amount from the caller's own balance
+     * @param to Recipient address
+     * @param amount Encrypted amount to transfer (caller must have ACL access)
+     * @return transferred The encrypted amount transferred
+     */
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred);
+
     /**
      * @notice Transfer tokens from one address to another (requires operator approval)
      * @param from Sender address
@@ -42,6 +50,34 @@ interface IERC7984 {
         euint64 amount
     ) external returns (euint64 transferred);
 
+    /**
+     * @notice Transfer tokens confidentially and call `onERC7984Received` on the recipient
+     * @param to Recipient address
+     * @param encryptedAmount Encrypted amount to transfer
+     * @param inputProof Proof for the encrypted input
+     * @param data Additional data forwarded to the recipient hook
+     * @return transferred The encrypted amount transferred (zero if the recipient rejected it)
+     */
+    function confidentialTransferAndCall(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        bytes calldata data
+    ) external returns (euint64 transferred);
+
+    /**
+     * @notice Transfer an existing encrypted amount and call `onERC7984Received` on the recipient
+     * @param to Recipient address
+     * @param amount Encrypted amount to transfer (caller must have ACL access)
+     * @param data Additional data forwarded to the recipient hook
+     * @return transferred The encrypted amount transferred (zero if the recipient rejected it)
+     */
+    function confidentialTransferAndCall(
+        address to,
+        euint64 amount,
+        bytes calldata data
+    ) external returns (euint64 transferred);
+
     /**
      * @notice Set an operator with approval until a specific timestamp
      * @param operator The address to approve as operator
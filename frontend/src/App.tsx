@@ -1,11 +1,17 @@
 import { useState, useEffect } from "react";
-import { useWallet, useFhevm, useInheritance } from "./hooks";
+import { useWallet, useFhevm, useInheritance, useEstateHistory } from "./hooks";
 import {
   Layout,
   ConnectWallet,
   HeirDashboard,
   ExecutorDashboard,
+  TestatorDashboard,
+  GuardianDashboard,
+  ArbiterDashboard,
+  AuditorDashboard,
+  SharedWithMeDashboard,
   LoadingState,
+  Toasts,
 } from "./components";
 import { EstateSelector } from "./components/EstateSelector";
 import { CreateEstateModal } from "./components/CreateEstateModal";
@@ -33,16 +39,44 @@ function App() {
   } = useFhevm();
 
   const {
+    // Notifications
+    toasts,
+    dismissToast,
+
     // Multi-estate state
     myExecutorEstates,
     myHeirEstates,
+    myTestatorEstates,
+    myGuardianEstates,
+    myArbiterEstates,
+    myAuditorEstates,
+    mySharedEstates,
+    archivedEstates,
     selectedEstateId,
     currentEstate,
     currentRole,
+    // Tokens
+    allowedTokens,
+    estateTokens,
     // Estate-specific data
     heirs,
+    proposals,
+    contingencies,
+    disclaimers,
+    recoveries,
+    wards,
+    sharers,
+    myViewers,
+    hasMyLetter,
     myAllocation,
+    myShareBps,
+    myPaid,
+    myVesting,
+    residuaryHeir,
     hasClaimed,
+    hasDisclaimed,
+    myPendingRecovery,
+    myGuardianship,
     // Loading/error
     isLoading,
     error: inheritanceError,
@@ -51,18 +85,61 @@ function App() {
     createEstate,
     // Estate operations
     addHeir,
+    updateAllocation,
     removeHeir,
+    addContingent,
+    recordLapse,
     finalizeEstate,
+    completeFinalization,
+    cancelEstate,
+    discloseEstateTotals,
+    completeDisclosure,
+    setClaimPeriod,
+    setDisclaimerPolicy,
+    setArbiter,
+    setHeirLetter,
+    addAuditor,
+    removeAuditor,
+    sweepUnclaimed,
+    approveProposal,
+    addCoExecutor,
+    removeCoExecutor,
+    setApprovalThreshold,
     claimAllocation,
+    disclaimInheritance,
+    raiseDispute,
+    resolveDispute,
+    grantAllocationView,
+    revokeAllocationView,
+    proposeRecovery,
+    vetoRecovery,
+    executeRecovery,
+    claimMaintenance,
+    checkIn,
+    attestDeath,
     decryptMyAllocation,
     getHeirAllocation,
+    getHeirShare,
+    getWardAmounts,
+    getSharedAllocation,
+    readMyLetter,
+    getAuditTotals,
+    getContingentShare,
+    checkShareHeir,
     checkHeirClaimed,
+    checkHeirDisclaimed,
     // Token operations
-    mintTokens,
-    setDistributionAsOperator,
+    wrapAndDeposit,
+    unwrapTokens,
     depositTokens,
   } = useInheritance(signer, address);
 
+  const {
+    events: history,
+    isLoading: isHistoryLoading,
+    refresh: refreshHistory,
+  } = useEstateHistory(selectedEstateId, signer);
+
   // Initialize FHEVM after wallet connects
   useEffect(() => {
     if (isConnected && fhevmStatus === "idle") {
@@ -98,10 +175,22 @@ function App() {
     );
   }
 
-  const hasEstates = myExecutorEstates.length > 0 || myHeirEstates.length > 0;
+  const hasEstates =
+    myExecutorEstates.length > 0 ||
+    myHeirEstates.length > 0 ||
+    myTestatorEstates.length > 0 ||
+    myGuardianEstates.length > 0 ||
+    myArbiterEstates.length > 0 ||
+    myAuditorEstates.length > 0 ||
+    mySharedEstates.length > 0 ||
+    archivedEstates.length > 0;
 
-  const handleCreateEstate = async (name: string): Promise<number> => {
-    const estateId = await createEstate(name);
+  const handleCreateEstate = async (
+    name: string,
+    testator: string,
+    inactivityPeriod: number
+  ): Promise<number> => {
+    const estateId = await createEstate(name, testator, inactivityPeriod);
     selectEstate(estateId);
     return estateId;
   };
@@ -115,6 +204,12 @@ function App() {
           <EstateSelector
             executorEstates={myExecutorEstates}
             heirEstates={myHeirEstates}
+            testatorEstates={myTestatorEstates}
+            guardianEstates={myGuardianEstates}
+            arbiterEstates={myArbiterEstates}
+            auditorEstates={myAuditorEstates}
+            sharedEstates={mySharedEstates}
+            archivedEstates={archivedEstates}
             selectedId={selectedEstateId}
             onSelect={selectEstate}
             onCreate={() => setShowCreateModal(true)}
@@ -138,32 +233,131 @@ function App() {
             <ExecutorDashboard
               estateInfo={currentEstate}
               heirs={heirs}
+              allowedTokens={allowedTokens}
+              estateTokens={estateTokens}
+              proposals={proposals}
+              contingencies={contingencies}
+              disclaimers={disclaimers}
+              recoveries={recoveries}
+              residuaryHeir={residuaryHeir}
+              history={history}
+              isTestator={currentEstate.testator.toLowerCase() === address?.toLowerCase()}
               isLoading={isLoading}
+              isHistoryLoading={isHistoryLoading}
               onAddHeir={addHeir}
+              onUpdateAllocation={updateAllocation}
               onRemoveHeir={removeHeir}
+              onAddContingent={addContingent}
+              onRecordLapse={recordLapse}
+              onGetContingentShare={getContingentShare}
               onFinalize={finalizeEstate}
-              onMintTokens={mintTokens}
-              onSetupOperator={setDistributionAsOperator}
+              onCompleteFinalization={completeFinalization}
+              onCancelEstate={cancelEstate}
+              onDiscloseTotals={discloseEstateTotals}
+              onCompleteDisclosure={completeDisclosure}
+              onSetClaimPeriod={setClaimPeriod}
+              onSetDisclaimerPolicy={setDisclaimerPolicy}
+              onSetArbiter={setArbiter}
+              onSetLetter={setHeirLetter}
+              onAddAuditor={addAuditor}
+              onRemoveAuditor={removeAuditor}
+              onSweepUnclaimed={sweepUnclaimed}
+              onProposeRecovery={proposeRecovery}
+              onVetoRecovery={vetoRecovery}
+              onExecuteRecovery={executeRecovery}
+              onAttestDeath={attestDeath}
+              onApproveProposal={approveProposal}
+              onAddCoExecutor={addCoExecutor}
+              onRemoveCoExecutor={removeCoExecutor}
+              onSetApprovalThreshold={setApprovalThreshold}
+              onWrapAndDeposit={wrapAndDeposit}
               onDepositTokens={depositTokens}
               onGetHeirAllocation={getHeirAllocation}
+              onGetHeirShare={getHeirShare}
+              onCheckShareHeir={checkShareHeir}
               onCheckClaimed={checkHeirClaimed}
+              onCheckDisclaimed={checkHeirDisclaimed}
+              onRefreshHistory={refreshHistory}
             />
           ) : currentEstate && currentRole === "heir" ? (
             <HeirDashboard
               estateInfo={currentEstate}
               heirCount={heirs.length}
+              tokens={estateTokens}
               myAllocation={myAllocation}
+              myShareBps={myShareBps}
+              myPaid={myPaid}
+              myVesting={myVesting}
               hasClaimed={hasClaimed}
+              hasDisclaimed={hasDisclaimed}
+              pendingRecovery={myPendingRecovery}
+              guardianship={myGuardianship}
+              viewers={myViewers}
+              hasLetter={hasMyLetter}
+              address={address}
+              history={history}
               isLoading={isLoading}
+              isHistoryLoading={isHistoryLoading}
               onDecryptAllocation={decryptMyAllocation}
               onClaim={claimAllocation}
+              onUnwrap={unwrapTokens}
+              onDisclaim={disclaimInheritance}
+              onRaiseDispute={raiseDispute}
+              onMoveWallet={(newAddress) => proposeRecovery(address, newAddress)}
+              onVetoRecovery={() => vetoRecovery(address)}
+              onGrantView={grantAllocationView}
+              onRevokeView={revokeAllocationView}
+              onReadLetter={readMyLetter}
+              onRefreshHistory={refreshHistory}
+            />
+          ) : currentEstate && currentRole === "guardian" ? (
+            <GuardianDashboard
+              estateInfo={currentEstate}
+              heirCount={heirs.length}
+              tokens={estateTokens}
+              wards={wards}
+              isLoading={isLoading}
+              onGetWardAmounts={getWardAmounts}
+              onClaimMaintenance={claimMaintenance}
+            />
+          ) : currentEstate && currentRole === "arbiter" ? (
+            <ArbiterDashboard
+              estateInfo={currentEstate}
+              heirCount={heirs.length}
+              isLoading={isLoading}
+              onResolveDispute={resolveDispute}
+            />
+          ) : currentEstate && currentRole === "auditor" ? (
+            <AuditorDashboard
+              estateInfo={currentEstate}
+              heirCount={heirs.length}
+              tokens={estateTokens}
+              isLoading={isLoading}
+              onGetAuditTotals={getAuditTotals}
+            />
+          ) : currentEstate && currentRole === "viewer" ? (
+            <SharedWithMeDashboard
+              estateInfo={currentEstate}
+              heirCount={heirs.length}
+              tokens={estateTokens}
+              sharers={sharers}
+              isLoading={isLoading}
+              onGetSharedAllocation={getSharedAllocation}
+            />
+          ) : currentEstate && currentRole === "testator" ? (
+            <TestatorDashboard
+              estateInfo={currentEstate}
+              heirs={heirs}
+              isLoading={isLoading}
+              onCheckIn={checkIn}
+              onSetLetter={setHeirLetter}
             />
           ) : currentEstate ? (
             <div className="container">
               <div className="card" style={{ textAlign: "center", padding: "var(--space-12)" }}>
                 <h2>Access Denied</h2>
                 <p className="text-secondary mt-4">
-                  You are not an executor or heir of this estate.
+                  You are not an executor, heir, guardian, arbiter, auditor, viewer or testator of this estate.
                 </p>
               </div>
             </div>
@@ -177,6 +371,8 @@ function App() {
         onClose={() => setShowCreateModal(false)}
         onCreate={handleCreateEstate}
       />
+
+      <Toasts toasts={toasts} onDismiss={dismissToast} />
     </Layout>
   );
 }
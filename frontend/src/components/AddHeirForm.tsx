@@ -1,15 +1,30 @@
 import { useState } from "react";
 import { UserPlus, AlertCircle } from "lucide-react";
+import type { AddHeirOptions, AllocationMode, TokenInfo } from "../types";
 import "./AddHeirForm.css";
 
 interface AddHeirFormProps {
-  onAddHeir: (address: string, allocation: bigint) => Promise<void>;
+  tokens: TokenInfo[];
+  onAddHeir: (address: string, value: bigint, options: AddHeirOptions) => Promise<void>;
   isLoading: boolean;
 }
 
-export function AddHeirForm({ onAddHeir, isLoading }: AddHeirFormProps) {
+const SECONDS_PER_MONTH = 30 * 24 * 60 * 60;
+
+export function AddHeirForm({ tokens, onAddHeir, isLoading }: AddHeirFormProps) {
   const [address, setAddress] = useState("");
+  const [mode, setMode] = useState<AllocationMode>("amount");
+  const [tokenAddress, setTokenAddress] = useState("");
   const [amount, setAmount] = useState("");
+  const [isResiduary, setIsResiduary] = useState(false);
+  const [isVesting, setIsVesting] = useState(false);
+  const [vestingMonths, setVestingMonths] = useState("60");
+  const [cliffMonths, setCliffMonths] = useState("0");
+  const [installments, setInstallments] = useState("5");
+  const [isMinor, setIsMinor] = useState(false);
+  const [guardian, setGuardian] = useState("");
+  const [majorityDate, setMajorityDate] = useState("");
+  const [maintenancePercent, setMaintenancePercent] = useState("10");
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -22,19 +37,80 @@ export function AddHeirForm({ onAddHeir, isLoading }: AddHeirFormProps) {
       return;
     }
 
+    const token = tokens.find((t) => t.address === tokenAddress) ?? tokens[0];
+    if (mode === "amount" && !token) {
+      setError("No tokens are allowed yet");
+      return;
+    }
+
     const amountNum = parseFloat(amount);
     if (isNaN(amountNum) || amountNum <= 0) {
       setError("Please enter a valid amount");
       return;
     }
+    if (mode === "percentage" && amountNum > 100) {
+      setError("Percentage cannot exceed 100%");
+      return;
+    }
+
+    const duration = parseInt(vestingMonths, 10);
+    const cliff = parseInt(cliffMonths, 10);
+    const releases = parseInt(installments, 10);
+    if (isVesting && (isNaN(duration) || duration <= 0 || isNaN(cliff) || cliff < 0 || cliff > duration || isNaN(releases) || releases < 0)) {
+      setError("Please enter a valid vesting schedule");
+      return;
+    }
+
+    const majorityAt = Math.floor(new Date(majorityDate).getTime() / 1000);
+    const maintenance = parseFloat(maintenancePercent);
+    if (isMinor) {
+      if (!guardian.startsWith("0x") || guardian.length !== 42 || guardian.toLowerCase() === address.toLowerCase()) {
+        setError("Please enter a valid guardian address other than the heir");
+        return;
+      }
+      if (isNaN(majorityAt) || majorityAt <= Date.now() / 1000) {
+        setError("The date of majority must be in the future");
+        return;
+      }
+      if (isNaN(maintenance) || maintenance < 0 || maintenance > 25) {
+        setError("Maintenance limit must be between 0% and 25%");
+        return;
+      }
+    }
 
     setIsSubmitting(true);
     try {
-      // Convert to token units (6 decimals)
-      const allocationBigInt = BigInt(Math.floor(amountNum * 1_000_000));
-      await onAddHeir(address, allocationBigInt);
+      // Convert to token units (6 decimals) or basis points (100 bps = 1%)
+      const value = mode === "percentage"
+        ? BigInt(Math.round(amountNum * 100))
+        : BigInt(Math.floor(amountNum * 1_000_000));
+      await onAddHeir(address, value, {
+        mode,
+        token: mode === "amount" ? token.address : undefined,
+        isResiduary,
+        vesting: isVesting
+          ? {
+              start: 0,
+              cliff: cliff * SECONDS_PER_MONTH,
+              duration: duration * SECONDS_PER_MONTH,
+              installments: releases,
+            }
+          : undefined,
+        guardian: isMinor
+          ? {
+              guardian,
+              majorityAt,
+              maintenanceBps: Math.round(maintenance * 100),
+            }
+          : undefined,
+      });
       setAddress("");
       setAmount("");
+      setIsResiduary(false);
+      setIsVesting(false);
+      setIsMinor(false);
+      setGuardian("");
+      setMajorityDate("");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to add heir");
     } finally {
@@ -63,22 +139,186 @@ export function AddHeirForm({ onAddHeir, isLoading }: AddHeirFormProps) {
         </div>
 
         <div className="form-group">
-          <label htmlFor="allocation">Allocation Amount</label>
+          <label>Allocation Type</label>
+          <div className="mode-toggle">
+            <button
+              type="button"
+              className={`btn btn-sm ${mode === "amount" ? "btn-primary" : "btn-secondary"}`}
+              onClick={() => setMode("amount")}
+              disabled={isLoading || isSubmitting}
+            >
+              Amount
+            </button>
+            <button
+              type="button"
+              className={`btn btn-sm ${mode === "percentage" ? "btn-primary" : "btn-secondary"}`}
+              onClick={() => setMode("percentage")}
+              disabled={isLoading || isSubmitting}
+            >
+              Percentage
+            </button>
+          </div>
+        </div>
+
+        {mode === "amount" && tokens.length > 1 && (
+          <div className="form-group">
+            <label htmlFor="allocation-token">Asset</label>
+            <select
+              id="allocation-token"
+              value={tokenAddress || tokens[0].address}
+              onChange={(e) => setTokenAddress(e.target.value)}
+              disabled={isLoading || isSubmitting}
+            >
+              {tokens.map((t) => (
+                <option key={t.address} value={t.address}>{t.symbol}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="form-group">
+          <label htmlFor="allocation">
+            {mode === "percentage" ? "Share of Estate" : "Allocation Amount"}
+          </label>
           <div className="input-with-suffix">
             <input
               id="allocation"
               type="number"
               placeholder="0.00"
-              step="0.000001"
+              step={mode === "percentage" ? "0.01" : "0.000001"}
               min="0"
+              max={mode === "percentage" ? "100" : undefined}
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
               disabled={isLoading || isSubmitting}
             />
-            <span className="input-suffix">INHERIT</span>
+            <span className="input-suffix">
+              {mode === "percentage"
+                ? "%"
+                : (tokens.find((t) => t.address === tokenAddress) ?? tokens[0])?.symbol}
+            </span>
           </div>
+          {mode === "percentage" && (
+            <p className="form-hint">
+              The amount of each asset is computed from the estate balance when the estate is finalized.
+            </p>
+          )}
         </div>
 
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={isResiduary}
+            onChange={(e) => setIsResiduary(e.target.checked)}
+            disabled={isLoading || isSubmitting}
+          />
+          Residuary heir (receives rounding remainders)
+        </label>
+
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={isVesting}
+            onChange={(e) => setIsVesting(e.target.checked)}
+            disabled={isLoading || isSubmitting}
+          />
+          Pay in installments
+        </label>
+
+        {isVesting && (
+          <div className="vesting-fields">
+            <div className="form-group">
+              <label htmlFor="vesting-duration">Duration (months)</label>
+              <input
+                id="vesting-duration"
+                type="number"
+                min="1"
+                value={vestingMonths}
+                onChange={(e) => setVestingMonths(e.target.value)}
+                disabled={isLoading || isSubmitting}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="vesting-cliff">Cliff (months)</label>
+              <input
+                id="vesting-cliff"
+                type="number"
+                min="0"
+                value={cliffMonths}
+                onChange={(e) => setCliffMonths(e.target.value)}
+                disabled={isLoading || isSubmitting}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="vesting-installments">Installments</label>
+              <input
+                id="vesting-installments"
+                type="number"
+                min="0"
+                value={installments}
+                onChange={(e) => setInstallments(e.target.value)}
+                disabled={isLoading || isSubmitting}
+              />
+            </div>
+            <p className="form-hint">
+              Vesting starts when claims unlock. Use 0 installments for continuous vesting.
+            </p>
+          </div>
+        )}
+
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={isMinor}
+            onChange={(e) => setIsMinor(e.target.checked)}
+            disabled={isLoading || isSubmitting}
+          />
+          Heir is a minor (managed by a guardian)
+        </label>
+
+        {isMinor && (
+          <div className="guardian-fields">
+            <div className="form-group">
+              <label htmlFor="guardian-address">Guardian Address</label>
+              <input
+                id="guardian-address"
+                type="text"
+                placeholder="0x..."
+                value={guardian}
+                onChange={(e) => setGuardian(e.target.value)}
+                disabled={isLoading || isSubmitting}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="majority-date">Date of Majority</label>
+              <input
+                id="majority-date"
+                type="date"
+                value={majorityDate}
+                onChange={(e) => setMajorityDate(e.target.value)}
+                disabled={isLoading || isSubmitting}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="maintenance-limit">Maintenance Limit (%)</label>
+              <input
+                id="maintenance-limit"
+                type="number"
+                min="0"
+                max="25"
+                step="0.01"
+                value={maintenancePercent}
+                onChange={(e) => setMaintenancePercent(e.target.value)}
+                disabled={isLoading || isSubmitting}
+              />
+            </div>
+            <p className="form-hint">
+              Until the date of majority the guardian can view the allocation and draw up to this share of it
+              for the heir's maintenance, at most 25%. Only the heir can claim the rest, from that date on.
+            </p>
+          </div>
+        )}
+
         {error && (
           <div className="error-message flex items-center gap-2 mb-4">
             <AlertCircle size={16} />
@@ -1,35 +1,85 @@
-import { Eye, CheckCircle, Clock } from "lucide-react";
+import { useState } from "react";
+import { Eye, CheckCircle, Clock, Pencil, FileX } from "lucide-react";
+import type { TokenAmounts, TokenInfo } from "../types";
 import "./AllocationCard.css";
 
 interface AllocationCardProps {
   address: string;
-  allocation: bigint | null;
+  tokens: TokenInfo[];
+  allocation: TokenAmounts | null;
   claimed: boolean;
+  disclaimed?: boolean;
+  shareBps?: bigint | null;
+  isShareHeir?: boolean;
+  isResiduary?: boolean;
   isLoading?: boolean;
   onDecrypt?: () => void;
   showActions?: boolean;
+  onEdit?: (value: bigint, token?: string) => Promise<void>;
   onRemove?: () => void;
 }
 
+const formatAmount = (value: bigint) =>
+  (Number(value) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
 export function AllocationCard({
   address,
+  tokens,
   allocation,
   claimed,
+  disclaimed,
+  shareBps = null,
+  isShareHeir,
+  isResiduary,
   isLoading,
   onDecrypt,
   showActions,
+  onEdit,
   onRemove,
 }: AllocationCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editValue, setEditValue] = useState("");
+  const [editToken, setEditToken] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
   const shortAddress = `${address.slice(0, 6)}...${address.slice(-4)}`;
-  const formattedAllocation = allocation !== null
-    ? (Number(allocation) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 6 })
+  const formattedShare = shareBps !== null
+    ? `${(Number(shareBps) / 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}%`
     : null;
 
+  const handleSave = async () => {
+    const value = parseFloat(editValue);
+    if (!onEdit || isNaN(value) || value <= 0) return;
+    if (isShareHeir && value > 100) return;
+
+    setIsSaving(true);
+    try {
+      if (isShareHeir) {
+        await onEdit(BigInt(Math.round(value * 100)));
+      } else {
+        await onEdit(BigInt(Math.floor(value * 1_000_000)), editToken || tokens[0]?.address);
+      }
+      setIsEditing(false);
+      setEditValue("");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   return (
     <div className={`allocation-card ${claimed ? "claimed" : ""}`}>
       <div className="allocation-card-header">
-        <span className="address-short">{shortAddress}</span>
-        {claimed ? (
+        <span className="address-short">
+          {shortAddress}
+          {isShareHeir && <span className="badge allocation-tag">Share</span>}
+          {isResiduary && <span className="badge allocation-tag">Residuary</span>}
+        </span>
+        {disclaimed ? (
+          <span className="badge">
+            <FileX size={12} />
+            Disclaimed
+          </span>
+        ) : claimed ? (
           <span className="badge badge-success">
             <CheckCircle size={12} />
             Claimed
@@ -47,8 +97,13 @@ export function AllocationCard({
           <div className="skeleton allocation-skeleton" />
         ) : allocation !== null ? (
           <div className="allocation-amount">
-            <span className="amount">{formattedAllocation}</span>
-            <span className="amount-label">INHERIT</span>
+            {tokens.map((token) => (
+              <div key={token.address} className="allocation-asset">
+                <span className="amount">{formatAmount(allocation.get(token.address) ?? BigInt(0))}</span>
+                <span className="amount-label">{token.symbol}</span>
+              </div>
+            ))}
+            {formattedShare && <span className="amount-label">{formattedShare} of estate</span>}
           </div>
         ) : (
           <button
@@ -61,11 +116,58 @@ export function AllocationCard({
         )}
       </div>
 
-      {showActions && !claimed && onRemove && (
-        <div className="allocation-card-actions">
-          <button className="btn btn-danger btn-sm" onClick={onRemove}>
-            Remove
+      {showActions && !claimed && isEditing && (
+        <div className="allocation-card-actions allocation-edit">
+          {!isShareHeir && tokens.length > 1 && (
+            <select
+              value={editToken || tokens[0].address}
+              onChange={(e) => setEditToken(e.target.value)}
+              disabled={isSaving}
+            >
+              {tokens.map((token) => (
+                <option key={token.address} value={token.address}>{token.symbol}</option>
+              ))}
+            </select>
+          )}
+          <input
+            type="number"
+            step="any"
+            placeholder={isShareHeir ? "New share (%)" : "New amount"}
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            disabled={isSaving}
+            autoFocus
+          />
+          <button
+            className="btn btn-primary btn-sm"
+            onClick={handleSave}
+            disabled={isSaving || !editValue}
+          >
+            {isSaving ? "Saving..." : "Save"}
           </button>
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={() => setIsEditing(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {showActions && !claimed && !isEditing && (onEdit || onRemove) && (
+        <div className="allocation-card-actions">
+          {onEdit && (
+            <button className="btn btn-secondary btn-sm" onClick={() => setIsEditing(true)}>
+              <Pencil size={14} />
+              Edit
+            </button>
+          )}
+          {onRemove && (
+            <button className="btn btn-danger btn-sm" onClick={onRemove}>
+              Remove
+            </button>
+          )}
         </div>
       )}
     </div>
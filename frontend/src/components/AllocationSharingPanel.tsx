@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Share2, X, RefreshCw, AlertCircle } from "lucide-react";
+import "./AllocationSharingPanel.css";
+
+interface AllocationSharingPanelProps {
+  viewers: string[];
+  onGrant: (viewer: string) => Promise<void>;
+  onRevoke: (viewer: string) => Promise<void>;
+}
+
+const shorten = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+export function AllocationSharingPanel({ viewers, onGrant, onRevoke }: AllocationSharingPanelProps) {
+  const [viewer, setViewer] = useState("");
+  const [isGranting, setIsGranting] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!viewer.startsWith("0x") || viewer.length !== 42) {
+      setError("Please enter a valid Ethereum address");
+      return;
+    }
+
+    setIsGranting(true);
+    try {
+      await onGrant(viewer);
+      setViewer("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to share allocation");
+    } finally {
+      setIsGranting(false);
+    }
+  };
+
+  const handleRevoke = async (target: string) => {
+    setError(null);
+    setRevoking(target);
+    try {
+      await onRevoke(target);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to stop sharing");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="sharing-panel card">
+      <h3>Share My Allocation</h3>
+      <p className="text-muted mb-4">
+        Let someone else, such as a lender or tax adviser, decrypt your allocation. They also see later changes
+        until you stop sharing; a value they already decrypted cannot be taken back.
+      </p>
+
+      {viewers.length > 0 && (
+        <div className="sharing-list mb-4">
+          {viewers.map((addr) => (
+            <div key={addr} className="sharing-row">
+              <span className="sharing-viewer">{shorten(addr)}</span>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => handleRevoke(addr)}
+                disabled={revoking !== null}
+              >
+                {revoking === addr ? <RefreshCw size={14} className="spin" /> : <X size={14} />}
+                Stop Sharing
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form className="sharing-form" onSubmit={handleGrant}>
+        <input
+          type="text"
+          placeholder="Viewer 0x..."
+          value={viewer}
+          onChange={(e) => setViewer(e.target.value)}
+          disabled={isGranting}
+        />
+        <button type="submit" className="btn btn-secondary" disabled={isGranting || !viewer}>
+          <Share2 size={14} />
+          {isGranting ? "Sharing..." : "Share"}
+        </button>
+      </form>
+
+      {error && (
+        <div className="error-message flex items-center gap-2 mt-4">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
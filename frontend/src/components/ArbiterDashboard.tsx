@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Gavel, Unlock, Pencil, Ban } from "lucide-react";
+import { EstateStatus } from "./EstateStatus";
+import { LoadingState } from "./LoadingState";
+import type { DisputeResolution, EstateInfo } from "../types";
+import "./ArbiterDashboard.css";
+
+interface ArbiterDashboardProps {
+  estateInfo: EstateInfo;
+  heirCount: number;
+  isLoading: boolean;
+  onResolveDispute: (resolution: DisputeResolution) => Promise<void>;
+}
+
+export function ArbiterDashboard({
+  estateInfo,
+  heirCount,
+  isLoading,
+  onResolveDispute,
+}: ArbiterDashboardProps) {
+  const [pending, setPending] = useState<DisputeResolution | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { dispute } = estateInfo;
+  const windowEnd = estateInfo.finalizedAt + estateInfo.disputeWindow;
+
+  const handleResolve = async (resolution: DisputeResolution) => {
+    setError(null);
+    setPending(resolution);
+    try {
+      await onResolveDispute(resolution);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to resolve dispute");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingState message="Loading estate..." />;
+  }
+
+  return (
+    <div className="arbiter-dashboard">
+      <div className="dashboard-header">
+        <h1>{estateInfo.name}</h1>
+        <p className="text-secondary">
+          You are the arbiter of this estate. Heirs can contest it within{" "}
+          {Math.round(estateInfo.disputeWindow / 86_400)} days of finalization.
+        </p>
+      </div>
+
+      <EstateStatus estate={estateInfo} heirCount={heirCount} />
+
+      {estateInfo.active && dispute ? (
+        <div className="card dispute-card">
+          <div className="dispute-card-header">
+            <Gavel size={20} />
+            <h3>Open Dispute</h3>
+          </div>
+
+          <div className="dispute-details">
+            <div>
+              <span className="estate-stat-label">Raised by</span>
+              <p className="address-short">{dispute.raisedBy.slice(0, 6)}...{dispute.raisedBy.slice(-4)}</p>
+            </div>
+            <div>
+              <span className="estate-stat-label">Raised on</span>
+              <p>{new Date(dispute.raisedAt * 1000).toLocaleString()}</p>
+            </div>
+            <div>
+              <span className="estate-stat-label">Reason hash</span>
+              <p className="dispute-hash">{dispute.reasonHash}</p>
+            </div>
+          </div>
+
+          <p className="text-muted">
+            Compare the hash with the reason the heir sent you. Unfreezing resumes claims; reopening lets the
+            executors edit and finalize again, which fails once anything was paid out; cancelling refunds the
+            depositors from the remaining balance.
+          </p>
+
+          <div className="dispute-actions">
+            <button className="btn btn-primary" onClick={() => handleResolve("Unfreeze")} disabled={pending !== null}>
+              <Unlock size={16} />
+              {pending === "Unfreeze" ? "Unfreezing..." : "Unfreeze"}
+            </button>
+            <button className="btn btn-secondary" onClick={() => handleResolve("Reopen")} disabled={pending !== null}>
+              <Pencil size={16} />
+              {pending === "Reopen" ? "Reopening..." : "Reopen for Edits"}
+            </button>
+            <button className="btn btn-danger" onClick={() => handleResolve("Cancel")} disabled={pending !== null}>
+              <Ban size={16} />
+              {pending === "Cancel" ? "Cancelling..." : "Cancel Estate"}
+            </button>
+          </div>
+
+          {error && <div className="error-message mt-4">{error}</div>}
+        </div>
+      ) : (
+        <div className="privacy-notice">
+          <p>
+            {!estateInfo.active
+              ? "This estate is closed."
+              : !estateInfo.finalized
+                ? "Heirs can raise disputes once the estate is finalized."
+                : Date.now() / 1000 <= windowEnd
+                  ? `No open dispute. Heirs can raise one until ${new Date(windowEnd * 1000).toLocaleDateString()}.`
+                  : "No open dispute. The dispute window has closed."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Eye, RefreshCw } from "lucide-react";
+import { EstateStatus } from "./EstateStatus";
+import { LoadingState } from "./LoadingState";
+import type { AuditTotals, EstateInfo, TokenInfo } from "../types";
+import "./AuditorDashboard.css";
+
+interface AuditorDashboardProps {
+  estateInfo: EstateInfo;
+  heirCount: number;
+  tokens: TokenInfo[];
+  isLoading: boolean;
+  onGetAuditTotals: () => Promise<AuditTotals | null>;
+}
+
+const formatAmount = (value: bigint | undefined) => value !== undefined
+  ? (Number(value) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 6 })
+  : "---";
+
+export function AuditorDashboard({
+  estateInfo,
+  heirCount,
+  tokens,
+  isLoading,
+  onGetAuditTotals,
+}: AuditorDashboardProps) {
+  const [totals, setTotals] = useState<AuditTotals | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const claimedCount = heirCount - estateInfo.outstandingHeirs;
+
+  const handleDecrypt = async () => {
+    setIsDecrypting(true);
+    try {
+      setTotals(await onGetAuditTotals());
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingState message="Loading estate..." />;
+  }
+
+  return (
+    <div className="auditor-dashboard">
+      <div className="dashboard-header">
+        <h1>{estateInfo.name}</h1>
+        <p className="text-secondary">
+          You are an auditor of this estate. You can verify its totals but not any heir's allocation.
+        </p>
+      </div>
+
+      <EstateStatus estate={estateInfo} heirCount={heirCount} />
+
+      <div className="card audit-card">
+        <div className="audit-card-header">
+          <h3>Estate Totals</h3>
+          <span className="text-muted">
+            {claimedCount} of {heirCount} heir(s) claimed
+          </span>
+        </div>
+
+        {totals ? (
+          <div className="audit-breakdown">
+            <span className="claim-label">Asset</span>
+            <span className="claim-label">Balance</span>
+            <span className="claim-label">Allocated</span>
+            <span className="claim-label">Paid Out</span>
+            {tokens.map((t) => (
+              <div key={t.address} className="audit-breakdown-row">
+                <span>{t.symbol}</span>
+                <span>{formatAmount(totals.balance.get(t.address))}</span>
+                <span>{formatAmount(totals.allocated.get(t.address))}</span>
+                <span>{formatAmount(totals.paid.get(t.address))}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <button className="btn btn-primary" onClick={handleDecrypt} disabled={isDecrypting || tokens.length === 0}>
+            {isDecrypting ? (
+              <>
+                <RefreshCw size={16} className="spin" />
+                Decrypting...
+              </>
+            ) : (
+              <>
+                <Eye size={16} />
+                Decrypt Totals
+              </>
+            )}
+          </button>
+        )}
+      </div>
+
+      <div className="privacy-notice">
+        <p>
+          Totals are decrypted in your browser. Individual allocations stay encrypted and are never shared
+          with auditors.
+        </p>
+      </div>
+    </div>
+  );
+}
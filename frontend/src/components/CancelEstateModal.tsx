@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { X, Ban, Loader2, AlertTriangle } from "lucide-react";
+
+interface CancelEstateModalProps {
+  isOpen: boolean;
+  estateName: string;
+  requiresProposal: boolean;
+  onClose: () => void;
+  onConfirm: () => Promise<void>;
+}
+
+export function CancelEstateModal({
+  isOpen,
+  estateName,
+  requiresProposal,
+  onClose,
+  onConfirm,
+}: CancelEstateModalProps) {
+  const [confirmation, setConfirmation] = useState("");
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (confirmation !== estateName) {
+      setError("Type the estate name to confirm");
+      return;
+    }
+
+    setError(null);
+    setIsCancelling(true);
+
+    try {
+      await onConfirm();
+      setConfirmation("");
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel estate");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isCancelling) {
+      setConfirmation("");
+      setError(null);
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="modal-overlay" onClick={handleClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Cancel Estate</h2>
+          <button
+            className="btn-icon"
+            onClick={handleClose}
+            disabled={isCancelling}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleConfirm}>
+          <div className="modal-body">
+            <div className="error-message">
+              <AlertTriangle size={16} />
+              {" "}This cannot be undone. Every deposit is refunded to the address that made it,
+              heirs lose access and the estate moves to the archive.
+            </div>
+
+            <div className="form-group mt-4">
+              <label htmlFor="cancel-confirmation">
+                Type <strong>{estateName}</strong> to confirm
+              </label>
+              <input
+                id="cancel-confirmation"
+                type="text"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                disabled={isCancelling}
+                autoFocus
+              />
+              {requiresProposal && (
+                <p className="form-hint">
+                  This creates a proposal; the estate is cancelled once enough co-executors approve.
+                </p>
+              )}
+            </div>
+
+            {error && <div className="error-message">{error}</div>}
+          </div>
+
+          <div className="modal-footer">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={handleClose}
+              disabled={isCancelling}
+            >
+              Keep Estate
+            </button>
+            <button
+              type="submit"
+              className="btn btn-danger"
+              disabled={isCancelling || confirmation !== estateName}
+            >
+              {isCancelling ? (
+                <>
+                  <Loader2 size={16} className="spinner" />
+                  Cancelling...
+                </>
+              ) : (
+                <>
+                  <Ban size={16} />
+                  Cancel Estate
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,43 @@
 import { Gift, CheckCircle, Loader } from "lucide-react";
+import type { TokenAmounts, TokenInfo } from "../types";
 import "./ClaimButton.css";
 
 interface ClaimButtonProps {
-  allocation: bigint | null;
+  tokens: TokenInfo[];
+  allocation: TokenAmounts | null;
+  vested?: TokenAmounts | null;
+  paid?: TokenAmounts | null;
   hasClaimed: boolean;
   canClaim: boolean;
+  lockedReason?: string;
   isLoading: boolean;
   onClaim: () => void;
 }
 
+const formatAmount = (value: bigint | null | undefined) => value !== null && value !== undefined
+  ? (Number(value) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 6 })
+  : "---";
+
 export function ClaimButton({
+  tokens,
   allocation,
+  vested,
+  paid = null,
   hasClaimed,
   canClaim,
+  lockedReason = "The estate must be finalized before you can claim.",
   isLoading,
   onClaim,
 }: ClaimButtonProps) {
-  const formattedAllocation = allocation !== null
-    ? (Number(allocation) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 6 })
-    : "---";
+  const isVesting = vested !== undefined;
+  const claimableOf = (token: string) => {
+    const vestedAmount = vested?.get(token);
+    const paidAmount = paid?.get(token);
+    return vestedAmount !== undefined && paidAmount !== undefined && vestedAmount > paidAmount
+      ? vestedAmount - paidAmount
+      : null;
+  };
+  const hasClaimable = tokens.some((token) => claimableOf(token.address) !== null);
 
   if (hasClaimed) {
     return (
@@ -38,14 +57,40 @@ export function ClaimButton({
     <div className="claim-container">
       <div className="claim-amount-display">
         <span className="claim-label">Your Inheritance</span>
-        <span className="claim-amount">{formattedAllocation}</span>
-        <span className="claim-token">INHERIT</span>
+        {tokens.length === 0 && <span className="claim-amount">---</span>}
+        {tokens.map((token) => (
+          <div key={token.address} className="claim-asset">
+            <span className="claim-amount">{formatAmount(allocation?.get(token.address))}</span>
+            <span className="claim-token">{token.symbol}</span>
+          </div>
+        ))}
       </div>
 
+      {isVesting && (
+        <div className="claim-breakdown">
+          <span className="claim-label">Asset</span>
+          <span className="claim-label">Vested</span>
+          <span className="claim-label">Claimed</span>
+          <span className="claim-label">Remaining</span>
+          {tokens.map((token) => {
+            const total = allocation?.get(token.address);
+            const paidAmount = paid?.get(token.address);
+            return (
+              <div key={token.address} className="claim-breakdown-row">
+                <span>{token.symbol}</span>
+                <span>{formatAmount(vested?.get(token.address))}</span>
+                <span>{formatAmount(paidAmount)}</span>
+                <span>{formatAmount(total !== undefined && paidAmount !== undefined ? total - paidAmount : null)}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       <button
         className="btn btn-success btn-lg claim-btn"
         onClick={onClaim}
-        disabled={!canClaim || isLoading || allocation === null}
+        disabled={!canClaim || isLoading || allocation === null || (isVesting && !hasClaimable)}
       >
         {isLoading ? (
           <>
@@ -55,15 +100,13 @@ export function ClaimButton({
         ) : (
           <>
             <Gift size={20} />
-            Claim Inheritance
+            {isVesting ? "Claim Vested" : "Claim Inheritance"}
           </>
         )}
       </button>
 
       {!canClaim && (
-        <p className="claim-note">
-          The estate must be finalized before you can claim.
-        </p>
+        <p className="claim-note">{lockedReason}</p>
       )}
     </div>
   );
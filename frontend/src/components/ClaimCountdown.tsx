@@ -0,0 +1,39 @@
+import { useState, useEffect } from "react";
+import { Timer } from "lucide-react";
+
+interface ClaimCountdownProps {
+  deadline: number;
+}
+
+const formatRemaining = (seconds: number) => {
+  const days = Math.floor(seconds / 86_400);
+  const hours = Math.floor((seconds % 86_400) / 3_600);
+  const minutes = Math.floor((seconds % 3_600) / 60);
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  return `${hours}h ${minutes}m ${seconds % 60}s`;
+};
+
+export function ClaimCountdown({ deadline }: ClaimCountdownProps) {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = deadline - now;
+
+  return (
+    <div className={`claim-countdown ${remaining <= 0 ? "expired" : ""}`}>
+      <Timer size={20} />
+      {remaining > 0 ? (
+        <p>
+          Claim within <strong>{formatRemaining(remaining)}</strong>
+          <span className="text-muted"> · by {new Date(deadline * 1000).toLocaleString()}</span>
+        </p>
+      ) : (
+        <p>The claim period ended on {new Date(deadline * 1000).toLocaleString()}.</p>
+      )}
+    </div>
+  );
+}
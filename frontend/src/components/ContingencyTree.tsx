@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { CornerDownRight, Eye, Plus, RefreshCw, UserX } from "lucide-react";
+import type { ContingencyInfo } from "../types";
+import "./ContingencyTree.css";
+
+interface ContingencyTreeProps {
+  contingencies: ContingencyInfo[];
+  finalized: boolean;
+  onAddContingent: (heir: string, contingent: string, shareBps: bigint) => Promise<void>;
+  onRecordLapse: (heir: string) => Promise<void>;
+  onGetShare: (heir: string, contingent: string) => Promise<bigint | null>;
+}
+
+const shorten = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+export function ContingencyTree({
+  contingencies,
+  finalized,
+  onAddContingent,
+  onRecordLapse,
+  onGetShare,
+}: ContingencyTreeProps) {
+  const [shares, setShares] = useState<Map<string, bigint | null>>(new Map());
+  const [addingFor, setAddingFor] = useState<string | null>(null);
+  const [contingent, setContingent] = useState("");
+  const [percentage, setPercentage] = useState("");
+  const [busyHeir, setBusyHeir] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReveal = async (heir: string, addr: string) => {
+    const share = await onGetShare(heir, addr);
+    setShares((prev) => new Map(prev).set(`${heir}:${addr}`, share));
+  };
+
+  const handleAdd = async (heir: string) => {
+    if (!contingent.startsWith("0x") || contingent.length !== 42) {
+      setError("Please enter a valid contingent address");
+      return;
+    }
+    const pct = parseFloat(percentage);
+    if (isNaN(pct) || pct <= 0 || pct > 100) {
+      setError("Share must be between 0 and 100%");
+      return;
+    }
+
+    setError(null);
+    setBusyHeir(heir);
+    try {
+      await onAddContingent(heir, contingent, BigInt(Math.round(pct * 100)));
+      setContingent("");
+      setPercentage("");
+      setAddingFor(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add contingent");
+    } finally {
+      setBusyHeir(null);
+    }
+  };
+
+  const handleLapse = async (heir: string) => {
+    setBusyHeir(heir);
+    try {
+      await onRecordLapse(heir);
+    } finally {
+      setBusyHeir(null);
+    }
+  };
+
+  if (contingencies.length === 0) return null;
+
+  return (
+    <div className="contingency-tree card">
+      <h3>Contingent Beneficiaries</h3>
+      <p className="text-muted mb-4">
+        If an heir's allocation lapses, it passes to their contingents. The first contingent
+        also receives whatever the shares leave over.
+      </p>
+
+      <ul className="contingency-list">
+        {contingencies.map((node) => (
+          <li key={node.heir} className="contingency-node">
+            <div className="contingency-heir">
+              <span className="address-short">{shorten(node.heir)}</span>
+              {node.lapsed && (
+                <span className="badge badge-warning">
+                  <UserX size={12} />
+                  Lapsed
+                </span>
+              )}
+              <div className="contingency-actions">
+                {!finalized && (
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => setAddingFor(addingFor === node.heir ? null : node.heir)}
+                  >
+                    <Plus size={14} />
+                    Contingent
+                  </button>
+                )}
+                {finalized && !node.lapsed && !node.claimed && node.contingents.length > 0 && (
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => handleLapse(node.heir)}
+                    disabled={busyHeir !== null}
+                  >
+                    {busyHeir === node.heir ? <RefreshCw size={14} className="spin" /> : <UserX size={14} />}
+                    Record Lapse
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {node.contingents.length > 0 && (
+              <ul className="contingency-children">
+                {node.contingents.map((addr, index) => {
+                  const share = shares.get(`${node.heir}:${addr}`);
+                  return (
+                    <li key={addr} className="contingency-child">
+                      <CornerDownRight size={14} className="text-muted" />
+                      <span className="address-short">{shorten(addr)}</span>
+                      {index === 0 && <span className="badge allocation-tag">Remainder</span>}
+                      {share !== undefined ? (
+                        <span className="text-secondary">
+                          {share !== null ? `${(Number(share) / 100).toLocaleString()}%` : "—"}
+                        </span>
+                      ) : (
+                        <button className="btn-icon" onClick={() => handleReveal(node.heir, addr)}>
+                          <Eye size={14} />
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            {addingFor === node.heir && (
+              <div className="contingency-form">
+                <input
+                  type="text"
+                  placeholder="Contingent address 0x..."
+                  value={contingent}
+                  onChange={(e) => setContingent(e.target.value)}
+                  disabled={busyHeir !== null}
+                />
+                <input
+                  type="number"
+                  step="any"
+                  placeholder="Share (%)"
+                  value={percentage}
+                  onChange={(e) => setPercentage(e.target.value)}
+                  disabled={busyHeir !== null}
+                />
+                <button
+                  className="btn btn-primary btn-sm"
+                  onClick={() => handleAdd(node.heir)}
+                  disabled={busyHeir !== null || !contingent || !percentage}
+                >
+                  {busyHeir === node.heir ? "Adding..." : "Add"}
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {error && <div className="error-message mt-4">{error}</div>}
+    </div>
+  );
+}
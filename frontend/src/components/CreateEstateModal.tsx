@@ -4,11 +4,15 @@ import { X, Plus, Loader2 } from "lucide-react";
 interface CreateEstateModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreate: (name: string) => Promise<number>;
+  onCreate: (name: string, testator: string, inactivityPeriod: number) => Promise<number>;
 }
 
+const DEFAULT_INACTIVITY_DAYS = "365";
+
 export function CreateEstateModal({ isOpen, onClose, onCreate }: CreateEstateModalProps) {
   const [name, setName] = useState("");
+  const [testator, setTestator] = useState("");
+  const [inactivityDays, setInactivityDays] = useState(DEFAULT_INACTIVITY_DAYS);
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -19,12 +23,25 @@ export function CreateEstateModal({ isOpen, onClose, onCreate }: CreateEstateMod
       return;
     }
 
+    if (!testator.startsWith("0x") || testator.length !== 42) {
+      setError("Please enter a valid testator address");
+      return;
+    }
+
+    const days = parseInt(inactivityDays, 10);
+    if (isNaN(days) || days <= 0) {
+      setError("Inactivity period must be at least one day");
+      return;
+    }
+
     setError(null);
     setIsCreating(true);
 
     try {
-      await onCreate(name.trim());
+      await onCreate(name.trim(), testator, days * 24 * 60 * 60);
       setName("");
+      setTestator("");
+      setInactivityDays(DEFAULT_INACTIVITY_DAYS);
       onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create estate");
@@ -36,6 +53,8 @@ export function CreateEstateModal({ isOpen, onClose, onCreate }: CreateEstateMod
   const handleClose = () => {
     if (!isCreating) {
       setName("");
+      setTestator("");
+      setInactivityDays(DEFAULT_INACTIVITY_DAYS);
       setError(null);
       onClose();
     }
@@ -75,6 +94,37 @@ export function CreateEstateModal({ isOpen, onClose, onCreate }: CreateEstateMod
               </p>
             </div>
 
+            <div className="form-group">
+              <label htmlFor="estate-testator">Testator Address</label>
+              <input
+                id="estate-testator"
+                type="text"
+                placeholder="0x..."
+                value={testator}
+                onChange={(e) => setTestator(e.target.value)}
+                disabled={isCreating}
+              />
+              <p className="form-hint">
+                The person whose estate this is. They check in periodically to prove they are alive.
+              </p>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="estate-inactivity">Inactivity Period (days)</label>
+              <input
+                id="estate-inactivity"
+                type="number"
+                min="1"
+                step="1"
+                value={inactivityDays}
+                onChange={(e) => setInactivityDays(e.target.value)}
+                disabled={isCreating}
+              />
+              <p className="form-hint">
+                Claims unlock once the testator has not checked in for this long.
+              </p>
+            </div>
+
             {error && <div className="error-message">{error}</div>}
           </div>
 
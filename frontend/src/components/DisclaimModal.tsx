@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { X, FileX, Loader2, AlertTriangle } from "lucide-react";
+
+interface DisclaimModalProps {
+  isOpen: boolean;
+  estateName: string;
+  onClose: () => void;
+  onConfirm: () => Promise<void>;
+}
+
+export function DisclaimModal({
+  isOpen,
+  estateName,
+  onClose,
+  onConfirm,
+}: DisclaimModalProps) {
+  const [confirmation, setConfirmation] = useState("");
+  const [isDisclaiming, setIsDisclaiming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (confirmation !== estateName) {
+      setError("Type the estate name to confirm");
+      return;
+    }
+
+    setError(null);
+    setIsDisclaiming(true);
+
+    try {
+      await onConfirm();
+      setConfirmation("");
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to disclaim inheritance");
+    } finally {
+      setIsDisclaiming(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isDisclaiming) {
+      setConfirmation("");
+      setError(null);
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="modal-overlay" onClick={handleClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Disclaim Inheritance</h2>
+          <button
+            className="btn-icon"
+            onClick={handleClose}
+            disabled={isDisclaiming}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleConfirm}>
+          <div className="modal-body">
+            <div className="error-message">
+              <AlertTriangle size={16} />
+              {" "}This cannot be undone. You give up your entire allocation of every asset in this estate,
+              and it passes to other beneficiaries under the policy the executor chose. If it goes to the remaining
+              heirs, they share it equally, whatever their own allocations.
+            </div>
+
+            <div className="form-group mt-4">
+              <label htmlFor="disclaim-confirmation">
+                Type <strong>{estateName}</strong> to confirm
+              </label>
+              <input
+                id="disclaim-confirmation"
+                type="text"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                disabled={isDisclaiming}
+                autoFocus
+              />
+            </div>
+
+            {error && <div className="error-message">{error}</div>}
+          </div>
+
+          <div className="modal-footer">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={handleClose}
+              disabled={isDisclaiming}
+            >
+              Keep Inheritance
+            </button>
+            <button
+              type="submit"
+              className="btn btn-danger"
+              disabled={isDisclaiming || confirmation !== estateName}
+            >
+              {isDisclaiming ? (
+                <>
+                  <Loader2 size={16} className="spinner" />
+                  Disclaiming...
+                </>
+              ) : (
+                <>
+                  <FileX size={16} />
+                  Disclaim
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Briefcase, User, Lock, Unlock } from "lucide-react";
+import { Briefcase, User, HeartPulse, Shield, Scale, ClipboardCheck, Share2, Lock, Unlock, Ban } from "lucide-react";
 import type { EstateListItem } from "../types";
 
 interface EstateCardProps {
@@ -15,12 +15,37 @@ export function EstateCard({ estate, isSelected, onClick }: EstateCardProps) {
     >
       <div className="estate-card-header">
         <span className="estate-name">{estate.name}</span>
-        <span className={`badge ${estate.role === "executor" ? "badge-executor" : "badge-heir"}`}>
+        <span className={`badge badge-${estate.role}`}>
           {estate.role === "executor" ? (
             <>
               <Briefcase size={12} />
               Executor
             </>
+          ) : estate.role === "guardian" ? (
+            <>
+              <Shield size={12} />
+              Guardian
+            </>
+          ) : estate.role === "arbiter" ? (
+            <>
+              <Scale size={12} />
+              Arbiter
+            </>
+          ) : estate.role === "auditor" ? (
+            <>
+              <ClipboardCheck size={12} />
+              Auditor
+            </>
+          ) : estate.role === "viewer" ? (
+            <>
+              <Share2 size={12} />
+              Shared
+            </>
+          ) : estate.role === "testator" ? (
+            <>
+              <HeartPulse size={12} />
+              Testator
+            </>
           ) : (
             <>
               <User size={12} />
@@ -30,8 +55,13 @@ export function EstateCard({ estate, isSelected, onClick }: EstateCardProps) {
         </span>
       </div>
       <div className="estate-card-footer">
-        <span className={`status ${estate.finalized ? "finalized" : "open"}`}>
-          {estate.finalized ? (
+        <span className={`status ${!estate.active ? "cancelled" : estate.finalized ? "finalized" : "open"}`}>
+          {!estate.active ? (
+            <>
+              <Ban size={12} />
+              {estate.finalized ? "Closed" : "Cancelled"}
+            </>
+          ) : estate.finalized ? (
             <>
               <Lock size={12} />
               Finalized
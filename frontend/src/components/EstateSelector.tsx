@@ -1,10 +1,16 @@
-import { Plus, Briefcase, User } from "lucide-react";
+import { Plus, Briefcase, User, HeartPulse, Archive, Shield, Scale, ClipboardCheck, Share2 } from "lucide-react";
 import { EstateCard } from "./EstateCard";
 import type { EstateListItem } from "../types";
 
 interface EstateSelectorProps {
   executorEstates: EstateListItem[];
   heirEstates: EstateListItem[];
+  testatorEstates: EstateListItem[];
+  guardianEstates: EstateListItem[];
+  arbiterEstates: EstateListItem[];
+  auditorEstates: EstateListItem[];
+  sharedEstates: EstateListItem[];
+  archivedEstates: EstateListItem[];
   selectedId: number | null;
   onSelect: (id: number) => void;
   onCreate: () => void;
@@ -13,11 +19,25 @@ interface EstateSelectorProps {
 export function EstateSelector({
   executorEstates,
   heirEstates,
+  testatorEstates,
+  guardianEstates,
+  arbiterEstates,
+  auditorEstates,
+  sharedEstates,
+  archivedEstates,
   selectedId,
   onSelect,
   onCreate,
 }: EstateSelectorProps) {
-  const hasEstates = executorEstates.length > 0 || heirEstates.length > 0;
+  const hasEstates =
+    executorEstates.length > 0 ||
+    heirEstates.length > 0 ||
+    testatorEstates.length > 0 ||
+    guardianEstates.length > 0 ||
+    arbiterEstates.length > 0 ||
+    auditorEstates.length > 0 ||
+    sharedEstates.length > 0 ||
+    archivedEstates.length > 0;
 
   return (
     <div className="estate-selector">
@@ -68,6 +88,120 @@ export function EstateSelector({
           </div>
         )}
 
+        {guardianEstates.length > 0 && (
+          <div className="estate-group">
+            <h3 className="estate-group-label">
+              <Shield size={14} />
+              Guardian
+            </h3>
+            <div className="estate-list">
+              {guardianEstates.map((estate) => (
+                <EstateCard
+                  key={estate.id}
+                  estate={estate}
+                  isSelected={selectedId === estate.id}
+                  onClick={() => onSelect(estate.id)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {arbiterEstates.length > 0 && (
+          <div className="estate-group">
+            <h3 className="estate-group-label">
+              <Scale size={14} />
+              Arbiter
+            </h3>
+            <div className="estate-list">
+              {arbiterEstates.map((estate) => (
+                <EstateCard
+                  key={estate.id}
+                  estate={estate}
+                  isSelected={selectedId === estate.id}
+                  onClick={() => onSelect(estate.id)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {auditorEstates.length > 0 && (
+          <div className="estate-group">
+            <h3 className="estate-group-label">
+              <ClipboardCheck size={14} />
+              Auditor
+            </h3>
+            <div className="estate-list">
+              {auditorEstates.map((estate) => (
+                <EstateCard
+                  key={estate.id}
+                  estate={estate}
+                  isSelected={selectedId === estate.id}
+                  onClick={() => onSelect(estate.id)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {sharedEstates.length > 0 && (
+          <div className="estate-group">
+            <h3 className="estate-group-label">
+              <Share2 size={14} />
+              Shared with me
+            </h3>
+            <div className="estate-list">
+              {sharedEstates.map((estate) => (
+                <EstateCard
+                  key={estate.id}
+                  estate={estate}
+                  isSelected={selectedId === estate.id}
+                  onClick={() => onSelect(estate.id)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {testatorEstates.length > 0 && (
+          <div className="estate-group">
+            <h3 className="estate-group-label">
+              <HeartPulse size={14} />
+              My Estate
+            </h3>
+            <div className="estate-list">
+              {testatorEstates.map((estate) => (
+                <EstateCard
+                  key={estate.id}
+                  estate={estate}
+                  isSelected={selectedId === estate.id}
+                  onClick={() => onSelect(estate.id)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {archivedEstates.length > 0 && (
+          <div className="estate-group">
+            <h3 className="estate-group-label">
+              <Archive size={14} />
+              Archived
+            </h3>
+            <div className="estate-list">
+              {archivedEstates.map((estate) => (
+                <EstateCard
+                  key={estate.id}
+                  estate={estate}
+                  isSelected={selectedId === estate.id}
+                  onClick={() => onSelect(estate.id)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {!hasEstates && (
           <div className="empty-state">
             <p>No estates found.</p>
@@ -1,7 +1,10 @@
-import { Clock, CheckCircle, Users, Lock } from "lucide-react";
+import { Clock, CheckCircle, Users, Lock, Unlock, HeartPulse, Ban, Hourglass, Gavel } from "lucide-react";
 import type { EstateInfo } from "../types";
 import "./EstateStatus.css";
 
+const formatAmount = (value: bigint) =>
+  (Number(value) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
 interface EstateStatusProps {
   estate: EstateInfo;
   heirCount: number;
@@ -9,6 +12,10 @@ interface EstateStatusProps {
 
 export function EstateStatus({ estate, heirCount }: EstateStatusProps) {
   const createdDate = new Date(estate.createdAt * 1000).toLocaleDateString();
+  const isDisputed = estate.active && estate.dispute !== null;
+  const statusLabel = !estate.active
+    ? estate.finalized ? "Closed" : "Cancelled"
+    : isDisputed ? "Disputed" : estate.finalized ? "Finalized" : "Open";
 
   return (
     <div className="estate-status">
@@ -34,17 +41,67 @@ export function EstateStatus({ estate, heirCount }: EstateStatusProps) {
         </div>
 
         <div className="estate-stat">
-          <div className={`estate-stat-icon ${estate.finalized ? "success" : "warning"}`}>
-            {estate.finalized ? <Lock size={20} /> : <CheckCircle size={20} />}
+          <div className={`estate-stat-icon ${!estate.active ? "" : isDisputed ? "error" : estate.finalized ? "success" : "warning"}`}>
+            {!estate.active
+              ? <Ban size={20} />
+              : isDisputed ? <Gavel size={20} /> : estate.finalized ? <Lock size={20} /> : <CheckCircle size={20} />}
           </div>
           <div className="estate-stat-content">
             <span className="estate-stat-label">Status</span>
-            <span className={`estate-stat-value ${estate.finalized ? "text-success" : "text-warning"}`}>
-              {estate.finalized ? "Finalized" : "Open"}
+            <span className={`estate-stat-value ${!estate.active ? "text-muted" : isDisputed ? "text-error" : estate.finalized ? "text-success" : "text-warning"}`}>
+              {statusLabel}
+            </span>
+          </div>
+        </div>
+
+        {estate.finalized && (
+          <div className="estate-stat">
+            <div className={`estate-stat-icon ${estate.outstandingHeirs === 0 ? "success" : "warning"}`}>
+              <Hourglass size={20} />
+            </div>
+            <div className="estate-stat-content">
+              <span className="estate-stat-label">Outstanding</span>
+              <span className="estate-stat-value">
+                {estate.outstandingHeirs} of {heirCount}
+              </span>
+            </div>
+          </div>
+        )}
+
+        <div className="estate-stat">
+          <div className={`estate-stat-icon ${estate.claimUnlocked ? "success" : "warning"}`}>
+            {estate.claimUnlocked ? <Unlock size={20} /> : <HeartPulse size={20} />}
+          </div>
+          <div className="estate-stat-content">
+            <span className="estate-stat-label">Claims</span>
+            <span className={`estate-stat-value ${estate.claimUnlocked ? "text-success" : "text-warning"}`}>
+              {estate.claimUnlocked ? "Unlocked" : estate.deathAttestedAt > 0 ? "Attested" : "Locked"}
             </span>
           </div>
         </div>
       </div>
+
+      {estate.disclosure.disclosedAt > 0 && (
+        <div className="estate-disclosure">
+          <span className="estate-stat-label">
+            Totals disclosed on {new Date(estate.disclosure.disclosedAt * 1000).toLocaleDateString()}
+          </span>
+          {estate.disclosure.totals.map(({ token, allocated, paid }) => (
+            <div key={token.address} className="estate-disclosure-row">
+              <span>{token.symbol}</span>
+              <span>Allocated {formatAmount(allocated)}</span>
+              <span>Paid out {formatAmount(paid)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {estate.active && estate.dispute && (
+        <p className="estate-dispute-note">
+          Claims are frozen: an heir raised a dispute on {new Date(estate.dispute.raisedAt * 1000).toLocaleDateString()} and
+          the arbiter has not ruled yet.
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,109 @@
+import { History, RefreshCw } from "lucide-react";
+import type { EstateEvent, TokenInfo } from "../types";
+import "./EstateTimeline.css";
+
+interface EstateTimelineProps {
+  events: EstateEvent[];
+  tokens: TokenInfo[];
+  heir?: string;
+  isLoading: boolean;
+  onRefresh: () => void;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  EstateCreated: "Estate created",
+  HeirAdded: "Heir added",
+  HeirRemoved: "Heir removed",
+  AllocationUpdated: "Allocation updated",
+  ResiduaryHeirSet: "Residuary heir named",
+  VestingScheduleSet: "Installment schedule set",
+  ContingentAdded: "Contingent beneficiary named",
+  ContingentAllocated: "Allocation passed to contingent",
+  HeirLapsed: "Allocation lapsed",
+  DisclaimerPolicySet: "Disclaimer policy set",
+  HeirDisclaimed: "Inheritance disclaimed",
+  GuardianSet: "Guardian set",
+  MaintenanceClaimed: "Maintenance drawn",
+  ArbiterSet: "Arbiter set",
+  DisputeRaised: "Dispute raised",
+  DisputeResolved: "Dispute resolved",
+  AllocationViewGranted: "Allocation shared",
+  AllocationViewRevoked: "Allocation sharing stopped",
+  AuditorAdded: "Auditor added",
+  AuditorRemoved: "Auditor removed",
+  TotalsDisclosed: "Final totals disclosed",
+  LetterSealed: "Letter sealed",
+  RecoveryProposed: "Wallet recovery proposed",
+  RecoveryVetoed: "Wallet recovery vetoed",
+  HeirRecovered: "Moved to a new wallet",
+  CoExecutorAdded: "Co-executor added",
+  CoExecutorRemoved: "Co-executor removed",
+  ApprovalThresholdSet: "Approval threshold changed",
+  FinalizationRequested: "Finalization requested",
+  FinalizationRejected: "Finalization rejected",
+  EstateFinalized: "Estate finalized",
+  EstateCancelled: "Estate cancelled",
+  DepositRefunded: "Deposit refunded",
+  AllocationClaimed: "Allocation claimed",
+  TokensDeposited: "Deposit received",
+  TestatorCheckedIn: "Testator checked in",
+  DeathAttested: "Death attested",
+  DeathAttestationChallenged: "Death attestation challenged",
+  ClaimPeriodSet: "Claim period set",
+  AllocationExpired: "Allocation expired",
+  UnclaimedSwept: "Unclaimed balance swept",
+};
+
+const shorten = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+export function EstateTimeline({ events, tokens, heir, isLoading, onRefresh }: EstateTimelineProps) {
+  const isMine = (addr: string | null) => addr !== null && heir !== undefined && addr.toLowerCase() === heir.toLowerCase();
+
+  // Heirs see estate-wide milestones and the entries that name them, never other heirs' activity
+  const visible = heir === undefined
+    ? events
+    : events.filter((event) => event.scope === "estate" || (event.scope === "heir" && (isMine(event.heir) || isMine(event.account))));
+
+  const describe = (addr: string) => isMine(addr) ? "you" : shorten(addr);
+  const symbol = (token: string) =>
+    tokens.find((t) => t.address.toLowerCase() === token.toLowerCase())?.symbol ?? shorten(token);
+
+  return (
+    <div className="estate-timeline card">
+      <div className="timeline-header">
+        <h3>
+          <History size={18} />
+          Activity
+        </h3>
+        <button className="btn btn-secondary btn-sm" onClick={onRefresh} disabled={isLoading}>
+          <RefreshCw size={14} className={isLoading ? "spin" : undefined} />
+          Refresh
+        </button>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-muted">{isLoading ? "Loading activity..." : "No activity yet."}</p>
+      ) : (
+        <ol className="timeline-list">
+          {visible.map((event) => (
+            <li key={`${event.transactionHash}-${event.logIndex}`} className="timeline-entry">
+              <span className="timeline-dot" />
+              <div className="timeline-body">
+                <span className="timeline-label">{EVENT_LABELS[event.name] ?? event.name}</span>
+                <span className="timeline-details">
+                  {event.heir && <span className="address-short">{describe(event.heir)}</span>}
+                  {event.heir && event.account && " → "}
+                  {event.account && <span className="address-short">{describe(event.account)}</span>}
+                  {event.token && <span className="timeline-token">{symbol(event.token)}</span>}
+                </span>
+              </div>
+              <time className="timeline-time" dateTime={new Date(event.timestamp * 1000).toISOString()}>
+                {new Date(event.timestamp * 1000).toLocaleString()}
+              </time>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
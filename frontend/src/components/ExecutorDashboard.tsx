@@ -1,62 +1,172 @@
 import { useState, useEffect } from "react";
-import { Lock, RefreshCw, Coins, Settings } from "lucide-react";
+import { parseUnits, ZeroAddress } from "ethers";
+import { Lock, RefreshCw, Coins, Settings, HeartPulse, UserPlus, X, Ban, Archive, Hourglass, ShieldCheck, AlertTriangle, FileX, Landmark } from "lucide-react";
 import { EstateStatus } from "./EstateStatus";
 import { AllocationCard } from "./AllocationCard";
 import { AddHeirForm } from "./AddHeirForm";
 import { LoadingState } from "./LoadingState";
-import type { EstateInfo } from "../types";
+import { ProposalsPanel } from "./ProposalsPanel";
+import { CancelEstateModal } from "./CancelEstateModal";
+import { ContingencyTree } from "./ContingencyTree";
+import { RecoveryPanel } from "./RecoveryPanel";
+import { LetterComposer } from "./LetterComposer";
+import { EstateTimeline } from "./EstateTimeline";
+import { DISCLAIMER_POLICIES } from "../types";
+import type { AddHeirOptions, ContingencyInfo, DisclaimerInfo, DisclaimerPolicy, EstateEvent, EstateInfo, HeirInfo, ProposalInfo, RecoveryInfo, TokenAmounts, TokenInfo } from "../types";
 import "./ExecutorDashboard.css";
 
-interface HeirData {
-  address: string;
-  allocation: bigint | null;
-  claimed: boolean;
-}
+const POLICY_LABELS: Record<DisclaimerPolicy, string> = {
+  PerCapita: "Equal shares among remaining heirs",
+  Alternate: "Named alternate",
+  Residuary: "Residuary heir",
+};
 
 interface ExecutorDashboardProps {
   estateInfo: EstateInfo;
   heirs: string[];
+  allowedTokens: TokenInfo[];
+  estateTokens: TokenInfo[];
+  proposals: ProposalInfo[];
+  contingencies: ContingencyInfo[];
+  disclaimers: DisclaimerInfo[];
+  recoveries: RecoveryInfo[];
+  residuaryHeir: string | null;
+  history: EstateEvent[];
+  isTestator: boolean;
   isLoading: boolean;
-  onAddHeir: (address: string, allocation: bigint) => Promise<void>;
+  isHistoryLoading: boolean;
+  onAddHeir: (address: string, value: bigint, options: AddHeirOptions) => Promise<void>;
+  onUpdateAllocation: (address: string, value: bigint, token?: string) => Promise<void>;
   onRemoveHeir: (address: string) => Promise<void>;
+  onAddContingent: (heir: string, contingent: string, shareBps: bigint) => Promise<void>;
+  onRecordLapse: (heir: string) => Promise<void>;
+  onGetContingentShare: (heir: string, contingent: string) => Promise<bigint | null>;
   onFinalize: () => Promise<void>;
-  onMintTokens: (amount: bigint) => Promise<void>;
-  onSetupOperator: () => Promise<void>;
-  onDepositTokens: (amount: bigint) => Promise<void>;
-  onGetHeirAllocation: (address: string) => Promise<bigint | null>;
+  onCompleteFinalization: () => Promise<void>;
+  onCancelEstate: () => Promise<void>;
+  onDiscloseTotals: () => Promise<void>;
+  onCompleteDisclosure: () => Promise<void>;
+  onSetClaimPeriod: (period: number) => Promise<void>;
+  onSetDisclaimerPolicy: (policy: DisclaimerPolicy, alternate?: string) => Promise<void>;
+  onSetArbiter: (arbiter: string, window: number) => Promise<void>;
+  onSetLetter: (heir: string, text: string) => Promise<void>;
+  onAddAuditor: (auditor: string) => Promise<void>;
+  onRemoveAuditor: (auditor: string) => Promise<void>;
+  onSweepUnclaimed: () => Promise<void>;
+  onProposeRecovery: (heir: string, newAddress: string) => Promise<void>;
+  onVetoRecovery: (heir: string) => Promise<void>;
+  onExecuteRecovery: (heir: string) => Promise<void>;
+  onAttestDeath: () => Promise<void>;
+  onApproveProposal: (proposalId: number) => Promise<void>;
+  onAddCoExecutor: (address: string) => Promise<void>;
+  onRemoveCoExecutor: (address: string) => Promise<void>;
+  onSetApprovalThreshold: (threshold: number) => Promise<void>;
+  onWrapAndDeposit: (token: string, amount: bigint) => Promise<void>;
+  onDepositTokens: (token: string, amount: bigint) => Promise<void>;
+  onGetHeirAllocation: (address: string) => Promise<TokenAmounts | null>;
+  onGetHeirShare: (address: string) => Promise<bigint | null>;
+  onCheckShareHeir: (address: string) => Promise<boolean>;
   onCheckClaimed: (address: string) => Promise<boolean>;
+  onCheckDisclaimed: (address: string) => Promise<boolean>;
+  onRefreshHistory: () => void;
 }
 
 export function ExecutorDashboard({
   estateInfo,
   heirs,
+  allowedTokens,
+  estateTokens,
+  proposals,
+  contingencies,
+  disclaimers,
+  recoveries,
+  residuaryHeir,
+  history,
+  isTestator,
   isLoading,
+  isHistoryLoading,
   onAddHeir,
+  onUpdateAllocation,
   onRemoveHeir,
+  onAddContingent,
+  onRecordLapse,
+  onGetContingentShare,
   onFinalize,
-  onMintTokens,
-  onSetupOperator,
+  onCompleteFinalization,
+  onCancelEstate,
+  onDiscloseTotals,
+  onCompleteDisclosure,
+  onSetClaimPeriod,
+  onSetDisclaimerPolicy,
+  onSetArbiter,
+  onSetLetter,
+  onAddAuditor,
+  onRemoveAuditor,
+  onSweepUnclaimed,
+  onProposeRecovery,
+  onVetoRecovery,
+  onExecuteRecovery,
+  onAttestDeath,
+  onApproveProposal,
+  onAddCoExecutor,
+  onRemoveCoExecutor,
+  onSetApprovalThreshold,
+  onWrapAndDeposit,
   onDepositTokens,
   onGetHeirAllocation,
+  onGetHeirShare,
+  onCheckShareHeir,
   onCheckClaimed,
+  onCheckDisclaimed,
+  onRefreshHistory,
 }: ExecutorDashboardProps) {
-  const [heirData, setHeirData] = useState<Map<string, HeirData>>(new Map());
+  const [heirData, setHeirData] = useState<Map<string, HeirInfo>>(new Map());
   const [isFinalizing, setIsFinalizing] = useState(false);
-  const [mintAmount, setMintAmount] = useState("");
+  const [isAttesting, setIsAttesting] = useState(false);
+  const [setupToken, setSetupToken] = useState("");
+  const [wrapAmount, setWrapAmount] = useState("");
   const [depositAmount, setDepositAmount] = useState("");
+  const [coExecutorAddress, setCoExecutorAddress] = useState("");
+  const [threshold, setThreshold] = useState("");
+  const [claimPeriodDays, setClaimPeriodDays] = useState("");
+  const [disclaimerPolicy, setDisclaimerPolicy] = useState<DisclaimerPolicy>(estateInfo.disclaimerPolicy);
+  const [disclaimerAlternate, setDisclaimerAlternate] = useState(estateInfo.disclaimerAlternate ?? "");
+  const [arbiterAddress, setArbiterAddress] = useState("");
+  const [disputeWindowDays, setDisputeWindowDays] = useState("30");
+  const [auditorAddress, setAuditorAddress] = useState("");
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [isDisclosing, setIsDisclosing] = useState(false);
   const [isSettingUp, setIsSettingUp] = useState(false);
   const [showSetup, setShowSetup] = useState(false);
+  const [showCancelModal, setShowCancelModal] = useState(false);
+
+  const selectedToken = setupToken || allowedTokens[0]?.address;
+  const selectedUnderlying = allowedTokens.find((t) => t.address === selectedToken)?.underlying;
+  const isOpen = estateInfo.active && !estateInfo.finalized && !estateInfo.finalizationPending;
+  const canSweep = estateInfo.active &&
+    estateInfo.finalized &&
+    !estateInfo.dispute &&
+    estateInfo.claimDeadline > 0 &&
+    Date.now() / 1000 > estateInfo.claimDeadline;
+  // Totals are final once every heir has claimed or the unclaimed remainder was swept
+  const canDisclose = estateInfo.finalized &&
+    (!estateInfo.active || estateInfo.outstandingHeirs === 0) &&
+    estateInfo.disclosure.disclosedAt === 0;
 
   // Load heir data
   useEffect(() => {
     const loadHeirData = async () => {
-      const data = new Map<string, HeirData>();
+      const data = new Map<string, HeirInfo>();
       for (const addr of heirs) {
         const claimed = await onCheckClaimed(addr);
+        const isShare = await onCheckShareHeir(addr);
         data.set(addr, {
           address: addr,
           allocation: null,
           claimed,
+          disclaimed: claimed && await onCheckDisclaimed(addr),
+          mode: isShare ? "percentage" : "amount",
+          shareBps: null,
         });
       }
       setHeirData(data);
@@ -65,15 +175,42 @@ export function ExecutorDashboard({
     if (heirs.length > 0) {
       loadHeirData();
     }
-  }, [heirs, onCheckClaimed]);
+  }, [heirs, onCheckClaimed, onCheckShareHeir, onCheckDisclaimed]);
+
+  // Re-check claim status when the outstanding count changes, e.g. after another heir claims
+  useEffect(() => {
+    const refreshClaims = async () => {
+      const statuses = await Promise.all(
+        heirs.map(async (addr) => {
+          const claimed = await onCheckClaimed(addr);
+          return { addr, claimed, disclaimed: claimed && await onCheckDisclaimed(addr) };
+        })
+      );
+      setHeirData((prev) => {
+        const updated = new Map(prev);
+        for (const { addr, claimed, disclaimed } of statuses) {
+          const existing = updated.get(addr);
+          if (existing) updated.set(addr, { ...existing, claimed, disclaimed });
+        }
+        return updated;
+      });
+    };
+
+    if (heirs.length > 0) {
+      refreshClaims();
+    }
+  }, [heirs, estateInfo.outstandingHeirs, onCheckClaimed, onCheckDisclaimed]);
 
   const handleDecryptAllocation = async (address: string) => {
     const allocation = await onGetHeirAllocation(address);
+    const shareBps = heirData.get(address)?.mode === "percentage"
+      ? await onGetHeirShare(address)
+      : null;
     setHeirData((prev) => {
       const updated = new Map(prev);
       const existing = updated.get(address);
       if (existing) {
-        updated.set(address, { ...existing, allocation });
+        updated.set(address, { ...existing, allocation, shareBps });
       }
       return updated;
     });
@@ -88,22 +225,38 @@ export function ExecutorDashboard({
     }
   };
 
-  const handleMint = async () => {
-    const amount = parseFloat(mintAmount);
-    if (isNaN(amount) || amount <= 0) return;
-    setIsSettingUp(true);
+  const handleCompleteFinalization = async () => {
+    setIsFinalizing(true);
     try {
-      await onMintTokens(BigInt(Math.floor(amount * 1_000_000)));
-      setMintAmount("");
+      await onCompleteFinalization();
     } finally {
-      setIsSettingUp(false);
+      setIsFinalizing(false);
+    }
+  };
+
+  const handleAttestDeath = async () => {
+    setIsAttesting(true);
+    try {
+      await onAttestDeath();
+    } finally {
+      setIsAttesting(false);
     }
   };
 
-  const handleSetupOperator = async () => {
+  const handleWrapAndDeposit = async () => {
+    if (!selectedToken || !selectedUnderlying) return;
+    let amount: bigint;
+    try {
+      // Underlying units use the ERC-20's own decimals; the wrapper converts to 6
+      amount = parseUnits(wrapAmount, selectedUnderlying.decimals);
+    } catch {
+      return;
+    }
+    if (amount <= BigInt(0)) return;
     setIsSettingUp(true);
     try {
-      await onSetupOperator();
+      await onWrapAndDeposit(selectedToken, amount);
+      setWrapAmount("");
     } finally {
       setIsSettingUp(false);
     }
@@ -111,16 +264,126 @@ export function ExecutorDashboard({
 
   const handleDeposit = async () => {
     const amount = parseFloat(depositAmount);
-    if (isNaN(amount) || amount <= 0) return;
+    if (isNaN(amount) || amount <= 0 || !selectedToken) return;
     setIsSettingUp(true);
     try {
-      await onDepositTokens(BigInt(Math.floor(amount * 1_000_000)));
+      await onDepositTokens(selectedToken, BigInt(Math.floor(amount * 1_000_000)));
       setDepositAmount("");
     } finally {
       setIsSettingUp(false);
     }
   };
 
+  const handleAddCoExecutor = async () => {
+    if (!coExecutorAddress.startsWith("0x") || coExecutorAddress.length !== 42) return;
+    setIsSettingUp(true);
+    try {
+      await onAddCoExecutor(coExecutorAddress);
+      setCoExecutorAddress("");
+    } finally {
+      setIsSettingUp(false);
+    }
+  };
+
+  const handleRemoveCoExecutor = async (address: string) => {
+    setIsSettingUp(true);
+    try {
+      await onRemoveCoExecutor(address);
+    } finally {
+      setIsSettingUp(false);
+    }
+  };
+
+  const handleAddAuditor = async () => {
+    if (!auditorAddress.startsWith("0x") || auditorAddress.length !== 42) return;
+    setIsSettingUp(true);
+    try {
+      await onAddAuditor(auditorAddress);
+      setAuditorAddress("");
+    } finally {
+      setIsSettingUp(false);
+    }
+  };
+
+  const handleRemoveAuditor = async (address: string) => {
+    setIsSettingUp(true);
+    try {
+      await onRemoveAuditor(address);
+    } finally {
+      setIsSettingUp(false);
+    }
+  };
+
+  const handleSetThreshold = async () => {
+    const value = parseInt(threshold, 10);
+    if (isNaN(value) || value < 1) return;
+    setIsSettingUp(true);
+    try {
+      await onSetApprovalThreshold(value);
+      setThreshold("");
+    } finally {
+      setIsSettingUp(false);
+    }
+  };
+
+  const handleSetClaimPeriod = async () => {
+    const days = parseFloat(claimPeriodDays);
+    if (isNaN(days) || days < 0) return;
+    setIsSettingUp(true);
+    try {
+      await onSetClaimPeriod(Math.round(days * 24 * 60 * 60));
+      setClaimPeriodDays("");
+    } finally {
+      setIsSettingUp(false);
+    }
+  };
+
+  const handleSetDisclaimerPolicy = async () => {
+    if (disclaimerPolicy === "Alternate" && !disclaimerAlternate) return;
+    setIsSettingUp(true);
+    try {
+      await onSetDisclaimerPolicy(
+        disclaimerPolicy,
+        disclaimerPolicy === "Alternate" ? disclaimerAlternate : undefined
+      );
+    } finally {
+      setIsSettingUp(false);
+    }
+  };
+
+  const handleSetArbiter = async (remove: boolean) => {
+    const days = parseFloat(disputeWindowDays);
+    if (!remove && (!arbiterAddress.startsWith("0x") || arbiterAddress.length !== 42 || isNaN(days) || days <= 0)) return;
+    setIsSettingUp(true);
+    try {
+      await onSetArbiter(
+        remove ? ZeroAddress : arbiterAddress,
+        remove ? 0 : Math.round(days * 24 * 60 * 60)
+      );
+      setArbiterAddress("");
+    } finally {
+      setIsSettingUp(false);
+    }
+  };
+
+  const handleSweep = async () => {
+    setIsSweeping(true);
+    try {
+      await onSweepUnclaimed();
+    } finally {
+      setIsSweeping(false);
+    }
+  };
+
+  const handleDisclose = async () => {
+    setIsDisclosing(true);
+    try {
+      await (estateInfo.disclosure.requested ? onCompleteDisclosure() : onDiscloseTotals());
+    } finally {
+      setIsDisclosing(false);
+    }
+  };
+
   if (isLoading) {
     return <LoadingState message="Loading estate..." />;
   }
@@ -131,56 +394,82 @@ export function ExecutorDashboard({
         <div>
           <h1>{estateInfo.name}</h1>
           <p className="text-secondary">
-            Manage heirs and allocations for this estate.
+            {estateInfo.active
+              ? "Manage heirs and allocations for this estate."
+              : estateInfo.finalized
+                ? "The claim period ended and unclaimed allocations were swept."
+                : "This estate was cancelled and its deposits were refunded."}
           </p>
         </div>
-        <button
-          className="btn btn-secondary"
-          onClick={() => setShowSetup(!showSetup)}
-        >
-          <Settings size={16} />
-          Setup
-        </button>
+        {estateInfo.active && (
+          <div className="dashboard-actions">
+            {!estateInfo.finalized && !estateInfo.finalizationPending && (
+              <button
+                className="btn btn-secondary"
+                onClick={() => setShowCancelModal(true)}
+              >
+                <Ban size={16} />
+                Cancel Estate
+              </button>
+            )}
+            <button
+              className="btn btn-secondary"
+              onClick={() => setShowSetup(!showSetup)}
+            >
+              <Settings size={16} />
+              Setup
+            </button>
+          </div>
+        )}
       </div>
 
-      {showSetup && (
+      {!estateInfo.active && (
+        <div className="archived-banner">
+          <Archive size={20} />
+          <p>Archived. Heirs can no longer claim from this estate.</p>
+        </div>
+      )}
+
+      {showSetup && estateInfo.active && (
         <div className="setup-section card">
           <h3>Token Setup</h3>
-          <p className="text-muted mb-4">Mint tokens and deposit them into the distribution contract.</p>
+          <p className="text-muted mb-4">Wrap an ERC-20 straight into the estate, or deposit confidential tokens you already hold.</p>
 
           <div className="setup-grid">
             <div className="setup-item">
-              <label>Mint Tokens</label>
+              <label>Asset</label>
+              <select
+                value={selectedToken ?? ""}
+                onChange={(e) => setSetupToken(e.target.value)}
+                disabled={isSettingUp || allowedTokens.length === 0}
+              >
+                {allowedTokens.map((token) => (
+                  <option key={token.address} value={token.address}>{token.symbol}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="setup-item">
+              <label>Wrap &amp; Deposit</label>
               <div className="setup-input-group">
                 <input
                   type="number"
-                  placeholder="Amount"
-                  value={mintAmount}
-                  onChange={(e) => setMintAmount(e.target.value)}
-                  disabled={isSettingUp}
+                  placeholder={selectedUnderlying ? `Amount (${selectedUnderlying.symbol})` : "Not a wrapped asset"}
+                  value={wrapAmount}
+                  onChange={(e) => setWrapAmount(e.target.value)}
+                  disabled={isSettingUp || !selectedUnderlying}
                 />
                 <button
                   className="btn btn-secondary"
-                  onClick={handleMint}
-                  disabled={isSettingUp || !mintAmount}
+                  onClick={handleWrapAndDeposit}
+                  disabled={isSettingUp || !selectedUnderlying || !wrapAmount}
                 >
                   <Coins size={14} />
-                  Mint
+                  Wrap &amp; Deposit
                 </button>
               </div>
             </div>
 
-            <div className="setup-item">
-              <label>Setup Operator</label>
-              <button
-                className="btn btn-secondary w-full"
-                onClick={handleSetupOperator}
-                disabled={isSettingUp}
-              >
-                Enable Distribution Contract
-              </button>
-            </div>
-
             <div className="setup-item">
               <label>Deposit to Contract</label>
               <div className="setup-input-group">
@@ -201,16 +490,380 @@ export function ExecutorDashboard({
               </div>
             </div>
           </div>
+
+          {!estateInfo.finalized && (
+            <>
+              <h3 className="mt-8">Claim Period</h3>
+              <p className="text-muted mb-4">
+                {estateInfo.claimPeriod > 0
+                  ? `Heirs have ${Math.round(estateInfo.claimPeriod / 86_400)} days to claim once claims unlock.`
+                  : "Heirs can claim indefinitely. Set a period to let unclaimed allocations be swept."}
+                {estateInfo.approvalThreshold > 1 && " Changing the claim period needs an approval threshold of 1."}
+              </p>
+              <div className="setup-grid">
+                <div className="setup-item">
+                  <label>Claim Period (days, 0 = no limit)</label>
+                  <div className="setup-input-group">
+                    <input
+                      type="number"
+                      min="0"
+                      placeholder="Days"
+                      value={claimPeriodDays}
+                      onChange={(e) => setClaimPeriodDays(e.target.value)}
+                      disabled={isSettingUp}
+                    />
+                    <button
+                      className="btn btn-secondary"
+                      onClick={handleSetClaimPeriod}
+                      disabled={isSettingUp || estateInfo.approvalThreshold > 1 || !claimPeriodDays}
+                    >
+                      Set
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              <h3 className="mt-8">Disclaimers</h3>
+              <p className="text-muted mb-4">
+                If an heir disclaims, their allocation goes to: {POLICY_LABELS[estateInfo.disclaimerPolicy].toLowerCase()}
+                {estateInfo.disclaimerAlternate &&
+                  ` (${estateInfo.disclaimerAlternate.slice(0, 6)}...${estateInfo.disclaimerAlternate.slice(-4)})`}.
+                {" "}Equal shares go to the heirs who have not claimed yet, whatever their allocations.
+                {estateInfo.approvalThreshold > 1 && " Naming an alternate needs an approval threshold of 1."}
+              </p>
+              <div className="setup-grid">
+                <div className="setup-item">
+                  <label>Disclaimer Policy</label>
+                  <select
+                    value={disclaimerPolicy}
+                    onChange={(e) => setDisclaimerPolicy(e.target.value as DisclaimerPolicy)}
+                    disabled={isSettingUp}
+                  >
+                    {DISCLAIMER_POLICIES.map((policy) => (
+                      <option key={policy} value={policy}>{POLICY_LABELS[policy]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="setup-item">
+                  <label>Alternate Beneficiary</label>
+                  <div className="setup-input-group">
+                    <input
+                      type="text"
+                      placeholder="0x..."
+                      value={disclaimerAlternate}
+                      onChange={(e) => setDisclaimerAlternate(e.target.value)}
+                      disabled={isSettingUp || disclaimerPolicy !== "Alternate"}
+                    />
+                    <button
+                      className="btn btn-secondary"
+                      onClick={handleSetDisclaimerPolicy}
+                      disabled={isSettingUp || (disclaimerPolicy === "Alternate"
+                        && (!disclaimerAlternate || estateInfo.approvalThreshold > 1))}
+                    >
+                      Set
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              <h3 className="mt-8">Arbiter</h3>
+              <p className="text-muted mb-4">
+                {estateInfo.arbiter
+                  ? `${estateInfo.arbiter.slice(0, 6)}...${estateInfo.arbiter.slice(-4)} settles disputes heirs raise within ${Math.round(estateInfo.disputeWindow / 86_400)} days of finalization.`
+                  : "No arbiter. Name a neutral party who can freeze claims if an heir contests the finalized estate."}
+                {estateInfo.approvalThreshold > 1 && " Changing the arbiter needs an approval threshold of 1."}
+              </p>
+              <div className="setup-grid">
+                <div className="setup-item">
+                  <label>Arbiter Address</label>
+                  <input
+                    type="text"
+                    placeholder="0x..."
+                    value={arbiterAddress}
+                    onChange={(e) => setArbiterAddress(e.target.value)}
+                    disabled={isSettingUp}
+                  />
+                </div>
+
+                <div className="setup-item">
+                  <label>Dispute Window (days)</label>
+                  <div className="setup-input-group">
+                    <input
+                      type="number"
+                      min="1"
+                      placeholder="Days"
+                      value={disputeWindowDays}
+                      onChange={(e) => setDisputeWindowDays(e.target.value)}
+                      disabled={isSettingUp}
+                    />
+                    <button
+                      className="btn btn-secondary"
+                      onClick={() => handleSetArbiter(false)}
+                      disabled={isSettingUp || estateInfo.approvalThreshold > 1 || !arbiterAddress || !disputeWindowDays}
+                    >
+                      Set
+                    </button>
+                    {estateInfo.arbiter && (
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => handleSetArbiter(true)}
+                        disabled={isSettingUp || estateInfo.approvalThreshold > 1}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+
+          <h3 className="mt-8">Co-Executors</h3>
+          <p className="text-muted mb-4">
+            {estateInfo.approvalThreshold > 1
+              ? `Changes here are proposals that need ${estateInfo.approvalThreshold} approvals.`
+              : "Co-executors can manage this estate and approve sensitive actions."}
+          </p>
+
+          {estateInfo.coExecutors.length > 0 && (
+            <div className="co-executor-list mb-4">
+              {estateInfo.coExecutors.map((addr) => (
+                <span key={addr} className="co-executor-chip">
+                  <span className="address-short">{addr.slice(0, 6)}...{addr.slice(-4)}</span>
+                  <button
+                    className="btn-icon"
+                    onClick={() => handleRemoveCoExecutor(addr)}
+                    disabled={isSettingUp}
+                  >
+                    <X size={14} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="setup-grid">
+            <div className="setup-item">
+              <label>Add Co-Executor</label>
+              <div className="setup-input-group">
+                <input
+                  type="text"
+                  placeholder="0x..."
+                  value={coExecutorAddress}
+                  onChange={(e) => setCoExecutorAddress(e.target.value)}
+                  disabled={isSettingUp}
+                />
+                <button
+                  className="btn btn-secondary"
+                  onClick={handleAddCoExecutor}
+                  disabled={isSettingUp || !coExecutorAddress}
+                >
+                  <UserPlus size={14} />
+                  Add
+                </button>
+              </div>
+            </div>
+
+            <div className="setup-item">
+              <label>Approval Threshold (now {estateInfo.approvalThreshold} of {estateInfo.coExecutors.length + 1})</label>
+              <div className="setup-input-group">
+                <input
+                  type="number"
+                  min="1"
+                  max={estateInfo.coExecutors.length + 1}
+                  placeholder="Approvals"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  disabled={isSettingUp}
+                />
+                <button
+                  className="btn btn-secondary"
+                  onClick={handleSetThreshold}
+                  disabled={isSettingUp || !threshold}
+                >
+                  Set
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <h3 className="mt-8">Auditors</h3>
+          <p className="text-muted mb-4">
+            Auditors, such as a probate court, can decrypt the estate's balance, final total allocated and total
+            paid out, but never an heir's allocation. They can be added once the estate is finalized.
+          </p>
+
+          {estateInfo.auditors.length > 0 && (
+            <div className="co-executor-list mb-4">
+              {estateInfo.auditors.map((addr) => (
+                <span key={addr} className="co-executor-chip">
+                  <span className="address-short">{addr.slice(0, 6)}...{addr.slice(-4)}</span>
+                  <button
+                    className="btn-icon"
+                    onClick={() => handleRemoveAuditor(addr)}
+                    disabled={isSettingUp}
+                  >
+                    <X size={14} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="setup-grid">
+            <div className="setup-item">
+              <label>Add Auditor</label>
+              <div className="setup-input-group">
+                <input
+                  type="text"
+                  placeholder="0x..."
+                  value={auditorAddress}
+                  onChange={(e) => setAuditorAddress(e.target.value)}
+                  disabled={isSettingUp || !estateInfo.finalized}
+                />
+                <button
+                  className="btn btn-secondary"
+                  onClick={handleAddAuditor}
+                  disabled={isSettingUp || !estateInfo.finalized || !auditorAddress}
+                >
+                  <UserPlus size={14} />
+                  Add
+                </button>
+              </div>
+            </div>
+          </div>
         </div>
       )}
 
+      {estateInfo.active && (estateInfo.approvalThreshold > 1 || proposals.length > 0) && (
+        <ProposalsPanel
+          proposals={proposals}
+          threshold={estateInfo.approvalThreshold}
+          onApprove={onApproveProposal}
+        />
+      )}
+
       <EstateStatus estate={estateInfo} heirCount={heirs.length} />
 
+      {estateInfo.active && estateInfo.finalizationPending && (
+        <div className="testator-section card">
+          <div>
+            <h3>Finalization Pending</h3>
+            <p className="text-muted">
+              The encrypted solvency check has been published. Allocations are locked until its
+              decryption proof is submitted.
+            </p>
+          </div>
+          <button
+            className="btn btn-primary"
+            onClick={handleCompleteFinalization}
+            disabled={isFinalizing}
+          >
+            {isFinalizing ? <RefreshCw size={16} className="spin" /> : <ShieldCheck size={16} />}
+            {isFinalizing ? "Verifying..." : "Complete Finalization"}
+          </button>
+        </div>
+      )}
+
+      {isOpen && estateInfo.finalizationRejected && (
+        <div className="finalization-rejected">
+          <AlertTriangle size={20} />
+          <p>
+            Finalization was rejected: the allocations of at least one asset exceed its balance. Deposit more tokens or
+            reduce allocations, then finalize again.
+          </p>
+        </div>
+      )}
+
+      {canSweep && (
+        <div className="testator-section card">
+          <div>
+            <h3>Claim Period Ended</h3>
+            <p className="text-muted">
+              {estateInfo.outstandingHeirs} heir(s) did not claim by{" "}
+              {new Date(estateInfo.claimDeadline * 1000).toLocaleDateString()}. Sweeping sends the
+              remaining balance to {residuaryHeir ? "the residuary heir" : "the primary executor"} and closes the estate.
+            </p>
+          </div>
+          <button
+            className="btn btn-primary"
+            onClick={handleSweep}
+            disabled={isSweeping}
+          >
+            <Hourglass size={16} />
+            {isSweeping ? "Sweeping..." : "Sweep Unclaimed"}
+          </button>
+        </div>
+      )}
+
+      {canDisclose && (
+        <div className="testator-section card">
+          <div>
+            <h3>Disclose Final Totals</h3>
+            <p className="text-muted">
+              Publish the total allocated and total paid out of every asset, e.g. for the estate tax filing.
+              The totals become public for good; individual allocations stay private.
+            </p>
+          </div>
+          <button
+            className="btn btn-primary"
+            onClick={handleDisclose}
+            disabled={isDisclosing}
+          >
+            {isDisclosing ? <RefreshCw size={16} className="spin" /> : <Landmark size={16} />}
+            {isDisclosing ? "Disclosing..." : estateInfo.disclosure.requested ? "Complete Disclosure" : "Disclose Totals"}
+          </button>
+        </div>
+      )}
+
+      <div className="testator-section card">
+        <div>
+          <h3>Testator</h3>
+          <p className="text-muted">
+            <span className="address-short">{estateInfo.testator.slice(0, 6)}...{estateInfo.testator.slice(-4)}</span>
+            {" "}last checked in {new Date(estateInfo.lastCheckIn * 1000).toLocaleDateString()}
+            {estateInfo.deathAttestedAt > 0 &&
+              ` · death attested ${new Date(estateInfo.deathAttestedAt * 1000).toLocaleDateString()}`}
+            {estateInfo.active && !estateInfo.claimUnlocked && estateInfo.deathAttestedAt === 0
+              && estateInfo.approvalThreshold > 1 && " · attesting death needs an approval threshold of 1"}
+          </p>
+        </div>
+        {estateInfo.active && !estateInfo.claimUnlocked && estateInfo.deathAttestedAt === 0 && (
+          <button
+            className="btn btn-secondary"
+            onClick={handleAttestDeath}
+            disabled={isAttesting || estateInfo.approvalThreshold > 1}
+          >
+            <HeartPulse size={16} />
+            {isAttesting ? "Attesting..." : "Attest Death"}
+          </button>
+        )}
+      </div>
+
+      {disclaimers.length > 0 && (
+        <div className="disclaimer-history card">
+          <h3>Disclaimers</h3>
+          <ul>
+            {disclaimers.map((entry) => (
+              <li key={entry.heir}>
+                <FileX size={16} />
+                <span className="address-short">{entry.heir.slice(0, 6)}...{entry.heir.slice(-4)}</span>
+                <span className="text-muted">
+                  disclaimed on {new Date(entry.timestamp * 1000).toLocaleDateString()} · redistributed to{" "}
+                  {POLICY_LABELS[entry.policy].toLowerCase()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="dashboard-content">
         <div className="heirs-section">
           <div className="section-header">
             <h2>Heirs ({heirs.length})</h2>
-            {!estateInfo.finalized && heirs.length > 0 && (
+            {isOpen && heirs.length > 0 && (
               <button
                 className="btn btn-primary"
                 onClick={handleFinalize}
@@ -243,10 +896,16 @@ export function ExecutorDashboard({
                   <AllocationCard
                     key={addr}
                     address={addr}
+                    tokens={estateTokens}
                     allocation={data?.allocation ?? null}
                     claimed={data?.claimed ?? false}
+                    disclaimed={data?.disclaimed ?? false}
+                    shareBps={data?.shareBps ?? null}
+                    isShareHeir={data?.mode === "percentage"}
+                    isResiduary={residuaryHeir?.toLowerCase() === addr.toLowerCase()}
                     onDecrypt={() => handleDecryptAllocation(addr)}
-                    showActions={!estateInfo.finalized}
+                    showActions={isOpen}
+                    onEdit={(value, token) => onUpdateAllocation(addr, value, token)}
                     onRemove={() => onRemoveHeir(addr)}
                   />
                 );
@@ -255,12 +914,51 @@ export function ExecutorDashboard({
           )}
         </div>
 
-        {!estateInfo.finalized && (
+        {isOpen && (
           <div className="add-heir-section">
-            <AddHeirForm onAddHeir={onAddHeir} isLoading={isLoading} />
+            <AddHeirForm tokens={allowedTokens} onAddHeir={onAddHeir} isLoading={isLoading} />
           </div>
         )}
       </div>
+
+      {estateInfo.active && (
+        <ContingencyTree
+          contingencies={contingencies}
+          finalized={estateInfo.finalized}
+          onAddContingent={onAddContingent}
+          onRecordLapse={onRecordLapse}
+          onGetShare={onGetContingentShare}
+        />
+      )}
+
+      {estateInfo.active && (heirs.length > 0 || recoveries.length > 0) && (
+        <RecoveryPanel
+          heirs={heirs}
+          recoveries={recoveries}
+          onPropose={onProposeRecovery}
+          onVeto={onVetoRecovery}
+          onExecute={onExecuteRecovery}
+        />
+      )}
+
+      {isTestator && estateInfo.active && !estateInfo.finalized && heirs.length > 0 && (
+        <LetterComposer heirs={heirs} onSetLetter={onSetLetter} />
+      )}
+
+      <EstateTimeline
+        events={history}
+        tokens={estateTokens}
+        isLoading={isHistoryLoading}
+        onRefresh={onRefreshHistory}
+      />
+
+      <CancelEstateModal
+        isOpen={showCancelModal}
+        estateName={estateInfo.name}
+        requiresProposal={estateInfo.approvalThreshold > 1}
+        onClose={() => setShowCancelModal(false)}
+        onConfirm={onCancelEstate}
+      />
     </div>
   );
 }
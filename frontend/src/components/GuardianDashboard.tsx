@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Eye, RefreshCw, Banknote, AlertCircle, CheckCircle } from "lucide-react";
+import { EstateStatus } from "./EstateStatus";
+import { LoadingState } from "./LoadingState";
+import type { EstateInfo, TokenInfo, WardAmounts, WardInfo } from "../types";
+import "./GuardianDashboard.css";
+
+interface GuardianDashboardProps {
+  estateInfo: EstateInfo;
+  heirCount: number;
+  tokens: TokenInfo[];
+  wards: WardInfo[];
+  isLoading: boolean;
+  onGetWardAmounts: (heir: string) => Promise<WardAmounts | null>;
+  onClaimMaintenance: (heir: string, token: string, amount: bigint) => Promise<void>;
+}
+
+const formatAmount = (value: bigint | undefined) => value !== undefined
+  ? (Number(value) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 6 })
+  : "---";
+
+export function GuardianDashboard({
+  estateInfo,
+  heirCount,
+  tokens,
+  wards,
+  isLoading,
+  onGetWardAmounts,
+  onClaimMaintenance,
+}: GuardianDashboardProps) {
+  if (isLoading) {
+    return <LoadingState message="Loading your wards..." />;
+  }
+
+  return (
+    <div className="guardian-dashboard">
+      <div className="dashboard-header">
+        <h1>{estateInfo.name}</h1>
+        <p className="text-secondary">
+          You are the guardian of {wards.length === 1 ? "a minor heir" : `${wards.length} minor heirs`} of this estate.
+        </p>
+      </div>
+
+      <EstateStatus estate={estateInfo} heirCount={heirCount} />
+
+      {wards.map((ward) => (
+        <WardCard
+          key={ward.heir}
+          ward={ward}
+          estateInfo={estateInfo}
+          tokens={tokens}
+          onGetAmounts={() => onGetWardAmounts(ward.heir)}
+          onClaimMaintenance={(token, amount) => onClaimMaintenance(ward.heir, token, amount)}
+        />
+      ))}
+
+      <div className="privacy-notice">
+        <p>
+          Your wards' allocations are encrypted and visible to you only until they come of age.
+          From then on, only the heir can claim what remains.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface WardCardProps {
+  ward: WardInfo;
+  estateInfo: EstateInfo;
+  tokens: TokenInfo[];
+  onGetAmounts: () => Promise<WardAmounts | null>;
+  onClaimMaintenance: (token: string, amount: bigint) => Promise<void>;
+}
+
+function WardCard({ ward, estateInfo, tokens, onGetAmounts, onClaimMaintenance }: WardCardProps) {
+  const [amounts, setAmounts] = useState<WardAmounts | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [tokenAddress, setTokenAddress] = useState("");
+  const [amount, setAmount] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+
+  const reachedMajority = ward.majorityAt * 1000 <= Date.now();
+  const canClaim = estateInfo.active && estateInfo.finalized && estateInfo.claimUnlocked
+    && !reachedMajority && !ward.claimed && ward.maintenanceBps > 0 && tokens.length > 0;
+  const token = tokens.find((t) => t.address === tokenAddress) ?? tokens[0];
+
+  const remainingOf = (address: string) => {
+    if (!amounts) return undefined;
+    const limit = ((amounts.allocation.get(address) ?? BigInt(0)) * BigInt(ward.maintenanceBps)) / BigInt(10000);
+    const drawn = amounts.maintenance.get(address) ?? BigInt(0);
+    return limit > drawn ? limit - drawn : BigInt(0);
+  };
+
+  const handleDecrypt = async () => {
+    setIsDecrypting(true);
+    try {
+      setAmounts(await onGetAmounts());
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleClaim = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setError("Please enter a valid amount");
+      return;
+    }
+
+    setIsClaiming(true);
+    try {
+      await onClaimMaintenance(token.address, BigInt(Math.floor(amountNum * 1_000_000)));
+      setAmount("");
+      setAmounts(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to claim maintenance");
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div className="card ward-card">
+      <div className="ward-card-header">
+        <span className="address-short">{ward.heir.slice(0, 6)}...{ward.heir.slice(-4)}</span>
+        {ward.claimed ? (
+          <span className="badge badge-success">
+            <CheckCircle size={12} />
+            Claimed
+          </span>
+        ) : (
+          <span className="text-muted">
+            {reachedMajority ? "Came of age" : "Comes of age"} on {new Date(ward.majorityAt * 1000).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+
+      <p className="ward-terms text-secondary">
+        Maintenance limit: {(ward.maintenanceBps / 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}% of each allocation
+      </p>
+
+      {amounts ? (
+        <div className="ward-breakdown">
+          <span className="claim-label">Asset</span>
+          <span className="claim-label">Allocation</span>
+          <span className="claim-label">Maintenance</span>
+          <span className="claim-label">Available</span>
+          {tokens.map((t) => (
+            <div key={t.address} className="ward-breakdown-row">
+              <span>{t.symbol}</span>
+              <span>{formatAmount(amounts.allocation.get(t.address))}</span>
+              <span>{formatAmount(amounts.maintenance.get(t.address))}</span>
+              <span>{formatAmount(remainingOf(t.address))}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        !reachedMajority && (
+          <button className="btn btn-secondary btn-sm" onClick={handleDecrypt} disabled={isDecrypting}>
+            {isDecrypting ? (
+              <>
+                <RefreshCw size={14} className="spin" />
+                Decrypting...
+              </>
+            ) : (
+              <>
+                <Eye size={14} />
+                View Allocation
+              </>
+            )}
+          </button>
+        )
+      )}
+
+      {canClaim && (
+        <form className="maintenance-form" onSubmit={handleClaim}>
+          {tokens.length > 1 && (
+            <select
+              value={token.address}
+              onChange={(e) => setTokenAddress(e.target.value)}
+              disabled={isClaiming}
+            >
+              {tokens.map((t) => (
+                <option key={t.address} value={t.address}>{t.symbol}</option>
+              ))}
+            </select>
+          )}
+          <input
+            type="number"
+            placeholder={`Amount (${token.symbol})`}
+            step="0.000001"
+            min="0"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            disabled={isClaiming}
+          />
+          <button type="submit" className="btn btn-primary" disabled={isClaiming || !amount}>
+            <Banknote size={14} />
+            {isClaiming ? "Claiming..." : "Claim Maintenance"}
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="error-message flex items-center gap-2 mt-4">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,104 @@
 import { useState } from "react";
-import { Eye, RefreshCw } from "lucide-react";
+import { Eye, RefreshCw, FileX, KeyRound, ShieldAlert, Shield, Gavel } from "lucide-react";
 import { EstateStatus } from "./EstateStatus";
 import { ClaimButton } from "./ClaimButton";
 import { LoadingState } from "./LoadingState";
-import type { EstateInfo } from "../types";
+import { ClaimCountdown } from "./ClaimCountdown";
+import { UnwrapForm } from "./UnwrapForm";
+import { DisclaimModal } from "./DisclaimModal";
+import { AllocationSharingPanel } from "./AllocationSharingPanel";
+import { LetterPanel } from "./LetterPanel";
+import { EstateTimeline } from "./EstateTimeline";
+import type { EstateEvent, EstateInfo, GuardianshipInfo, RecoveryInfo, TokenAmounts, TokenInfo, VestingInfo } from "../types";
 import "./HeirDashboard.css";
 
 interface HeirDashboardProps {
   estateInfo: EstateInfo;
   heirCount: number;
-  myAllocation: bigint | null;
+  tokens: TokenInfo[];
+  myAllocation: TokenAmounts | null;
+  myShareBps: bigint | null;
+  myPaid: TokenAmounts | null;
+  myVesting: VestingInfo | null;
   hasClaimed: boolean;
+  hasDisclaimed: boolean;
+  pendingRecovery: RecoveryInfo | null;
+  guardianship: GuardianshipInfo | null;
+  viewers: string[];
+  hasLetter: boolean;
+  address: string;
+  history: EstateEvent[];
   isLoading: boolean;
+  isHistoryLoading: boolean;
   onDecryptAllocation: () => Promise<void>;
   onClaim: () => Promise<void>;
+  onUnwrap: (token: string, amount: bigint) => Promise<void>;
+  onDisclaim: () => Promise<void>;
+  onRaiseDispute: (reason: string) => Promise<void>;
+  onMoveWallet: (newAddress: string) => Promise<void>;
+  onVetoRecovery: () => Promise<void>;
+  onGrantView: (viewer: string) => Promise<void>;
+  onRevokeView: (viewer: string) => Promise<void>;
+  onReadLetter: () => Promise<string | null>;
+  onRefreshHistory: () => void;
 }
 
 export function HeirDashboard({
   estateInfo,
   heirCount,
+  tokens,
   myAllocation,
+  myShareBps,
+  myPaid,
+  myVesting,
   hasClaimed,
+  hasDisclaimed,
+  pendingRecovery,
+  guardianship,
+  viewers,
+  hasLetter,
+  address,
+  history,
   isLoading,
+  isHistoryLoading,
   onDecryptAllocation,
   onClaim,
+  onUnwrap,
+  onDisclaim,
+  onRaiseDispute,
+  onMoveWallet,
+  onVetoRecovery,
+  onGrantView,
+  onRevokeView,
+  onReadLetter,
+  onRefreshHistory,
 }: HeirDashboardProps) {
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [isClaiming, setIsClaiming] = useState(false);
+  const [showDisclaimModal, setShowDisclaimModal] = useState(false);
+  const [newWallet, setNewWallet] = useState("");
+  const [isMoving, setIsMoving] = useState(false);
+  const [isVetoing, setIsVetoing] = useState(false);
+  const [disputeReason, setDisputeReason] = useState("");
+  const [isDisputing, setIsDisputing] = useState(false);
+
+  // Disclaiming is only possible before accepting any payout
+  const hasPayout = myPaid !== null && [...myPaid.values()].some((amount) => amount > BigInt(0));
+  const canDisclaim = estateInfo.active && estateInfo.finalized && !estateInfo.dispute && !hasClaimed && !hasPayout;
+
+  // Heirs can contest the estate with its arbiter during the window after finalization
+  const canDispute = estateInfo.active && estateInfo.finalized && estateInfo.arbiter !== null && !estateInfo.dispute &&
+    Date.now() / 1000 <= estateInfo.finalizedAt + estateInfo.disputeWindow;
+
+  // A guardian manages the inheritance until the heir comes of age
+  const isMinor = guardianship !== null && guardianship.majorityAt * 1000 > Date.now();
+
+  const vested = myVesting && myAllocation !== null
+    ? new Map([...myAllocation].map(([token, amount]) => [
+        token,
+        (amount * myVesting.vestedNumerator) / myVesting.vestedDenominator,
+      ]))
+    : null;
 
   const handleDecrypt = async () => {
     setIsDecrypting(true);
@@ -46,6 +118,37 @@ export function HeirDashboard({
     }
   };
 
+  const handleMoveWallet = async () => {
+    if (!newWallet.startsWith("0x") || newWallet.length !== 42) return;
+    setIsMoving(true);
+    try {
+      await onMoveWallet(newWallet);
+      setNewWallet("");
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const handleRaiseDispute = async () => {
+    if (!disputeReason.trim()) return;
+    setIsDisputing(true);
+    try {
+      await onRaiseDispute(disputeReason.trim());
+      setDisputeReason("");
+    } finally {
+      setIsDisputing(false);
+    }
+  };
+
+  const handleVetoRecovery = async () => {
+    setIsVetoing(true);
+    try {
+      await onVetoRecovery();
+    } finally {
+      setIsVetoing(false);
+    }
+  };
+
   if (isLoading) {
     return <LoadingState message="Loading your inheritance..." />;
   }
@@ -61,8 +164,47 @@ export function HeirDashboard({
 
       <EstateStatus estate={estateInfo} heirCount={heirCount} />
 
+      {pendingRecovery && (
+        <div className="recovery-warning">
+          <ShieldAlert size={20} />
+          <p>
+            An executor asked to move your inheritance to{" "}
+            <span className="address-short">
+              {pendingRecovery.newAddress.slice(0, 6)}...{pendingRecovery.newAddress.slice(-4)}
+            </span>
+            {" "}on {new Date(pendingRecovery.executeAfter * 1000).toLocaleString()}. Veto it if you still control this wallet.
+          </p>
+          <button className="btn btn-danger btn-sm" onClick={handleVetoRecovery} disabled={isVetoing}>
+            {isVetoing ? "Vetoing..." : "Veto"}
+          </button>
+        </div>
+      )}
+
+      {isMinor && (
+        <div className="guardian-notice">
+          <Shield size={20} />
+          <p>
+            Your inheritance is managed by your guardian{" "}
+            <span className="address-short">
+              {guardianship.guardian.slice(0, 6)}...{guardianship.guardian.slice(-4)}
+            </span>
+            {" "}until {new Date(guardianship.majorityAt * 1000).toLocaleDateString()}. Maintenance they draw for you
+            counts toward your allocation; you can claim the rest from that date.
+          </p>
+        </div>
+      )}
+
+      {estateInfo.finalized && estateInfo.claimDeadline > 0 && !hasClaimed && (
+        <ClaimCountdown deadline={estateInfo.claimDeadline} />
+      )}
+
       <div className="heir-allocation-section">
-        {myAllocation === null && !hasClaimed ? (
+        {hasDisclaimed ? (
+          <div className="disclaimed-notice">
+            <FileX size={20} />
+            <p>You disclaimed your inheritance. Your allocation passed to other beneficiaries of this estate.</p>
+          </div>
+        ) : myAllocation === null && !hasClaimed ? (
           <div className="decrypt-prompt">
             <div className="decrypt-prompt-content">
               <h3>Your allocation is encrypted</h3>
@@ -91,21 +233,128 @@ export function HeirDashboard({
           </div>
         ) : (
           <ClaimButton
+            tokens={tokens}
             allocation={myAllocation}
+            vested={myVesting ? vested : undefined}
+            paid={myPaid}
             hasClaimed={hasClaimed}
-            canClaim={estateInfo.finalized && !hasClaimed}
+            canClaim={estateInfo.active && estateInfo.finalized && estateInfo.claimUnlocked && !estateInfo.dispute && !hasClaimed && !isMinor}
+            lockedReason={
+              estateInfo.dispute
+                ? "Claims are frozen until the arbiter resolves the dispute."
+                : isMinor
+                  ? "You can claim once you come of age."
+                  : !estateInfo.finalized
+                    ? "The estate must be finalized before you can claim."
+                    : !estateInfo.active
+                      ? "The claim period has ended and unclaimed allocations were swept."
+                      : "Claims unlock after the testator's inactivity period or a confirmed death attestation."
+            }
             isLoading={isClaiming}
             onClaim={handleClaim}
           />
         )}
       </div>
 
+      {hasLetter && (
+        <LetterPanel onRead={onReadLetter} />
+      )}
+
+      {hasPayout && (
+        <UnwrapForm tokens={tokens} onUnwrap={onUnwrap} />
+      )}
+
+      {canDisclaim && (
+        <div className="disclaim-section">
+          <p className="text-muted">
+            Don't want to accept this inheritance? You can disclaim it before claiming.
+          </p>
+          <button className="btn btn-secondary" onClick={() => setShowDisclaimModal(true)}>
+            <FileX size={16} />
+            Disclaim Inheritance
+          </button>
+        </div>
+      )}
+
+      {canDispute && (
+        <div className="dispute-section">
+          <label htmlFor="dispute-reason">Contest this estate</label>
+          <textarea
+            id="dispute-reason"
+            placeholder="Why do you dispute the will?"
+            value={disputeReason}
+            onChange={(e) => setDisputeReason(e.target.value)}
+            disabled={isDisputing}
+          />
+          <p className="form-hint">
+            Only a hash of your reason is stored on-chain; share the text with the arbiter directly.
+            Raising a dispute freezes all claims until the arbiter rules, until{" "}
+            {new Date((estateInfo.finalizedAt + estateInfo.disputeWindow) * 1000).toLocaleDateString()}.
+          </p>
+          <button className="btn btn-secondary" onClick={handleRaiseDispute} disabled={isDisputing || !disputeReason.trim()}>
+            <Gavel size={16} />
+            {isDisputing ? "Raising..." : "Raise Dispute"}
+          </button>
+        </div>
+      )}
+
+      {myShareBps !== null && !estateInfo.finalized && (
+        <div className="privacy-notice mb-4">
+          <p>
+            You are entitled to {(Number(myShareBps) / 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}%
+            of every asset in the estate. The amounts are fixed when the executor finalizes the estate.
+          </p>
+        </div>
+      )}
+
+      {estateInfo.active && (
+        <div className="move-wallet-section">
+          <label htmlFor="move-wallet">Move to a new wallet</label>
+          <div className="move-wallet-input-group">
+            <input
+              id="move-wallet"
+              type="text"
+              placeholder="0x..."
+              value={newWallet}
+              onChange={(e) => setNewWallet(e.target.value)}
+              disabled={isMoving}
+            />
+            <button className="btn btn-secondary" onClick={handleMoveWallet} disabled={isMoving || !newWallet}>
+              <KeyRound size={14} />
+              {isMoving ? "Moving..." : "Move"}
+            </button>
+          </div>
+          <p className="form-hint">
+            Your allocation and claim rights move to the new wallet immediately. This wallet loses access to the estate.
+          </p>
+        </div>
+      )}
+
+      {estateInfo.active && !hasDisclaimed && (
+        <AllocationSharingPanel viewers={viewers} onGrant={onGrantView} onRevoke={onRevokeView} />
+      )}
+
+      <EstateTimeline
+        events={history}
+        tokens={tokens}
+        heir={address}
+        isLoading={isHistoryLoading}
+        onRefresh={onRefreshHistory}
+      />
+
       <div className="privacy-notice">
         <p>
-          Your allocation amount is encrypted and only visible to you.
+          Your allocation amount is encrypted and only visible to you and anyone you share it with.
           Other heirs cannot see your inheritance.
         </p>
       </div>
+
+      <DisclaimModal
+        isOpen={showDisclaimModal}
+        estateName={estateInfo.name}
+        onClose={() => setShowDisclaimModal(false)}
+        onConfirm={onDisclaim}
+      />
     </div>
   );
 }
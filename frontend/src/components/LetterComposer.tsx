@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Mail, RefreshCw, AlertCircle } from "lucide-react";
+import "./LetterComposer.css";
+
+interface LetterComposerProps {
+  heirs: string[];
+  onSetLetter: (heir: string, text: string) => Promise<void>;
+}
+
+const shorten = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+export function LetterComposer({ heirs, onSetLetter }: LetterComposerProps) {
+  const [heir, setHeir] = useState("");
+  const [text, setText] = useState("");
+  const [isSealing, setIsSealing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedHeir = heir || heirs[0];
+
+  const handleSetLetter = async (remove: boolean) => {
+    if (!selectedHeir || (!remove && !text.trim())) return;
+    setError(null);
+    setIsSealing(true);
+    try {
+      await onSetLetter(selectedHeir, remove ? "" : text);
+      setText("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to seal the letter");
+    } finally {
+      setIsSealing(false);
+    }
+  };
+
+  return (
+    <div className="letter-composer card">
+      <h3>Sealed Letters</h3>
+      <p className="text-muted mb-4">
+        Leave an heir a personal letter. It is encrypted in your browser and only that heir can read it, not even
+        the executor; sealing a new letter replaces the previous one.
+      </p>
+
+      <div className="letter-composer-form">
+        <select
+          value={selectedHeir}
+          onChange={(e) => setHeir(e.target.value)}
+          disabled={isSealing}
+        >
+          {heirs.map((addr) => (
+            <option key={addr} value={addr}>{shorten(addr)}</option>
+          ))}
+        </select>
+        <textarea
+          placeholder="Dear..."
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={isSealing}
+        />
+        <div className="letter-composer-actions">
+          <button
+            className="btn btn-primary"
+            onClick={() => handleSetLetter(false)}
+            disabled={isSealing || !text.trim()}
+          >
+            {isSealing ? <RefreshCw size={16} className="spin" /> : <Mail size={16} />}
+            Seal
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={() => handleSetLetter(true)}
+            disabled={isSealing}
+          >
+            Remove
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="error-message flex items-center gap-2 mt-4">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
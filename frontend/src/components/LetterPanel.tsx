@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { MailOpen, RefreshCw, AlertCircle } from "lucide-react";
+import "./LetterPanel.css";
+
+interface LetterPanelProps {
+  onRead: () => Promise<string | null>;
+}
+
+export function LetterPanel({ onRead }: LetterPanelProps) {
+  const [letter, setLetter] = useState<string | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRead = async () => {
+    setError(null);
+    setIsOpening(true);
+    try {
+      const text = await onRead();
+      if (text === null) {
+        setError("Failed to open the letter");
+      } else {
+        setLetter(text);
+      }
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <div className="letter-panel card">
+      <h3>A Letter For You</h3>
+
+      {letter !== null ? (
+        <div className="letter-body">{letter}</div>
+      ) : (
+        <>
+          <p className="text-muted mb-4">
+            The executor left you a sealed letter. It is decrypted in your browser and no one else can read it.
+          </p>
+          <button className="btn btn-secondary" onClick={handleRead} disabled={isOpening}>
+            {isOpening ? (
+              <>
+                <RefreshCw size={16} className="spin" />
+                Opening...
+              </>
+            ) : (
+              <>
+                <MailOpen size={16} />
+                Read Letter
+              </>
+            )}
+          </button>
+        </>
+      )}
+
+      {error && (
+        <div className="error-message flex items-center gap-2 mt-4">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
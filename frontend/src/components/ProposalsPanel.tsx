@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { CheckCircle, ThumbsUp, RefreshCw } from "lucide-react";
+import type { ProposalAction, ProposalInfo } from "../types";
+import "./ProposalsPanel.css";
+
+interface ProposalsPanelProps {
+  proposals: ProposalInfo[];
+  threshold: number;
+  onApprove: (proposalId: number) => Promise<void>;
+}
+
+const ACTION_LABELS: Record<ProposalAction, string> = {
+  AddHeir: "Add heir",
+  AddHeirWithShare: "Add heir (percentage)",
+  RemoveHeir: "Remove heir",
+  FinalizeEstate: "Finalize estate",
+  AddCoExecutor: "Add co-executor",
+  RemoveCoExecutor: "Remove co-executor",
+  SetApprovalThreshold: "Change approval threshold",
+  CancelEstate: "Cancel estate",
+  UpdateAllocation: "Update allocation",
+  RecordLapse: "Record lapse",
+};
+
+const shorten = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+export function ProposalsPanel({ proposals, threshold, onApprove }: ProposalsPanelProps) {
+  const [approvingId, setApprovingId] = useState<number | null>(null);
+
+  const handleApprove = async (proposalId: number) => {
+    setApprovingId(proposalId);
+    try {
+      await onApprove(proposalId);
+    } finally {
+      setApprovingId(null);
+    }
+  };
+
+  return (
+    <div className="proposals-panel card">
+      <h3>Pending Proposals ({proposals.length})</h3>
+      <p className="text-muted mb-4">
+        Sensitive actions need {threshold} executor approvals before they run.
+      </p>
+
+      {proposals.length === 0 ? (
+        <p className="text-muted">No proposals awaiting approval.</p>
+      ) : (
+        <div className="proposals-list">
+          {proposals.map((proposal) => (
+            <div key={proposal.id} className="proposal-row">
+              <div className="proposal-details">
+                <span className="proposal-action">
+                  #{proposal.id} {ACTION_LABELS[proposal.action]}
+                </span>
+                <span className="text-muted">
+                  {proposal.action === "SetApprovalThreshold"
+                    ? `to ${proposal.param}`
+                    : proposal.action === "FinalizeEstate"
+                      ? ""
+                      : shorten(proposal.target)}
+                  {" "}· proposed by {shorten(proposal.proposer)}
+                </span>
+              </div>
+              <span className="badge badge-warning">
+                {proposal.approvals}/{threshold}
+              </span>
+              {proposal.approvedByMe ? (
+                <span className="badge badge-success">
+                  <CheckCircle size={12} />
+                  Approved
+                </span>
+              ) : (
+                <button
+                  className="btn btn-primary btn-sm"
+                  onClick={() => handleApprove(proposal.id)}
+                  disabled={approvingId !== null}
+                >
+                  {approvingId === proposal.id ? (
+                    <RefreshCw size={14} className="spin" />
+                  ) : (
+                    <ThumbsUp size={14} />
+                  )}
+                  Approve
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { KeyRound, ShieldOff, Check, RefreshCw, AlertCircle } from "lucide-react";
+import type { RecoveryInfo } from "../types";
+import "./RecoveryPanel.css";
+
+interface RecoveryPanelProps {
+  heirs: string[];
+  recoveries: RecoveryInfo[];
+  onPropose: (heir: string, newAddress: string) => Promise<void>;
+  onVeto: (heir: string) => Promise<void>;
+  onExecute: (heir: string) => Promise<void>;
+}
+
+const shorten = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+export function RecoveryPanel({ heirs, recoveries, onPropose, onVeto, onExecute }: RecoveryPanelProps) {
+  const [heir, setHeir] = useState("");
+  const [newAddress, setNewAddress] = useState("");
+  const [busyHeir, setBusyHeir] = useState<string | null>(null);
+  const [isProposing, setIsProposing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const now = Math.floor(Date.now() / 1000);
+  const selectedHeir = heir || heirs[0];
+
+  const handlePropose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!newAddress.startsWith("0x") || newAddress.length !== 42) {
+      setError("Please enter a valid Ethereum address");
+      return;
+    }
+
+    setIsProposing(true);
+    try {
+      await onPropose(selectedHeir, newAddress);
+      setNewAddress("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to propose recovery");
+    } finally {
+      setIsProposing(false);
+    }
+  };
+
+  const handleAction = async (target: string, action: (heir: string) => Promise<void>) => {
+    setBusyHeir(target);
+    try {
+      await action(target);
+    } finally {
+      setBusyHeir(null);
+    }
+  };
+
+  return (
+    <div className="recovery-panel card">
+      <h3>Wallet Recovery</h3>
+      <p className="text-muted mb-4">
+        Move an heir who lost their key to a new wallet. The move takes effect after a 14-day challenge window,
+        during which the heir or any executor can veto it.
+      </p>
+
+      {recoveries.length > 0 && (
+        <div className="recovery-list mb-4">
+          {recoveries.map((recovery) => {
+            const ready = now >= recovery.executeAfter;
+            return (
+              <div key={recovery.heir} className="recovery-row">
+                <div className="recovery-details">
+                  <span className="recovery-heir">
+                    {shorten(recovery.heir)} → {shorten(recovery.newAddress)}
+                  </span>
+                  <span className="text-muted">
+                    {ready
+                      ? "Challenge window passed"
+                      : `Vetoable until ${new Date(recovery.executeAfter * 1000).toLocaleString()}`}
+                  </span>
+                </div>
+                {ready && (
+                  <button
+                    className="btn btn-primary btn-sm"
+                    onClick={() => handleAction(recovery.heir, onExecute)}
+                    disabled={busyHeir !== null}
+                  >
+                    {busyHeir === recovery.heir ? <RefreshCw size={14} className="spin" /> : <Check size={14} />}
+                    Execute
+                  </button>
+                )}
+                <button
+                  className="btn btn-danger btn-sm"
+                  onClick={() => handleAction(recovery.heir, onVeto)}
+                  disabled={busyHeir !== null}
+                >
+                  <ShieldOff size={14} />
+                  Veto
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {heirs.length > 0 && (
+        <form className="recovery-form" onSubmit={handlePropose}>
+          <select
+            value={selectedHeir}
+            onChange={(e) => setHeir(e.target.value)}
+            disabled={isProposing}
+          >
+            {heirs.map((addr) => (
+              <option key={addr} value={addr}>{shorten(addr)}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="New wallet 0x..."
+            value={newAddress}
+            onChange={(e) => setNewAddress(e.target.value)}
+            disabled={isProposing}
+          />
+          <button type="submit" className="btn btn-secondary" disabled={isProposing || !newAddress}>
+            <KeyRound size={14} />
+            {isProposing ? "Proposing..." : "Propose"}
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="error-message flex items-center gap-2 mt-4">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Eye, RefreshCw } from "lucide-react";
+import { EstateStatus } from "./EstateStatus";
+import { LoadingState } from "./LoadingState";
+import type { EstateInfo, TokenAmounts, TokenInfo } from "../types";
+import "./SharedWithMeDashboard.css";
+
+interface SharedWithMeDashboardProps {
+  estateInfo: EstateInfo;
+  heirCount: number;
+  tokens: TokenInfo[];
+  sharers: string[];
+  isLoading: boolean;
+  onGetSharedAllocation: (heir: string) => Promise<TokenAmounts | null>;
+}
+
+const formatAmount = (value: bigint | undefined) => value !== undefined
+  ? (Number(value) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 6 })
+  : "---";
+
+export function SharedWithMeDashboard({
+  estateInfo,
+  heirCount,
+  tokens,
+  sharers,
+  isLoading,
+  onGetSharedAllocation,
+}: SharedWithMeDashboardProps) {
+  if (isLoading) {
+    return <LoadingState message="Loading shared allocations..." />;
+  }
+
+  return (
+    <div className="shared-dashboard">
+      <div className="dashboard-header">
+        <h1>{estateInfo.name}</h1>
+        <p className="text-secondary">
+          {sharers.length === 1 ? "An heir shares their allocation" : `${sharers.length} heirs share their allocations`} with you.
+        </p>
+      </div>
+
+      <EstateStatus estate={estateInfo} heirCount={heirCount} />
+
+      {sharers.map((heir) => (
+        <SharedAllocationCard
+          key={heir}
+          heir={heir}
+          tokens={tokens}
+          onDecrypt={() => onGetSharedAllocation(heir)}
+        />
+      ))}
+
+      <div className="privacy-notice">
+        <p>
+          Shared allocations are decrypted in your browser and visible only to you and the heir.
+          The heir can stop sharing at any time, after which later changes are hidden from you.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface SharedAllocationCardProps {
+  heir: string;
+  tokens: TokenInfo[];
+  onDecrypt: () => Promise<TokenAmounts | null>;
+}
+
+function SharedAllocationCard({ heir, tokens, onDecrypt }: SharedAllocationCardProps) {
+  const [allocation, setAllocation] = useState<TokenAmounts | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const handleDecrypt = async () => {
+    setIsDecrypting(true);
+    try {
+      setAllocation(await onDecrypt());
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="card shared-card">
+      <div className="shared-card-header">
+        <span className="address-short">{heir.slice(0, 6)}...{heir.slice(-4)}</span>
+        {!allocation && (
+          <button className="btn btn-secondary btn-sm" onClick={handleDecrypt} disabled={isDecrypting}>
+            {isDecrypting ? (
+              <>
+                <RefreshCw size={14} className="spin" />
+                Decrypting...
+              </>
+            ) : (
+              <>
+                <Eye size={14} />
+                View Allocation
+              </>
+            )}
+          </button>
+        )}
+      </div>
+
+      {allocation && (
+        <div className="shared-breakdown">
+          {tokens.map((t) => (
+            <div key={t.address} className="shared-breakdown-row">
+              <span>{t.symbol}</span>
+              <span>{formatAmount(allocation.get(t.address))}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
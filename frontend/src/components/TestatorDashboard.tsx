@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { HeartPulse, RefreshCw, AlertTriangle } from "lucide-react";
+import { EstateStatus } from "./EstateStatus";
+import { LoadingState } from "./LoadingState";
+import { LetterComposer } from "./LetterComposer";
+import type { EstateInfo } from "../types";
+import "./TestatorDashboard.css";
+
+interface TestatorDashboardProps {
+  estateInfo: EstateInfo;
+  heirs: string[];
+  isLoading: boolean;
+  onCheckIn: () => Promise<void>;
+  onSetLetter: (heir: string, text: string) => Promise<void>;
+}
+
+export function TestatorDashboard({
+  estateInfo,
+  heirs,
+  isLoading,
+  onCheckIn,
+  onSetLetter,
+}: TestatorDashboardProps) {
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+
+  const lastCheckIn = new Date(estateInfo.lastCheckIn * 1000);
+  const deadline = new Date((estateInfo.lastCheckIn + estateInfo.inactivityPeriod) * 1000);
+  const periodDays = Math.round(estateInfo.inactivityPeriod / (24 * 60 * 60));
+
+  const handleCheckIn = async () => {
+    setIsCheckingIn(true);
+    try {
+      await onCheckIn();
+    } finally {
+      setIsCheckingIn(false);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingState message="Loading your estate..." />;
+  }
+
+  return (
+    <div className="testator-dashboard">
+      <div className="dashboard-header">
+        <h1>{estateInfo.name}</h1>
+        <p className="text-secondary">
+          {estateInfo.active
+            ? "Check in regularly so your estate stays locked while you are alive."
+            : "The executor cancelled this estate; no check-ins are needed."}
+        </p>
+      </div>
+
+      <EstateStatus estate={estateInfo} heirCount={heirs.length} />
+
+      {estateInfo.active && estateInfo.deathAttestedAt > 0 && (
+        <div className="attestation-warning">
+          <AlertTriangle size={20} />
+          <p>
+            The executor attested your death on{" "}
+            {new Date(estateInfo.deathAttestedAt * 1000).toLocaleDateString()}.
+            Check in now to challenge it.
+          </p>
+        </div>
+      )}
+
+      {estateInfo.active && (
+        <div className="check-in-card card">
+          <div className="check-in-details">
+            <div>
+              <span className="estate-stat-label">Last check-in</span>
+              <p>{lastCheckIn.toLocaleString()}</p>
+            </div>
+            <div>
+              <span className="estate-stat-label">Claims unlock after</span>
+              <p>{deadline.toLocaleString()} ({periodDays} days of inactivity)</p>
+            </div>
+          </div>
+
+          <button
+            className="btn btn-primary btn-lg w-full"
+            onClick={handleCheckIn}
+            disabled={isCheckingIn}
+          >
+            {isCheckingIn ? (
+              <>
+                <RefreshCw size={20} className="spin" />
+                Checking in...
+              </>
+            ) : (
+              <>
+                <HeartPulse size={20} />
+                Check In
+              </>
+            )}
+          </button>
+        </div>
+      )}
+
+      {estateInfo.active && !estateInfo.finalized && heirs.length > 0 && (
+        <LetterComposer heirs={heirs} onSetLetter={onSetLetter} />
+      )}
+    </div>
+  );
+}
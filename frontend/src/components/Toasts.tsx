@@ -0,0 +1,53 @@
+import { useEffect } from "react";
+import { CheckCircle, Info, AlertTriangle, X } from "lucide-react";
+import type { Toast } from "../types";
+import "./Toasts.css";
+
+interface ToastsProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+const TOAST_DURATION_MS = 6_000;
+
+const ICONS = {
+  info: Info,
+  success: CheckCircle,
+  warning: AlertTriangle,
+};
+
+export function Toasts({ toasts, onDismiss }: ToastsProps) {
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="toasts" role="status" aria-live="polite">
+      {toasts.map((toast) => (
+        <ToastItem key={toast.id} toast={toast} onDismiss={onDismiss} />
+      ))}
+    </div>
+  );
+}
+
+interface ToastItemProps {
+  toast: Toast;
+  onDismiss: (id: number) => void;
+}
+
+function ToastItem({ toast, onDismiss }: ToastItemProps) {
+  const Icon = ICONS[toast.kind];
+
+  useEffect(() => {
+    const timeout = setTimeout(() => onDismiss(toast.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [toast.id, onDismiss]);
+
+  return (
+    <div className={`toast toast-${toast.kind}`}>
+      <Icon size={16} />
+      <span className="toast-message">{toast.message}</span>
+      <button className="btn-icon" onClick={() => onDismiss(toast.id)} aria-label="Dismiss">
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { ArrowDownToLine, AlertCircle } from "lucide-react";
+import type { TokenInfo } from "../types";
+import "./UnwrapForm.css";
+
+interface UnwrapFormProps {
+  tokens: TokenInfo[];
+  onUnwrap: (token: string, amount: bigint) => Promise<void>;
+}
+
+export function UnwrapForm({ tokens, onUnwrap }: UnwrapFormProps) {
+  const wrapped = tokens.filter((t) => t.underlying);
+  const [tokenAddress, setTokenAddress] = useState("");
+  const [amount, setAmount] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnwrapping, setIsUnwrapping] = useState(false);
+
+  if (wrapped.length === 0) return null;
+
+  const token = wrapped.find((t) => t.address === tokenAddress) ?? wrapped[0];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setError("Please enter a valid amount");
+      return;
+    }
+
+    setIsUnwrapping(true);
+    try {
+      // Confidential balances use 6 decimals
+      await onUnwrap(token.address, BigInt(Math.floor(amountNum * 1_000_000)));
+      setAmount("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unwrap");
+    } finally {
+      setIsUnwrapping(false);
+    }
+  };
+
+  return (
+    <div className="card unwrap-form">
+      <div className="card-header">
+        <h3 className="card-title">Withdraw to ERC-20</h3>
+        <p className="card-description">
+          Unwrap claimed confidential tokens back to {token.underlying?.symbol}. The withdrawn amount becomes public.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit}>
+        {wrapped.length > 1 && (
+          <div className="form-group">
+            <label htmlFor="unwrap-token">Asset</label>
+            <select
+              id="unwrap-token"
+              value={token.address}
+              onChange={(e) => setTokenAddress(e.target.value)}
+              disabled={isUnwrapping}
+            >
+              {wrapped.map((t) => (
+                <option key={t.address} value={t.address}>{t.symbol}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="unwrap-input-group">
+          <input
+            type="number"
+            placeholder={`Amount (${token.symbol})`}
+            step="0.000001"
+            min="0"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            disabled={isUnwrapping}
+          />
+          <button type="submit" className="btn btn-secondary" disabled={isUnwrapping || !amount}>
+            <ArrowDownToLine size={14} />
+            {isUnwrapping ? "Unwrapping..." : "Unwrap"}
+          </button>
+        </div>
+
+        {error && (
+          <div className="error-message flex items-center gap-2 mt-4">
+            <AlertCircle size={16} />
+            {error}
+          </div>
+        )}
+      </form>
+    </div>
+  );
+}
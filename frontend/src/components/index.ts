@@ -7,3 +7,18 @@ export { ClaimButton } from "./ClaimButton";
 export { LoadingState, LoadingSkeleton } from "./LoadingState";
 export { HeirDashboard } from "./HeirDashboard";
 export { ExecutorDashboard } from "./ExecutorDashboard";
+export { TestatorDashboard } from "./TestatorDashboard";
+export { GuardianDashboard } from "./GuardianDashboard";
+export { ArbiterDashboard } from "./ArbiterDashboard";
+export { AuditorDashboard } from "./AuditorDashboard";
+export { SharedWithMeDashboard } from "./SharedWithMeDashboard";
+export { ProposalsPanel } from "./ProposalsPanel";
+export { ContingencyTree } from "./ContingencyTree";
+export { ClaimCountdown } from "./ClaimCountdown";
+export { UnwrapForm } from "./UnwrapForm";
+export { RecoveryPanel } from "./RecoveryPanel";
+export { AllocationSharingPanel } from "./AllocationSharingPanel";
+export { LetterPanel } from "./LetterPanel";
+export { LetterComposer } from "./LetterComposer";
+export { EstateTimeline } from "./EstateTimeline";
+export { Toasts } from "./Toasts";
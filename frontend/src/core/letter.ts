@@ -0,0 +1,52 @@
+// Letters to heirs are sealed with AES-256-GCM under a one-time key. The key travels to the
+// contract as an encrypted uint256 that only the heir may decrypt; the ciphertext is stored as-is.
+
+const IV_LENGTH = 12;
+
+export interface SealedLetter {
+  ciphertext: Uint8Array;
+  key: bigint;
+}
+
+function keyToBytes(key: bigint): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(32);
+  let rest = key;
+  for (let i = 31; i >= 0; i--) {
+    bytes[i] = Number(rest & BigInt(0xff));
+    rest >>= BigInt(8);
+  }
+  return bytes;
+}
+
+function bytesToKey(bytes: Uint8Array): bigint {
+  return bytes.reduce((key, byte) => (key << BigInt(8)) | BigInt(byte), BigInt(0));
+}
+
+function importKey(key: bigint, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", keyToBytes(key), "AES-GCM", false, [usage]);
+}
+
+export async function sealLetter(text: string): Promise<SealedLetter> {
+  const key = bytesToKey(crypto.getRandomValues(new Uint8Array(32)));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await importKey(key, "encrypt"),
+    new TextEncoder().encode(text)
+  );
+
+  // The IV is not secret and is prepended to the ciphertext
+  const ciphertext = new Uint8Array(IV_LENGTH + encrypted.byteLength);
+  ciphertext.set(iv);
+  ciphertext.set(new Uint8Array(encrypted), IV_LENGTH);
+  return { ciphertext, key };
+}
+
+export async function openLetter(ciphertext: Uint8Array, key: bigint): Promise<string> {
+  const decrypted = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: ciphertext.slice(0, IV_LENGTH) },
+    await importKey(key, "decrypt"),
+    ciphertext.slice(IV_LENGTH)
+  );
+  return new TextDecoder().decode(decrypted);
+}
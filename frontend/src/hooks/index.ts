@@ -4,4 +4,17 @@ export type { FhevmStatus } from "./useFhevm";
 export { useEncrypt } from "./useEncrypt";
 export { useDecrypt } from "./useDecrypt";
 export { useInheritance } from "./useInheritance";
-export type { EstateInfo, EstateListItem, HeirInfo } from "../types";
+export { useEstateHistory } from "./useEstateHistory";
+export type {
+  AddHeirOptions,
+  AllocationMode,
+  ContingencyInfo,
+  EstateInfo,
+  EstateEvent,
+  EstateListItem,
+  EstateRole,
+  HeirInfo,
+  ProposalAction,
+  ProposalInfo,
+  VestingInfo,
+} from "../types";
@@ -64,8 +64,30 @@ export function useDecrypt() {
     }
   }, []);
 
+  // Publicly decrypt handles a contract marked decryptable, returning the proof it needs to verify them
+  const publicDecrypt = useCallback(async (handles: string[]) => {
+    const instance = getFheInstance();
+    if (!instance) {
+      setError("FHEVM not initialized");
+      return null;
+    }
+
+    setIsDecrypting(true);
+    setError(null);
+
+    try {
+      return await instance.publicDecrypt(handles);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, []);
+
   return {
     decrypt,
+    publicDecrypt,
     isDecrypting,
     error,
   };
@@ -37,6 +37,33 @@ export function useEncrypt() {
     }
   }, []);
 
+  const encrypt256 = useCallback(async (
+    contractAddress: string,
+    userAddress: string,
+    value: bigint
+  ): Promise<EncryptedInput | null> => {
+    const instance = getFheInstance();
+    if (!instance) {
+      setError("FHEVM not initialized");
+      return null;
+    }
+
+    setIsEncrypting(true);
+    setError(null);
+
+    try {
+      const input = instance.createEncryptedInput(contractAddress, userAddress);
+      input.add256(value);
+      const encrypted = await input.encrypt();
+      return encrypted as EncryptedInput;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    } finally {
+      setIsEncrypting(false);
+    }
+  }, []);
+
   const encryptMultiple64 = useCallback(async (
     contractAddress: string,
     userAddress: string,
@@ -69,6 +96,7 @@ export function useEncrypt() {
   return {
     encrypt64,
     encryptMultiple64,
+    encrypt256,
     isEncrypting,
     error,
   };
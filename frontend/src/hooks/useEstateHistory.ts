@@ -0,0 +1,141 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { ethers } from "ethers";
+import { DISTRIBUTION_ABI } from "./useInheritance";
+import type { EstateEvent, EstateEventScope } from "../types";
+
+const DISTRIBUTION_ADDRESS = import.meta.env.VITE_DISTRIBUTION_ADDRESS;
+const DEPLOY_BLOCK = Number(import.meta.env.VITE_DEPLOY_BLOCK ?? 0);
+
+// Timeline events: who sees each one and which arguments name the heir, the other party and the token
+const HISTORY_EVENTS: Record<string, { scope: EstateEventScope; heir?: string; account?: string; token?: string }> = {
+  EstateCreated: { scope: 'estate', account: 'executor' },
+  HeirAdded: { scope: 'heir', heir: 'heir' },
+  HeirRemoved: { scope: 'heir', heir: 'heir' },
+  AllocationUpdated: { scope: 'heir', heir: 'heir' },
+  ResiduaryHeirSet: { scope: 'heir', heir: 'heir' },
+  VestingScheduleSet: { scope: 'heir', heir: 'heir' },
+  ContingentAdded: { scope: 'heir', heir: 'heir', account: 'contingent' },
+  ContingentAllocated: { scope: 'heir', heir: 'heir', account: 'contingent' },
+  HeirLapsed: { scope: 'heir', heir: 'heir' },
+  DisclaimerPolicySet: { scope: 'executor', account: 'alternate' },
+  HeirDisclaimed: { scope: 'heir', heir: 'heir' },
+  GuardianSet: { scope: 'heir', heir: 'heir', account: 'guardian' },
+  MaintenanceClaimed: { scope: 'heir', heir: 'heir', token: 'token' },
+  ArbiterSet: { scope: 'estate', account: 'arbiter' },
+  DisputeRaised: { scope: 'estate', account: 'heir' },
+  DisputeResolved: { scope: 'estate', account: 'arbiter' },
+  AllocationViewGranted: { scope: 'heir', heir: 'heir', account: 'viewer' },
+  AllocationViewRevoked: { scope: 'heir', heir: 'heir', account: 'viewer' },
+  AuditorAdded: { scope: 'executor', account: 'auditor' },
+  AuditorRemoved: { scope: 'executor', account: 'auditor' },
+  TotalsDisclosed: { scope: 'estate', token: 'token' },
+  LetterSealed: { scope: 'heir', heir: 'heir' },
+  RecoveryProposed: { scope: 'heir', heir: 'heir', account: 'newAddress' },
+  RecoveryVetoed: { scope: 'heir', heir: 'heir', account: 'vetoedBy' },
+  HeirRecovered: { scope: 'heir', heir: 'previousAddress', account: 'newAddress' },
+  CoExecutorAdded: { scope: 'executor', account: 'coExecutor' },
+  CoExecutorRemoved: { scope: 'executor', account: 'coExecutor' },
+  ApprovalThresholdSet: { scope: 'executor' },
+  FinalizationRequested: { scope: 'executor' },
+  FinalizationRejected: { scope: 'executor' },
+  EstateFinalized: { scope: 'estate' },
+  EstateCancelled: { scope: 'estate' },
+  DepositRefunded: { scope: 'executor', account: 'depositor', token: 'token' },
+  AllocationClaimed: { scope: 'heir', heir: 'heir', token: 'token' },
+  TokensDeposited: { scope: 'executor', account: 'from', token: 'token' },
+  TestatorCheckedIn: { scope: 'estate' },
+  DeathAttested: { scope: 'estate', account: 'executor' },
+  DeathAttestationChallenged: { scope: 'estate' },
+  ClaimPeriodSet: { scope: 'estate' },
+  AllocationExpired: { scope: 'heir', heir: 'heir' },
+  UnclaimedSwept: { scope: 'executor', account: 'recipient', token: 'token' },
+};
+
+// Blocks per log query; most RPC providers cap the range of eth_getLogs
+const HISTORY_PAGE_BLOCKS = 10_000;
+
+// Every event of an estate with its block time, newest first
+export function useEstateHistory(estateId: number | null, signer: ethers.Signer | null) {
+  const [events, setEvents] = useState<EstateEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  const loadHistory = useCallback(async () => {
+    const request = ++latestRequest.current;
+    const provider = signer?.provider;
+    if (!provider || !DISTRIBUTION_ADDRESS || estateId === null) {
+      setEvents([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const distribution = new ethers.Contract(DISTRIBUTION_ADDRESS, DISTRIBUTION_ABI, provider);
+      const topics: string[] = [];
+      distribution.interface.forEachEvent((event) => {
+        if (event.name in HISTORY_EVENTS) topics.push(event.topicHash);
+      });
+      const filter = [topics, ethers.toBeHex(estateId, 32)];
+
+      // Page backwards from the latest block until the estate's creation
+      const logs: ethers.EventLog[] = [];
+      let toBlock = await provider.getBlockNumber();
+      while (toBlock >= DEPLOY_BLOCK) {
+        const fromBlock = Math.max(toBlock - HISTORY_PAGE_BLOCKS + 1, DEPLOY_BLOCK);
+        const page = (await distribution.queryFilter(filter, fromBlock, toBlock))
+          .filter((log): log is ethers.EventLog => log instanceof ethers.EventLog);
+        logs.push(...page);
+        if (page.some((log) => log.eventName === "EstateCreated")) break;
+        toBlock = fromBlock - 1;
+      }
+
+      const blockNumbers = [...new Set(logs.map((log) => log.blockNumber))];
+      const blocks = await Promise.all(blockNumbers.map((blockNumber) => provider.getBlock(blockNumber)));
+      const timestamps = new Map(blockNumbers.map((blockNumber, i) => [blockNumber, blocks[i]?.timestamp ?? 0]));
+
+      const history: EstateEvent[] = logs.map((log) => {
+        const fields = HISTORY_EVENTS[log.eventName];
+        const arg = (name?: string): string | null => {
+          const value = name ? log.args.getValue(name) : null;
+          return value && value !== ethers.ZeroAddress ? value : null;
+        };
+        return {
+          name: log.eventName,
+          scope: fields.scope,
+          heir: arg(fields.heir),
+          account: arg(fields.account),
+          token: arg(fields.token),
+          blockNumber: log.blockNumber,
+          logIndex: log.index,
+          transactionHash: log.transactionHash,
+          timestamp: timestamps.get(log.blockNumber) ?? 0,
+        };
+      });
+      history.sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+
+      // Drop the result if another estate was selected meanwhile
+      if (request === latestRequest.current) setEvents(history);
+    } catch (err) {
+      if (request === latestRequest.current) {
+        setError(err instanceof Error ? err.message : "Failed to load estate history");
+      }
+    } finally {
+      if (request === latestRequest.current) setIsLoading(false);
+    }
+  }, [estateId, signer]);
+
+  useEffect(() => {
+    setEvents([]);
+    loadHistory();
+  }, [loadHistory]);
+
+  return {
+    events,
+    isLoading,
+    error,
+    refresh: loadHistory,
+  };
+}
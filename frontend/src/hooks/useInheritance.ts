@@ -1,94 +1,326 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { ethers } from "ethers";
 import { useEncrypt } from "./useEncrypt";
 import { useDecrypt } from "./useDecrypt";
-import type { EstateInfo, EstateListItem } from "../types";
+import { openLetter, sealLetter } from "../core/letter";
+import { DISCLAIMER_POLICIES, DISPUTE_RESOLUTIONS, PROPOSAL_ACTIONS } from "../types";
+import type { AddHeirOptions, AuditTotals, ContingencyInfo, DisclaimerInfo, DisclaimerPolicy, DisputeResolution, EstateInfo, EstateListItem, EstateRole, GuardianshipInfo, ProposalAction, ProposalInfo, RecoveryInfo, Toast, TokenAmounts, TokenInfo, VestingInfo, WardAmounts, WardInfo } from "../types";
 
-const TOKEN_ADDRESS = import.meta.env.VITE_TOKEN_ADDRESS;
 const DISTRIBUTION_ADDRESS = import.meta.env.VITE_DISTRIBUTION_ADDRESS;
 
 // ABIs (minimal interfaces)
 const TOKEN_ABI = [
+  "function symbol() view returns (string)",
   "function owner() view returns (address)",
-  "function mintPlaintext(address to, uint64 amount)",
-  "function mint(address to, bytes32 encryptedAmount, bytes calldata inputProof)",
   "function confidentialBalanceOf(address account) view returns (bytes32)",
-  "function setOperator(address operator, uint48 until)",
-  "function isOperator(address holder, address spender) view returns (bool)",
   "function confidentialTransfer(address to, bytes32 encryptedAmount, bytes calldata inputProof) returns (bytes32)",
   "function confidentialTransferAndCall(address to, bytes32 encryptedAmount, bytes calldata inputProof, bytes calldata data) returns (bytes32)",
+
+  // ConfidentialERC20Wrapper
+  "function underlying() view returns (address)",
+  "function wrapAndCall(address to, uint256 amount, bytes data) returns (bytes32)",
+  "function unwrap(address to, bytes32 encryptedAmount, bytes inputProof) returns (bytes32)",
+  "function finalizeUnwrap(bytes32 burned, bytes abiEncodedCleartexts, bytes decryptionProof)",
+  "event UnwrapRequested(address indexed from, address indexed to, bytes32 amount)",
+
+  // Events
+  "event ConfidentialTransfer(address indexed from, address indexed to)",
+];
+
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
 ];
 
-const DISTRIBUTION_ABI = [
+export const DISTRIBUTION_ABI = [
   // Estate lifecycle
-  "function createEstate(string name) returns (uint256)",
+  "function createEstate(string name, address testator, uint256 inactivityPeriod) returns (uint256)",
   "function nextEstateId() view returns (uint256)",
-  "function token() view returns (address)",
+
+  // Token allowlist
+  "function admin() view returns (address)",
+  "function isAllowedToken(address token) view returns (bool)",
+  "function getAllowedTokens() view returns (address[])",
+  "function getEstateTokens(uint256 estateId) view returns (address[])",
+
+  // Dead-man's switch
+  "function checkIn(uint256 estateId)",
+  "function attestDeath(uint256 estateId)",
+  "function isClaimUnlocked(uint256 estateId) view returns (bool)",
+  "function getTestatorStatus(uint256 estateId) view returns (address, uint256, uint256, uint256, bool)",
 
   // Estate queries
   "function getEstateInfo(uint256 estateId) view returns (address, uint256, bool, bool, string)",
   "function getMyExecutorEstates() view returns (uint256[])",
   "function getMyHeirEstates() view returns (uint256[])",
+  "function getMyTestatorEstates() view returns (uint256[])",
+  "function getMyGuardianEstates() view returns (uint256[])",
+  "function getMyArbiterEstates() view returns (uint256[])",
+  "function getMySharedEstates() view returns (uint256[])",
+  "function getMyAuditorEstates() view returns (uint256[])",
 
   // Heir management
-  "function addHeir(uint256 estateId, address heir, bytes32 encryptedAllocation, bytes calldata inputProof)",
+  "function addHeir(uint256 estateId, address heir, address token, bytes32 encryptedAllocation, bytes calldata inputProof)",
   "function removeHeir(uint256 estateId, address heir)",
+  "function updateAllocation(uint256 estateId, address heir, address token, bytes32 encryptedValue, bytes calldata inputProof)",
   "function getHeirs(uint256 estateId) view returns (address[])",
   "function getHeirCount(uint256 estateId) view returns (uint256)",
   "function isHeirOf(uint256 estateId, address heir) view returns (bool)",
 
+  // Percentage allocations
+  "function addHeirWithShare(uint256 estateId, address heir, bytes32 encryptedShareBps, bytes calldata inputProof)",
+  "function setResiduaryHeir(uint256 estateId, address heir)",
+  "function isShareHeir(uint256 estateId, address heir) view returns (bool)",
+  "function residuaryHeir(uint256 estateId) view returns (address)",
+  "function getMyShare(uint256 estateId) view returns (bytes32)",
+  "function getShare(uint256 estateId, address heir) view returns (bytes32)",
+
+  // Contingent beneficiaries
+  "function addContingent(uint256 estateId, address heir, address contingent, bytes32 encryptedShareBps, bytes calldata inputProof)",
+  "function recordLapse(uint256 estateId, address heir)",
+  "function getContingents(uint256 estateId, address heir) view returns (address[])",
+  "function getContingentShare(uint256 estateId, address heir, address contingent) view returns (bytes32)",
+  "function lapsed(uint256 estateId, address heir) view returns (bool)",
+
+  // Disclaimers
+  "function setDisclaimerPolicy(uint256 estateId, uint8 policy, address alternate)",
+  "function disclaim(uint256 estateId)",
+  "function disclaimerPolicy(uint256 estateId) view returns (uint8)",
+  "function disclaimerAlternate(uint256 estateId) view returns (address)",
+  "function disclaimed(uint256 estateId, address heir) view returns (bool)",
+
+  // Arbiter and disputes
+  "function setArbiter(uint256 estateId, address arbiter, uint256 window)",
+  "function arbiter(uint256 estateId) view returns (address)",
+  "function disputeWindow(uint256 estateId) view returns (uint256)",
+  "function finalizedAt(uint256 estateId) view returns (uint256)",
+  "function disputes(uint256 estateId) view returns (address, uint64, bytes32)",
+  "function raiseDispute(uint256 estateId, bytes32 reasonHash)",
+  "function resolveDispute(uint256 estateId, uint8 resolution)",
+
+  // Allocation sharing
+  "function grantAllocationView(uint256 estateId, address viewer)",
+  "function revokeAllocationView(uint256 estateId, address viewer)",
+  "function getMyAllocationViewers(uint256 estateId) view returns (address[])",
+  "function canViewAllocation(uint256 estateId, address heir, address viewer) view returns (bool)",
+  "function getSharedAllocation(uint256 estateId, address heir, address token) view returns (bytes32)",
+
+  // Sealed letters
+  "function setLetter(uint256 estateId, address heir, bytes ciphertext, bytes32 encryptedKey, bytes inputProof)",
+  "function hasLetter(uint256 estateId, address heir) view returns (bool)",
+  "function getMyLetter(uint256 estateId) view returns (bytes, bytes32)",
+
+  // Auditors
+  "function addAuditor(uint256 estateId, address auditor)",
+  "function removeAuditor(uint256 estateId, address auditor)",
+  "function getAuditors(uint256 estateId) view returns (address[])",
+  "function getAuditTotals(uint256 estateId, address token) view returns (bytes32, bytes32, bytes32)",
+
+  // Public disclosure of final totals
+  "function discloseEstateTotals(uint256 estateId)",
+  "function confirmEstateTotals(uint256 estateId, bytes abiEncodedCleartexts, bytes decryptionProof)",
+  "function getDisclosureStatus(uint256 estateId) view returns (bool, uint256)",
+  "function getDisclosureHandles(uint256 estateId) view returns (bytes32[])",
+  "function getDisclosedTotals(uint256 estateId, address token) view returns (uint64, uint64)",
+
+  // Wallet recovery
+  "function proposeRecovery(uint256 estateId, address heir, address newAddress)",
+  "function vetoRecovery(uint256 estateId, address heir)",
+  "function executeRecovery(uint256 estateId, address heir)",
+  "function getPendingRecoveries(uint256 estateId) view returns (address[])",
+  "function pendingRecoveries(uint256 estateId, address heir) view returns (address, uint256)",
+
+  // Guardians of minor heirs
+  "function setGuardian(uint256 estateId, address heir, address guardian, uint64 majorityAt, uint16 maintenanceBps)",
+  "function guardianships(uint256 estateId, address heir) view returns (address, uint64, uint16)",
+  "function getWards(uint256 estateId, address guardian) view returns (address[])",
+  "function getWardAmounts(uint256 estateId, address heir, address token) view returns (bytes32, bytes32, bytes32)",
+  "function claimMaintenance(uint256 estateId, address heir, address token, bytes32 encryptedAmount, bytes calldata inputProof)",
+
+  // Vesting
+  "function setVestingSchedule(uint256 estateId, address heir, uint64 start, uint64 cliff, uint64 duration, uint32 installments)",
+  "function vestingSchedules(uint256 estateId, address heir) view returns (uint64, uint64, uint64, uint32)",
+  "function vestedFraction(uint256 estateId, address heir) view returns (uint256, uint256)",
+  "function claimsUnlockedAt(uint256 estateId) view returns (uint256)",
+  "function claimVested(uint256 estateId)",
+
+  // Claim expiry
+  "function setClaimPeriod(uint256 estateId, uint256 period)",
+  "function claimPeriod(uint256 estateId) view returns (uint256)",
+  "function claimDeadline(uint256 estateId) view returns (uint256)",
+  "function sweepUnclaimed(uint256 estateId)",
+  "function getOutstandingHeirCount(uint256 estateId) view returns (uint256)",
+
+  // Co-executors and proposals
+  "function isExecutorOf(uint256 estateId, address account) view returns (bool)",
+  "function getCoExecutors(uint256 estateId) view returns (address[])",
+  "function approvalThreshold(uint256 estateId) view returns (uint256)",
+  "function addCoExecutor(uint256 estateId, address coExecutor)",
+  "function removeCoExecutor(uint256 estateId, address coExecutor)",
+  "function setApprovalThreshold(uint256 estateId, uint256 threshold)",
+  "function propose(uint256 estateId, uint8 action, address target, address token, uint256 param, bytes32 encryptedValue, bytes calldata inputProof) returns (uint256)",
+  "function approveProposal(uint256 proposalId)",
+  "function getEstateProposals(uint256 estateId) view returns (uint256[])",
+  "function proposals(uint256 proposalId) view returns (uint256, uint8, address, address, uint256, bytes32, address, uint256, bool)",
+  "function hasApproved(uint256 proposalId, address approver) view returns (bool)",
+
   // Allocation queries
-  "function getMyAllocation(uint256 estateId) view returns (bytes32)",
-  "function getAllocation(uint256 estateId, address heir) view returns (bytes32)",
-  "function getContractBalance(uint256 estateId) view returns (bytes32)",
-  "function getTotalAllocated(uint256 estateId) view returns (bytes32)",
+  "function getMyAllocation(uint256 estateId, address token) view returns (bytes32)",
+  "function getAllocation(uint256 estateId, address heir, address token) view returns (bytes32)",
+  "function getContractBalance(uint256 estateId, address token) view returns (bytes32)",
+  "function getTotalAllocated(uint256 estateId, address token) view returns (bytes32)",
+  "function getMyPaidAmount(uint256 estateId, address token) view returns (bytes32)",
+  "function getPaidAmount(uint256 estateId, address heir, address token) view returns (bytes32)",
 
   // Finalization and claiming
   "function finalizeEstate(uint256 estateId)",
+  "function confirmFinalization(uint256 estateId, bytes abiEncodedCleartexts, bytes decryptionProof)",
+  "function solvencyCheck(uint256 estateId) view returns (bytes32)",
+  "function finalizationRejected(uint256 estateId) view returns (bool)",
+  "function cancelEstate(uint256 estateId)",
   "function claimAllocation(uint256 estateId)",
   "function hasClaimed(uint256 estateId, address heir) view returns (bool)",
 
   // Events
   "event EstateCreated(uint256 indexed estateId, address indexed executor, string name)",
+  "event HeirAdded(uint256 indexed estateId, address indexed heir)",
+  "event HeirRemoved(uint256 indexed estateId, address indexed heir)",
+  "event AllocationUpdated(uint256 indexed estateId, address indexed heir)",
+  "event ResiduaryHeirSet(uint256 indexed estateId, address indexed heir)",
+  "event VestingScheduleSet(uint256 indexed estateId, address indexed heir, uint64 start, uint64 cliff, uint64 duration, uint32 installments)",
+  "event ContingentAdded(uint256 indexed estateId, address indexed heir, address indexed contingent)",
+  "event ContingentAllocated(uint256 indexed estateId, address indexed heir, address indexed contingent)",
+  "event HeirLapsed(uint256 indexed estateId, address indexed heir)",
+  "event DisclaimerPolicySet(uint256 indexed estateId, uint8 policy, address alternate)",
+  "event HeirDisclaimed(uint256 indexed estateId, address indexed heir, uint8 policy)",
+  "event GuardianSet(uint256 indexed estateId, address indexed heir, address indexed guardian, uint64 majorityAt, uint16 maintenanceBps)",
+  "event MaintenanceClaimed(uint256 indexed estateId, address indexed heir, address indexed token, bytes32 amount)",
+  "event ArbiterSet(uint256 indexed estateId, address indexed arbiter, uint256 disputeWindow)",
+  "event DisputeRaised(uint256 indexed estateId, address indexed heir, bytes32 reasonHash)",
+  "event DisputeResolved(uint256 indexed estateId, address indexed arbiter, uint8 resolution)",
+  "event AllocationViewGranted(uint256 indexed estateId, address indexed heir, address indexed viewer)",
+  "event AllocationViewRevoked(uint256 indexed estateId, address indexed heir, address indexed viewer)",
+  "event AuditorAdded(uint256 indexed estateId, address indexed auditor)",
+  "event AuditorRemoved(uint256 indexed estateId, address indexed auditor)",
+  "event TotalsDisclosed(uint256 indexed estateId, address indexed token, uint64 allocated, uint64 paid)",
+  "event LetterSealed(uint256 indexed estateId, address indexed heir)",
+  "event RecoveryProposed(uint256 indexed estateId, address indexed heir, address indexed newAddress, uint256 executeAfter)",
+  "event RecoveryVetoed(uint256 indexed estateId, address indexed heir, address indexed vetoedBy)",
+  "event HeirRecovered(uint256 indexed estateId, address indexed previousAddress, address indexed newAddress)",
+  "event CoExecutorAdded(uint256 indexed estateId, address indexed coExecutor)",
+  "event CoExecutorRemoved(uint256 indexed estateId, address indexed coExecutor)",
+  "event ApprovalThresholdSet(uint256 indexed estateId, uint256 threshold)",
+  "event FinalizationRequested(uint256 indexed estateId, bytes32 solvencyCheck)",
+  "event FinalizationRejected(uint256 indexed estateId)",
+  "event EstateFinalized(uint256 indexed estateId)",
+  "event EstateCancelled(uint256 indexed estateId)",
+  "event DepositRefunded(uint256 indexed estateId, address indexed depositor, address indexed token, bytes32 amount)",
+  "event AllocationClaimed(uint256 indexed estateId, address indexed heir, address indexed token, bytes32 amount)",
+  "event TokensDeposited(uint256 indexed estateId, address indexed from, address indexed token)",
+  "event TestatorCheckedIn(uint256 indexed estateId, uint256 timestamp)",
+  "event DeathAttested(uint256 indexed estateId, address indexed executor)",
+  "event DeathAttestationChallenged(uint256 indexed estateId)",
+  "event ClaimPeriodSet(uint256 indexed estateId, uint256 period)",
+  "event AllocationExpired(uint256 indexed estateId, address indexed heir)",
+  "event UnclaimedSwept(uint256 indexed estateId, address indexed recipient, address indexed token, bytes32 amount)",
 ];
 
 export function useInheritance(signer: ethers.Signer | null, address: string) {
-  const [tokenContract, setTokenContract] = useState<ethers.Contract | null>(null);
   const [distributionContract, setDistributionContract] = useState<ethers.Contract | null>(null);
+  const [allowedTokens, setAllowedTokens] = useState<TokenInfo[]>([]);
 
   // Multi-estate state
   const [myExecutorEstates, setMyExecutorEstates] = useState<EstateListItem[]>([]);
   const [myHeirEstates, setMyHeirEstates] = useState<EstateListItem[]>([]);
+  const [myTestatorEstates, setMyTestatorEstates] = useState<EstateListItem[]>([]);
+  const [myGuardianEstates, setMyGuardianEstates] = useState<EstateListItem[]>([]);
+  const [myArbiterEstates, setMyArbiterEstates] = useState<EstateListItem[]>([]);
+  const [mySharedEstates, setMySharedEstates] = useState<EstateListItem[]>([]);
+  const [myAuditorEstates, setMyAuditorEstates] = useState<EstateListItem[]>([]);
+  const [archivedEstates, setArchivedEstates] = useState<EstateListItem[]>([]);
 
   // Selected estate context
   const [selectedEstateId, setSelectedEstateId] = useState<number | null>(null);
   const [currentEstate, setCurrentEstate] = useState<EstateInfo | null>(null);
-  const [currentRole, setCurrentRole] = useState<'executor' | 'heir' | null>(null);
+  const [currentRole, setCurrentRole] = useState<EstateRole | null>(null);
 
   // Estate-specific data
   const [heirs, setHeirs] = useState<string[]>([]);
-  const [myAllocation, setMyAllocation] = useState<bigint | null>(null);
+  const [estateTokens, setEstateTokens] = useState<TokenInfo[]>([]);
+  const [proposals, setProposals] = useState<ProposalInfo[]>([]);
+  const [contingencies, setContingencies] = useState<ContingencyInfo[]>([]);
+  const [disclaimers, setDisclaimers] = useState<DisclaimerInfo[]>([]);
+  const [recoveries, setRecoveries] = useState<RecoveryInfo[]>([]);
+  const [wards, setWards] = useState<WardInfo[]>([]);
+  const [sharers, setSharers] = useState<string[]>([]);
+  const [myViewers, setMyViewers] = useState<string[]>([]);
+  const [myAllocation, setMyAllocation] = useState<TokenAmounts | null>(null);
+  const [myShareBps, setMyShareBps] = useState<bigint | null>(null);
+  const [myPaid, setMyPaid] = useState<TokenAmounts | null>(null);
+  const [myVesting, setMyVesting] = useState<VestingInfo | null>(null);
+  const [residuaryHeir, setResiduaryHeir] = useState<string | null>(null);
   const [hasClaimed, setHasClaimed] = useState(false);
+  const [hasDisclaimed, setHasDisclaimed] = useState(false);
+  const [myPendingRecovery, setMyPendingRecovery] = useState<RecoveryInfo | null>(null);
+  const [myGuardianship, setMyGuardianship] = useState<GuardianshipInfo | null>(null);
+  const [hasMyLetter, setHasMyLetter] = useState(false);
 
   // Loading/error state
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const { encrypt64, isEncrypting } = useEncrypt();
-  const { decrypt, isDecrypting } = useDecrypt();
+  // Notifications from live contract events
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextToastId = useRef(0);
+
+  const { encrypt64, encrypt256, isEncrypting } = useEncrypt();
+  const { decrypt, publicDecrypt, isDecrypting } = useDecrypt();
 
   // Initialize contracts
   useEffect(() => {
-    if (!signer || !TOKEN_ADDRESS || !DISTRIBUTION_ADDRESS) return;
+    if (!signer || !DISTRIBUTION_ADDRESS) return;
 
-    const token = new ethers.Contract(TOKEN_ADDRESS, TOKEN_ABI, signer);
     const distribution = new ethers.Contract(DISTRIBUTION_ADDRESS, DISTRIBUTION_ABI, signer);
-
-    setTokenContract(token);
     setDistributionContract(distribution);
   }, [signer]);
 
-  // Load user's estates (both as executor and heir)
+  // Resolve token addresses to their symbols and, for wrappers, the underlying ERC-20
+  const loadTokenInfo = useCallback(async (tokenAddresses: string[]): Promise<TokenInfo[]> => {
+    return Promise.all(
+      tokenAddresses.map(async (tokenAddress) => {
+        try {
+          const token = new ethers.Contract(tokenAddress, TOKEN_ABI, signer);
+          const symbol: string = await token.symbol();
+          const underlyingAddress: string | null = await token.underlying().catch(() => null);
+          if (!underlyingAddress) return { address: tokenAddress, symbol };
+
+          const underlying = new ethers.Contract(underlyingAddress, ERC20_ABI, signer);
+          const [underlyingSymbol, underlyingDecimals] = await Promise.all([underlying.symbol(), underlying.decimals()]);
+          return {
+            address: tokenAddress,
+            symbol,
+            underlying: { address: underlyingAddress, symbol: underlyingSymbol, decimals: Number(underlyingDecimals) },
+          };
+        } catch {
+          return { address: tokenAddress, symbol: `${tokenAddress.slice(0, 6)}...${tokenAddress.slice(-4)}` };
+        }
+      })
+    );
+  }, [signer]);
+
+  // Load the admin's token allowlist
+  useEffect(() => {
+    if (!distributionContract) return;
+
+    distributionContract.getAllowedTokens()
+      .then((tokens: string[]) => loadTokenInfo(tokens))
+      .then(setAllowedTokens)
+      .catch(() => setAllowedTokens([]));
+  }, [distributionContract, loadTokenInfo]);
+
+  // Load user's estates (as executor, heir, guardian, arbiter, auditor, viewer and testator)
   const loadMyEstates = useCallback(async () => {
     if (!distributionContract || !address) return;
 
@@ -99,6 +331,11 @@ export function useInheritance(signer: ethers.Signer | null, address: string) {
       // Get estate IDs
       const executorIds: bigint[] = await distributionContract.getMyExecutorEstates();
       const heirIds: bigint[] = await distributionContract.getMyHeirEstates();
+      const testatorIds: bigint[] = await distributionContract.getMyTestatorEstates();
+      const guardianIds: bigint[] = await distributionContract.getMyGuardianEstates();
+      const arbiterIds: bigint[] = await distributionContract.getMyArbiterEstates();
+      const sharedIds: bigint[] = await distributionContract.getMySharedEstates();
+      const auditorIds: bigint[] = await distributionContract.getMyAuditorEstates();
 
       // Load estate info for executor estates
       const executorEstates: EstateListItem[] = await Promise.all(
@@ -128,8 +365,97 @@ export function useInheritance(signer: ethers.Signer | null, address: string) {
         })
       );
 
+      // Load estate info for testator estates
+      const testatorEstates: EstateListItem[] = await Promise.all(
+        testatorIds.map(async (id) => {
+          const info = await distributionContract.getEstateInfo(id);
+          return {
+            id: Number(id),
+            name: info[4] || `Estate #${id}`,
+            role: 'testator' as const,
+            finalized: info[2],
+            active: info[3],
+          };
+        })
+      );
+
+      // Load estate info for estates where the user still has wards
+      const guardianEstates: EstateListItem[] = await Promise.all(
+        guardianIds.map(async (id) => {
+          const info = await distributionContract.getEstateInfo(id);
+          const estateWards: string[] = await distributionContract.getWards(id, address);
+          return {
+            id: Number(id),
+            name: info[4] || `Estate #${id}`,
+            role: 'guardian' as const,
+            finalized: info[2],
+            active: info[3] && estateWards.length > 0,
+          };
+        })
+      );
+
+      // Load estate info for estates the user still arbitrates
+      const arbiterEstates: EstateListItem[] = await Promise.all(
+        arbiterIds.map(async (id) => {
+          const info = await distributionContract.getEstateInfo(id);
+          const currentArbiter: string = await distributionContract.arbiter(id);
+          return {
+            id: Number(id),
+            name: info[4] || `Estate #${id}`,
+            role: 'arbiter' as const,
+            finalized: info[2],
+            active: info[3] && currentArbiter.toLowerCase() === address.toLowerCase(),
+          };
+        })
+      );
+
+      // Load estate info for estates the user still audits
+      const auditorEstates: EstateListItem[] = await Promise.all(
+        auditorIds.map(async (id) => {
+          const info = await distributionContract.getEstateInfo(id);
+          const auditors: string[] = await distributionContract.getAuditors(id);
+          return {
+            id: Number(id),
+            name: info[4] || `Estate #${id}`,
+            role: 'auditor' as const,
+            finalized: info[2],
+            active: info[3] && auditors.some((auditor) => auditor.toLowerCase() === address.toLowerCase()),
+          };
+        })
+      );
+
+      // Load estate info for estates where heirs still share their allocation with the user
+      const sharedEstates: EstateListItem[] = await Promise.all(
+        sharedIds.map(async (id) => {
+          const info = await distributionContract.getEstateInfo(id);
+          const estateHeirs: string[] = await distributionContract.getHeirs(id);
+          const grants: boolean[] = await Promise.all(
+            estateHeirs.map((heir) => distributionContract.canViewAllocation(id, heir, address))
+          );
+          return {
+            id: Number(id),
+            name: info[4] || `Estate #${id}`,
+            role: 'viewer' as const,
+            finalized: info[2],
+            active: info[3] && grants.some(Boolean),
+          };
+        })
+      );
+
       setMyExecutorEstates(executorEstates.filter(e => e.active));
       setMyHeirEstates(heirEstates.filter(e => e.active));
+      setMyTestatorEstates(testatorEstates.filter(e => e.active));
+      setMyGuardianEstates(guardianEstates.filter(e => e.active));
+      setMyArbiterEstates(arbiterEstates.filter(e => e.active));
+      setMyAuditorEstates(auditorEstates.filter(e => e.active));
+      setMySharedEstates(sharedEstates.filter(e => e.active));
+
+      // Cancelled estates stay visible to their executors and testator in the archive
+      const archived = new Map<number, EstateListItem>();
+      for (const estate of [...executorEstates, ...testatorEstates]) {
+        if (!estate.active && !archived.has(estate.id)) archived.set(estate.id, estate);
+      }
+      setArchivedEstates([...archived.values()]);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load estates");
     } finally {
@@ -151,6 +477,12 @@ export function useInheritance(signer: ethers.Signer | null, address: string) {
 
     try {
       const info = await distributionContract.getEstateInfo(estateId);
+      const status = await distributionContract.getTestatorStatus(estateId);
+      const arbiter: string = await distributionContract.arbiter(estateId);
+      const dispute = await distributionContract.disputes(estateId);
+      const tokenList: string[] = await distributionContract.getEstateTokens(estateId);
+      const tokenInfos = await loadTokenInfo(tokenList);
+      const disclosure = await distributionContract.getDisclosureStatus(estateId);
       const estate: EstateInfo = {
         id: estateId,
         executor: info[0],
@@ -158,34 +490,203 @@ export function useInheritance(signer: ethers.Signer | null, address: string) {
         finalized: info[2],
         active: info[3],
         name: info[4] || `Estate #${estateId}`,
+        testator: status[0],
+        lastCheckIn: Number(status[1]),
+        inactivityPeriod: Number(status[2]),
+        deathAttestedAt: Number(status[3]),
+        claimUnlocked: status[4],
+        coExecutors: await distributionContract.getCoExecutors(estateId),
+        auditors: await distributionContract.getAuditors(estateId),
+        approvalThreshold: Number(await distributionContract.approvalThreshold(estateId)),
+        claimPeriod: Number(await distributionContract.claimPeriod(estateId)),
+        claimDeadline: Number(await distributionContract.claimDeadline(estateId)),
+        outstandingHeirs: Number(await distributionContract.getOutstandingHeirCount(estateId)),
+        finalizationPending: (await distributionContract.solvencyCheck(estateId)) !== ethers.ZeroHash,
+        finalizationRejected: await distributionContract.finalizationRejected(estateId),
+        disclaimerPolicy: DISCLAIMER_POLICIES[Number(await distributionContract.disclaimerPolicy(estateId))],
+        disclaimerAlternate: await distributionContract.disclaimerAlternate(estateId)
+          .then((alternate: string) => alternate === ethers.ZeroAddress ? null : alternate),
+        arbiter: arbiter === ethers.ZeroAddress ? null : arbiter,
+        disputeWindow: Number(await distributionContract.disputeWindow(estateId)),
+        finalizedAt: Number(await distributionContract.finalizedAt(estateId)),
+        dispute: dispute[0] === ethers.ZeroAddress
+          ? null
+          : { raisedBy: dispute[0], raisedAt: Number(dispute[1]), reasonHash: dispute[2] },
+        disclosure: {
+          requested: disclosure[0],
+          disclosedAt: Number(disclosure[1]),
+          totals: Number(disclosure[1]) === 0 ? [] : await Promise.all(
+            tokenInfos.map(async (token) => {
+              const totals = await distributionContract.getDisclosedTotals(estateId, token.address);
+              return { token, allocated: totals[0], paid: totals[1] };
+            })
+          ),
+        },
       };
       setCurrentEstate(estate);
 
       // Determine role
-      const isExecutor = estate.executor.toLowerCase() === address.toLowerCase();
+      const isExecutor: boolean = await distributionContract.isExecutorOf(estateId, address);
       const isHeir = await distributionContract.isHeirOf(estateId, address);
-      setCurrentRole(isExecutor ? 'executor' : (isHeir ? 'heir' : null));
+      const wardList: string[] = await distributionContract.getWards(estateId, address);
+      const isGuardian = wardList.length > 0;
+      const isArbiter = arbiter.toLowerCase() === address.toLowerCase();
+      const isAuditor = estate.auditors.some((auditor) => auditor.toLowerCase() === address.toLowerCase());
+      const heirsList: string[] = await distributionContract.getHeirs(estateId);
+      const sharerList = (await Promise.all(
+        heirsList.map(async (heir) => await distributionContract.canViewAllocation(estateId, heir, address) ? heir : null)
+      )).filter((heir): heir is string => heir !== null);
+      const isViewer = sharerList.length > 0;
+      const isTestator = estate.testator.toLowerCase() === address.toLowerCase();
+      setCurrentRole(
+        isExecutor ? 'executor'
+          : isHeir ? 'heir'
+          : isGuardian ? 'guardian'
+          : isArbiter ? 'arbiter'
+          : isAuditor ? 'auditor'
+          : isViewer ? 'viewer'
+          : isTestator ? 'testator'
+          : null
+      );
 
       // Load heirs
-      const heirsList = await distributionContract.getHeirs(estateId);
       setHeirs(heirsList);
+      setSharers(sharerList);
+
+      setEstateTokens(tokenInfos);
+
+      const residuary: string = await distributionContract.residuaryHeir(estateId);
+      setResiduaryHeir(residuary === ethers.ZeroAddress ? null : residuary);
+
+      // If executor, load pending proposals
+      if (isExecutor) {
+        const proposalIds: bigint[] = await distributionContract.getEstateProposals(estateId);
+        const loaded: ProposalInfo[] = await Promise.all(
+          proposalIds.map(async (id) => {
+            const p = await distributionContract.proposals(id);
+            return {
+              id: Number(id),
+              action: PROPOSAL_ACTIONS[Number(p[1])],
+              target: p[2],
+              param: Number(p[4]),
+              proposer: p[6],
+              approvals: Number(p[7]),
+              executed: p[8],
+              approvedByMe: await distributionContract.hasApproved(id, address),
+            };
+          })
+        );
+        setProposals(loaded.filter(p => !p.executed));
+
+        const tree: ContingencyInfo[] = await Promise.all(
+          heirsList.map(async (heir) => ({
+            heir,
+            contingents: await distributionContract.getContingents(estateId, heir),
+            lapsed: await distributionContract.lapsed(estateId, heir),
+            claimed: await distributionContract.hasClaimed(estateId, heir),
+          }))
+        );
+        setContingencies(tree);
+
+        const disclaimerEvents = await distributionContract.queryFilter(
+          distributionContract.filters.HeirDisclaimed(estateId)
+        );
+        setDisclaimers(await Promise.all(
+          disclaimerEvents.map(async (event) => {
+            const { args } = event as ethers.EventLog;
+            const block = await event.getBlock();
+            return {
+              heir: args.heir,
+              policy: DISCLAIMER_POLICIES[Number(args.policy)],
+              timestamp: block.timestamp,
+            };
+          })
+        ));
+
+        const recoveringHeirs: string[] = await distributionContract.getPendingRecoveries(estateId);
+        setRecoveries(await Promise.all(
+          recoveringHeirs.map(async (heir) => {
+            const request = await distributionContract.pendingRecoveries(estateId, heir);
+            return { heir, newAddress: request[0], executeAfter: Number(request[1]) };
+          })
+        ));
+      } else {
+        setProposals([]);
+        setContingencies([]);
+        setDisclaimers([]);
+        setRecoveries([]);
+      }
+
+      // If guardian, load the wards' guardianship terms
+      if (isGuardian) {
+        setWards(await Promise.all(
+          wardList.map(async (heir) => {
+            const guardianship = await distributionContract.guardianships(estateId, heir);
+            return {
+              heir,
+              majorityAt: Number(guardianship[1]),
+              maintenanceBps: Number(guardianship[2]),
+              claimed: await distributionContract.hasClaimed(estateId, heir),
+            };
+          })
+        ));
+      } else {
+        setWards([]);
+      }
 
       // If heir, check claim status
       if (isHeir) {
         const claimed = await distributionContract.hasClaimed(estateId, address);
         setHasClaimed(claimed);
+        setHasDisclaimed(claimed && await distributionContract.disclaimed(estateId, address));
+
+        setMyViewers(await distributionContract.getMyAllocationViewers(estateId));
+        setHasMyLetter(await distributionContract.hasLetter(estateId, address));
+
+        const recovery = await distributionContract.pendingRecoveries(estateId, address);
+        setMyPendingRecovery(recovery[0] === ethers.ZeroAddress
+          ? null
+          : { heir: address, newAddress: recovery[0], executeAfter: Number(recovery[1]) });
+
+        const guardianship = await distributionContract.guardianships(estateId, address);
+        setMyGuardianship(guardianship[0] === ethers.ZeroAddress
+          ? null
+          : { guardian: guardianship[0], majorityAt: Number(guardianship[1]), maintenanceBps: Number(guardianship[2]) });
+
+        const schedule = await distributionContract.vestingSchedules(estateId, address);
+        if (Number(schedule[2]) > 0) {
+          const fraction = await distributionContract.vestedFraction(estateId, address);
+          setMyVesting({
+            start: Number(schedule[0]),
+            cliff: Number(schedule[1]),
+            duration: Number(schedule[2]),
+            installments: Number(schedule[3]),
+            vestedNumerator: fraction[0],
+            vestedDenominator: fraction[1],
+          });
+        } else {
+          setMyVesting(null);
+        }
       } else {
         setHasClaimed(false);
+        setHasDisclaimed(false);
+        setMyPendingRecovery(null);
+        setMyViewers([]);
+        setHasMyLetter(false);
+        setMyGuardianship(null);
+        setMyVesting(null);
       }
 
       // Reset allocation when switching estates
       setMyAllocation(null);
+      setMyShareBps(null);
+      setMyPaid(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load estate");
     } finally {
       setIsLoading(false);
     }
-  }, [distributionContract, address]);
+  }, [distributionContract, address, loadTokenInfo]);
 
   // Select an estate
   const selectEstate = useCallback((estateId: number | null) => {
@@ -193,8 +694,24 @@ export function useInheritance(signer: ethers.Signer | null, address: string) {
     setCurrentEstate(null);
     setCurrentRole(null);
     setHeirs([]);
+    setEstateTokens([]);
+    setProposals([]);
+    setContingencies([]);
+    setDisclaimers([]);
+    setRecoveries([]);
+    setWards([]);
+    setSharers([]);
+    setMyViewers([]);
+    setHasMyLetter(false);
     setMyAllocation(null);
+    setMyShareBps(null);
+    setMyPaid(null);
+    setMyVesting(null);
+    setResiduaryHeir(null);
     setHasClaimed(false);
+    setHasDisclaimed(false);
+    setMyPendingRecovery(null);
+    setMyGuardianship(null);
     setError(null);
 
     if (estateId !== null) {
@@ -202,11 +719,206 @@ export function useInheritance(signer: ethers.Signer | null, address: string) {
     }
   }, [loadEstateData]);
 
+  const notify = useCallback((kind: Toast['kind'], message: string) => {
+    const id = ++nextToastId.current;
+    setToasts((prev) => [...prev, { id, kind, message }]);
+  }, []);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts((prev) => prev.filter((toast) => toast.id !== id));
+  }, []);
+
+  // Live updates: the user's estate lists follow events naming their address in any estate
+  useEffect(() => {
+    if (!distributionContract || !address) return;
+
+    const isMe = (account: string) => account.toLowerCase() === address.toLowerCase();
+    const listItem = async (estateId: bigint, role: 'executor' | 'heir'): Promise<EstateListItem> => {
+      const info = await distributionContract.getEstateInfo(estateId);
+      return { id: Number(estateId), name: info[4] || `Estate #${estateId}`, role, finalized: info[2], active: info[3] };
+    };
+    const add = (list: EstateListItem[], item: EstateListItem) =>
+      list.some((e) => e.id === item.id) ? list : [...list, item];
+    const drop = (estateId: bigint) => (list: EstateListItem[]) => list.filter((e) => e.id !== Number(estateId));
+
+    const subscriptions: [ethers.ContractEventName, ethers.Listener][] = [
+      [distributionContract.filters.HeirAdded(null, address), async (estateId: bigint) => {
+        const item = await listItem(estateId, 'heir');
+        setMyHeirEstates((prev) => add(prev, item));
+        notify('success', `You were named an heir of ${item.name}`);
+      }],
+      [distributionContract.filters.HeirRemoved(null, address), (estateId: bigint) => {
+        setMyHeirEstates(drop(estateId));
+        notify('warning', `You were removed as an heir of estate #${estateId}`);
+      }],
+      [distributionContract.filters.HeirRecovered(null, null, address), async (estateId: bigint, previousAddress: string) => {
+        if (isMe(previousAddress)) return;
+        const item = await listItem(estateId, 'heir');
+        setMyHeirEstates((prev) => add(prev, item));
+        notify('success', `Your inheritance from ${item.name} moved to this wallet`);
+      }],
+      [distributionContract.filters.HeirRecovered(null, address), (estateId: bigint, _previousAddress: string, newAddress: string) => {
+        if (isMe(newAddress)) return;
+        setMyHeirEstates(drop(estateId));
+        notify('warning', `Your inheritance from estate #${estateId} moved to ${newAddress.slice(0, 6)}...${newAddress.slice(-4)}`);
+      }],
+      [distributionContract.filters.CoExecutorAdded(null, address), async (estateId: bigint) => {
+        const item = await listItem(estateId, 'executor');
+        setMyExecutorEstates((prev) => add(prev, item));
+        notify('success', `You were made a co-executor of ${item.name}`);
+      }],
+      [distributionContract.filters.CoExecutorRemoved(null, address), (estateId: bigint) => {
+        setMyExecutorEstates(drop(estateId));
+        notify('warning', `You are no longer a co-executor of estate #${estateId}`);
+      }],
+    ];
+
+    for (const [event, listener] of subscriptions) distributionContract.on(event, listener);
+    return () => {
+      for (const [event, listener] of subscriptions) distributionContract.off(event, listener);
+    };
+  }, [distributionContract, address, notify]);
+
+  // Live updates: the selected estate's events, restricted to the user's own for everyone but executors
+  useEffect(() => {
+    if (!distributionContract || !address || selectedEstateId === null || currentRole === null) return;
+
+    const isSame = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+    const isMe = (account: string) => isSame(account, address);
+    const shorten = (account: string) => `${account.slice(0, 6)}...${account.slice(-4)}`;
+    const isExecutor = currentRole === 'executor';
+    const notified = new Set<string>();
+
+    // Toast once per transaction and event, and never for the user's own transactions
+    const notifyOthers = async (payload: ethers.ContractEventPayload, kind: Toast['kind'], message: string) => {
+      const key = `${payload.log.transactionHash}-${payload.log.eventName}`;
+      if (notified.has(key)) return;
+      notified.add(key);
+      const tx = await payload.log.getTransaction();
+      if (!isMe(tx.from)) notify(kind, message);
+    };
+
+    const refreshOutstanding = async () => {
+      const outstandingHeirs = Number(await distributionContract.getOutstandingHeirCount(selectedEstateId));
+      setCurrentEstate((prev) => prev && { ...prev, outstandingHeirs });
+    };
+
+    const patchLists = (patch: Partial<EstateListItem>) => {
+      const update = (list: EstateListItem[]) => list.map((e) => e.id === selectedEstateId ? { ...e, ...patch } : e);
+      setMyExecutorEstates(update);
+      setMyHeirEstates(update);
+      setMyTestatorEstates(update);
+      setMyGuardianEstates(update);
+      setMyArbiterEstates(update);
+      setMyAuditorEstates(update);
+      setMySharedEstates(update);
+    };
+
+    const subscriptions: [ethers.ContractEventName, ethers.Listener][] = [
+      [distributionContract.filters.EstateFinalized(selectedEstateId), async (_estateId: bigint, payload: ethers.ContractEventPayload) => {
+        const block = await payload.log.getBlock();
+        setCurrentEstate((prev) => prev && {
+          ...prev,
+          finalized: true,
+          finalizationPending: false,
+          finalizationRejected: false,
+          finalizedAt: block.timestamp,
+        });
+        patchLists({ finalized: true });
+        await notifyOthers(payload, 'success', "The estate was finalized");
+      }],
+      [distributionContract.filters.EstateCancelled(selectedEstateId), async (_estateId: bigint, payload: ethers.ContractEventPayload) => {
+        setCurrentEstate((prev) => prev && { ...prev, active: false });
+        patchLists({ active: false });
+        await notifyOthers(payload, 'warning', "The estate was cancelled");
+      }],
+    ];
+
+    if (isExecutor) {
+      subscriptions.push(
+        [distributionContract.filters.HeirAdded(selectedEstateId), async (_estateId: bigint, heir: string, payload: ethers.ContractEventPayload) => {
+          setHeirs((prev) => prev.some((h) => isSame(h, heir)) ? prev : [...prev, heir]);
+          await refreshOutstanding();
+          await notifyOthers(payload, 'info', `Heir ${shorten(heir)} was added`);
+        }],
+        [distributionContract.filters.HeirRemoved(selectedEstateId), async (_estateId: bigint, heir: string, payload: ethers.ContractEventPayload) => {
+          setHeirs((prev) => prev.filter((h) => !isSame(h, heir)));
+          await refreshOutstanding();
+          await notifyOthers(payload, 'info', `Heir ${shorten(heir)} was removed`);
+        }],
+        [distributionContract.filters.HeirRecovered(selectedEstateId), async (_estateId: bigint, previousAddress: string, newAddress: string, payload: ethers.ContractEventPayload) => {
+          setHeirs((prev) => prev.map((h) => isSame(h, previousAddress) ? newAddress : h));
+          await notifyOthers(payload, 'info', `Heir ${shorten(previousAddress)} moved to ${shorten(newAddress)}`);
+        }],
+        [distributionContract.filters.AllocationClaimed(selectedEstateId), async (_estateId: bigint, heir: string, _token: string, _amount: string, payload: ethers.ContractEventPayload) => {
+          await refreshOutstanding();
+          await notifyOthers(payload, 'success', `Heir ${shorten(heir)} was paid from the estate`);
+        }],
+        [distributionContract.filters.HeirDisclaimed(selectedEstateId), async (_estateId: bigint, heir: string, _policy: bigint, payload: ethers.ContractEventPayload) => {
+          await refreshOutstanding();
+          await notifyOthers(payload, 'info', `Heir ${shorten(heir)} disclaimed their inheritance`);
+        }],
+        [distributionContract.filters.TokensDeposited(selectedEstateId), async (_estateId: bigint, from: string, _token: string, payload: ethers.ContractEventPayload) => {
+          await notifyOthers(payload, 'info', `${shorten(from)} deposited into the estate`);
+        }],
+      );
+    } else {
+      subscriptions.push(
+        // Vesting installments and a guardian's maintenance draws are payouts too, so ask whether the claim is complete
+        [distributionContract.filters.AllocationClaimed(selectedEstateId, address), async () => {
+          setHasClaimed(await distributionContract.hasClaimed(selectedEstateId, address));
+        }],
+        [distributionContract.filters.HeirDisclaimed(selectedEstateId, address), () => {
+          setHasClaimed(true);
+          setHasDisclaimed(true);
+        }],
+        [distributionContract.filters.RecoveryProposed(selectedEstateId, address), async (_estateId: bigint, heir: string, newAddress: string, executeAfter: bigint, payload: ethers.ContractEventPayload) => {
+          setMyPendingRecovery({ heir, newAddress, executeAfter: Number(executeAfter) });
+          await notifyOthers(payload, 'warning', `An executor proposed moving your inheritance to ${shorten(newAddress)}`);
+        }],
+        [distributionContract.filters.RecoveryVetoed(selectedEstateId, address), () => {
+          setMyPendingRecovery(null);
+        }],
+      );
+    }
+
+    for (const [event, listener] of subscriptions) distributionContract.on(event, listener);
+    return () => {
+      for (const [event, listener] of subscriptions) distributionContract.off(event, listener);
+    };
+  }, [distributionContract, address, selectedEstateId, currentRole, notify]);
+
+  // Live updates: payouts of the estate's tokens from the distribution contract to the user. Transfers in the
+  // user's own transactions are skipped, which leaves out the refunds of rejected deposits.
+  useEffect(() => {
+    if (!signer || !address || estateTokens.length === 0) return;
+
+    const subscriptions = estateTokens.map((token) => {
+      const contract = new ethers.Contract(token.address, TOKEN_ABI, signer);
+      const listener = async (_from: string, _to: string, payload: ethers.ContractEventPayload) => {
+        const tx = await payload.log.getTransaction();
+        if (tx.from.toLowerCase() !== address.toLowerCase()) notify('success', `You received ${token.symbol}`);
+      };
+      contract.on(contract.filters.ConfidentialTransfer(DISTRIBUTION_ADDRESS, address), listener);
+      return { contract, listener };
+    });
+
+    return () => {
+      for (const { contract, listener } of subscriptions) {
+        contract.off(contract.filters.ConfidentialTransfer(DISTRIBUTION_ADDRESS, address), listener);
+      }
+    };
+  }, [signer, address, estateTokens, notify]);
+
   // Create new estate
-  const createEstate = useCallback(async (name: string): Promise<number> => {
+  const createEstate = useCallback(async (
+    name: string,
+    testator: string,
+    inactivityPeriod: number
+  ): Promise<number> => {
     if (!distributionContract) throw new Error("Not connected");
 
-    const tx = await distributionContract.createEstate(name);
+    const tx = await distributionContract.createEstate(name, testator, inactivityPeriod);
     const receipt = await tx.wait();
 
     // Parse event to get estate ID
@@ -230,38 +942,76 @@ export function useInheritance(signer: ethers.Signer | null, address: string) {
     return estateId;
   }, [distributionContract, loadMyEstates]);
 
-  // Decrypt my allocation for current estate
+  // Decrypt my allocation of every estate token for current estate
   const decryptMyAllocation = useCallback(async () => {
     if (!distributionContract || !signer || !address || selectedEstateId === null) return;
 
     try {
-      const handle = await distributionContract.getMyAllocation(selectedEstateId);
-      if (!handle || handle === ethers.ZeroHash) {
-        setMyAllocation(BigInt(0));
-        return;
-      }
-
-      const results = await decrypt(
-        [{ handle: handle.toString(), contractAddress: DISTRIBUTION_ADDRESS }],
-        signer,
-        address,
-        [DISTRIBUTION_ADDRESS]
+      const allocationHandles: string[] = await Promise.all(
+        estateTokens.map((token) => distributionContract.getMyAllocation(selectedEstateId, token.address))
       );
-
-      setMyAllocation(results.get(handle.toString()) ?? BigInt(0));
+      const paidHandles: string[] = await Promise.all(
+        estateTokens.map((token) => distributionContract.getMyPaidAmount(selectedEstateId, token.address))
+      );
+      const isShare: boolean = await distributionContract.isShareHeir(selectedEstateId, address);
+      const shareHandle = isShare ? await distributionContract.getMyShare(selectedEstateId) : null;
+
+      const handles = [...allocationHandles, ...paidHandles, shareHandle]
+        .filter((h) => h && h !== ethers.ZeroHash)
+        .map((h) => ({ handle: h!.toString(), contractAddress: DISTRIBUTION_ADDRESS }));
+      const results = handles.length > 0
+        ? await decrypt(handles, signer, address, [DISTRIBUTION_ADDRESS])
+        : new Map<string, bigint>();
+
+      const allocation: TokenAmounts = new Map();
+      const paid: TokenAmounts = new Map();
+      estateTokens.forEach((token, i) => {
+        allocation.set(token.address, results.get(allocationHandles[i].toString()) ?? BigInt(0));
+        paid.set(token.address, results.get(paidHandles[i].toString()) ?? BigInt(0));
+      });
+
+      setMyAllocation(allocation);
+      setMyShareBps(shareHandle ? results.get(shareHandle.toString()) ?? null : null);
+      setMyPaid(paid);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to decrypt allocation");
     }
-  }, [distributionContract, signer, address, selectedEstateId, decrypt]);
+  }, [distributionContract, signer, address, selectedEstateId, estateTokens, decrypt]);
 
-  // Executor: Get heir allocation
-  const getHeirAllocation = useCallback(async (heirAddress: string): Promise<bigint | null> => {
+  // Executor: Get heir allocation of every estate token
+  const getHeirAllocation = useCallback(async (heirAddress: string): Promise<TokenAmounts | null> => {
     if (!distributionContract || !signer || !address || selectedEstateId === null) return null;
 
     try {
-      const handle = await distributionContract.getAllocation(selectedEstateId, heirAddress);
-      if (!handle || handle === ethers.ZeroHash) return BigInt(0);
+      const handles: string[] = await Promise.all(
+        estateTokens.map((token) => distributionContract.getAllocation(selectedEstateId, heirAddress, token.address))
+      );
+      const initialized = handles
+        .filter((h) => h && h !== ethers.ZeroHash)
+        .map((h) => ({ handle: h.toString(), contractAddress: DISTRIBUTION_ADDRESS }));
+      const results = initialized.length > 0
+        ? await decrypt(initialized, signer, address, [DISTRIBUTION_ADDRESS])
+        : new Map<string, bigint>();
+
+      const allocation: TokenAmounts = new Map();
+      estateTokens.forEach((token, i) => {
+        allocation.set(token.address, results.get(handles[i].toString()) ?? BigInt(0));
+      });
+      return allocation;
+    } catch {
+      return null;
+    }
+  }, [distributionContract, signer, address, selectedEstateId, estateTokens, decrypt]);
+
+  // Executor: Get heir percentage share in basis points (null for amount heirs)
+  const getHeirShare = useCallback(async (heirAddress: string): Promise<bigint | null> => {
+    if (!distributionContract || !signer || !address || selectedEstateId === null) return null;
+
+    try {
+      const isShare: boolean = await distributionContract.isShareHeir(selectedEstateId, heirAddress);
+      if (!isShare) return null;
 
+      const handle = await distributionContract.getShare(selectedEstateId, heirAddress);
       const results = await decrypt(
         [{ handle: handle.toString(), contractAddress: DISTRIBUTION_ADDRESS }],
         signer,
@@ -275,95 +1025,769 @@ export function useInheritance(signer: ethers.Signer | null, address: string) {
     }
   }, [distributionContract, signer, address, selectedEstateId, decrypt]);
 
-  // Executor: Mint tokens
-  const mintTokens = useCallback(async (amount: bigint) => {
-    if (!tokenContract || !address) throw new Error("Not connected");
+  // Executor: Check whether an heir was added with a percentage share
+  const checkShareHeir = useCallback(async (heirAddress: string): Promise<boolean> => {
+    if (!distributionContract || selectedEstateId === null) return false;
 
-    const tx = await tokenContract.mintPlaintext(address, amount);
-    await tx.wait();
-    return tx;
-  }, [tokenContract, address]);
+    try {
+      return await distributionContract.isShareHeir(selectedEstateId, heirAddress);
+    } catch {
+      return false;
+    }
+  }, [distributionContract, selectedEstateId]);
+
+  // Executor: Wrap an ERC-20 and deposit the confidential balance into the current estate in one step
+  const wrapAndDeposit = useCallback(async (tokenAddress: string, amount: bigint) => {
+    if (!signer || !address || selectedEstateId === null) throw new Error("Not connected or no estate selected");
 
-  // Executor: Set distribution contract as operator
-  const setDistributionAsOperator = useCallback(async () => {
-    if (!tokenContract) throw new Error("Not connected");
+    const token = new ethers.Contract(tokenAddress, TOKEN_ABI, signer);
+    const underlying = new ethers.Contract(await token.underlying(), ERC20_ABI, signer);
+
+    // The wrapper pulls the underlying from the caller
+    const allowance: bigint = await underlying.allowance(address, tokenAddress);
+    if (allowance < amount) {
+      const approveTx = await underlying.approve(tokenAddress, amount);
+      await approveTx.wait();
+    }
 
-    const until = Math.floor(Date.now() / 1000) + 365 * 24 * 60 * 60;
-    const tx = await tokenContract.setOperator(DISTRIBUTION_ADDRESS, until);
+    const estateIdData = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [selectedEstateId]);
+    const tx = await token.wrapAndCall(DISTRIBUTION_ADDRESS, amount, estateIdData);
     await tx.wait();
+    await loadEstateData(selectedEstateId);
     return tx;
-  }, [tokenContract]);
+  }, [signer, address, selectedEstateId, loadEstateData]);
+
+  // Heir: Unwrap a confidential balance back to the underlying ERC-20 (burn, then publicly decrypt and release)
+  const unwrapTokens = useCallback(async (tokenAddress: string, amount: bigint) => {
+    if (!signer || !address) throw new Error("Not connected");
+
+    const encrypted = await encrypt64(tokenAddress, address, amount);
+    if (!encrypted) throw new Error("Failed to encrypt amount");
+
+    const token = new ethers.Contract(tokenAddress, TOKEN_ABI, signer);
+    const tx = await token.unwrap(address, encrypted.handles[0], encrypted.inputProof);
+    const receipt = await tx.wait();
+
+    // Parse event to get the burned handle
+    let burned: string | null = null;
+    for (const log of receipt.logs) {
+      try {
+        const parsed = token.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === "UnwrapRequested") {
+          burned = parsed.args[2];
+          break;
+        }
+      } catch {
+        // Skip logs that don't match our ABI
+      }
+    }
+    if (!burned) throw new Error("Unwrap request not found");
+
+    const result = await publicDecrypt([burned]);
+    if (!result) throw new Error("Failed to decrypt unwrapped amount");
+
+    const finalizeTx = await token.finalizeUnwrap(burned, result.abiEncodedClearValues, result.decryptionProof);
+    await finalizeTx.wait();
+    return finalizeTx;
+  }, [signer, address, encrypt64, publicDecrypt]);
 
   // Executor: Deposit tokens to distribution contract for a specific estate
-  const depositTokens = useCallback(async (amount: bigint) => {
-    if (!tokenContract || !address || selectedEstateId === null) throw new Error("Not connected or no estate selected");
+  const depositTokens = useCallback(async (tokenAddress: string, amount: bigint) => {
+    if (!signer || !address || selectedEstateId === null) throw new Error("Not connected or no estate selected");
 
-    const encrypted = await encrypt64(TOKEN_ADDRESS, address, amount);
+    const encrypted = await encrypt64(tokenAddress, address, amount);
     if (!encrypted) throw new Error("Failed to encrypt amount");
 
     // Encode estate ID for routing
     const estateIdData = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [selectedEstateId]);
 
-    const tx = await tokenContract.confidentialTransferAndCall(
+    const token = new ethers.Contract(tokenAddress, TOKEN_ABI, signer);
+    const tx = await token.confidentialTransferAndCall(
       DISTRIBUTION_ADDRESS,
       encrypted.handles[0],
       encrypted.inputProof,
       estateIdData
     );
     await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [signer, address, selectedEstateId, encrypt64, loadEstateData]);
+
+  // Executor: Submit a proposal for co-executor approval (executes immediately at threshold 1)
+  const submitProposal = useCallback(async (
+    action: ProposalAction,
+    target: string,
+    param = 0,
+    value?: bigint,
+    token: string = ethers.ZeroAddress
+  ) => {
+    if (!distributionContract || !address || selectedEstateId === null) throw new Error("No estate selected");
+
+    let handle: string | Uint8Array = ethers.ZeroHash;
+    let inputProof: string | Uint8Array = "0x";
+    if (value !== undefined) {
+      const encrypted = await encrypt64(DISTRIBUTION_ADDRESS, address, value);
+      if (!encrypted) throw new Error("Failed to encrypt value");
+      handle = encrypted.handles[0];
+      inputProof = encrypted.inputProof;
+    }
+
+    const tx = await distributionContract.propose(
+      selectedEstateId,
+      PROPOSAL_ACTIONS.indexOf(action),
+      target,
+      token,
+      param,
+      handle,
+      inputProof
+    );
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, address, selectedEstateId, encrypt64, loadEstateData]);
+
+  const requiresProposal = (currentEstate?.approvalThreshold ?? 1) > 1;
+
+  // Executor: Approve a pending proposal
+  const approveProposal = useCallback(async (proposalId: number) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.approveProposal(proposalId);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    await loadMyEstates();
+    return tx;
+  }, [distributionContract, selectedEstateId, loadEstateData, loadMyEstates]);
+
+  // Executor: Add a co-executor
+  const addCoExecutor = useCallback(async (coExecutor: string) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) return submitProposal('AddCoExecutor', coExecutor);
+
+    const tx = await distributionContract.addCoExecutor(selectedEstateId, coExecutor);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, requiresProposal, submitProposal, loadEstateData]);
+
+  // Executor: Remove a co-executor
+  const removeCoExecutor = useCallback(async (coExecutor: string) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) return submitProposal('RemoveCoExecutor', coExecutor);
+
+    const tx = await distributionContract.removeCoExecutor(selectedEstateId, coExecutor);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, requiresProposal, submitProposal, loadEstateData]);
+
+  // Executor: Set the number of approvals required for sensitive actions
+  const setApprovalThreshold = useCallback(async (threshold: number) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) return submitProposal('SetApprovalThreshold', ethers.ZeroAddress, threshold);
+
+    const tx = await distributionContract.setApprovalThreshold(selectedEstateId, threshold);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, requiresProposal, submitProposal, loadEstateData]);
+
+  // Seal a letter in the browser and store it for an heir; only its one-time key is FHE-encrypted
+  const sendLetter = useCallback(async (heirAddress: string, text: string) => {
+    if (!distributionContract || !address || selectedEstateId === null) throw new Error("No estate selected");
+
+    const { ciphertext, key } = await sealLetter(text);
+    const encrypted = await encrypt256(DISTRIBUTION_ADDRESS, address, key);
+    if (!encrypted) throw new Error("Failed to encrypt letter key");
+
+    const tx = await distributionContract.setLetter(
+      selectedEstateId,
+      heirAddress,
+      ciphertext,
+      encrypted.handles[0],
+      encrypted.inputProof
+    );
+    await tx.wait();
     return tx;
-  }, [tokenContract, address, selectedEstateId, encrypt64]);
+  }, [distributionContract, address, selectedEstateId, encrypt256]);
+
+  // Executor: Add heir to current estate (value is token units or basis points depending on mode)
+  const addHeir = useCallback(async (
+    heirAddress: string,
+    value: bigint,
+    { mode = 'amount', token, isResiduary = false, vesting, guardian }: AddHeirOptions = {}
+  ) => {
+    if (!distributionContract || !address || selectedEstateId === null) throw new Error("No estate selected");
+    if (mode === 'amount' && !token) throw new Error("Select the token of the allocation");
+
+    if (requiresProposal) {
+      if (isResiduary || vesting || guardian) {
+        throw new Error("Lower the approval threshold to 1 to set residuary, vesting or guardian options");
+      }
+      return mode === 'percentage'
+        ? submitProposal('AddHeirWithShare', heirAddress, 0, value)
+        : submitProposal('AddHeir', heirAddress, 0, value, token);
+    }
+
+    const encrypted = await encrypt64(DISTRIBUTION_ADDRESS, address, value);
+    if (!encrypted) throw new Error("Failed to encrypt allocation");
+
+    const tx = mode === 'percentage'
+      ? await distributionContract.addHeirWithShare(selectedEstateId, heirAddress, encrypted.handles[0], encrypted.inputProof)
+      : await distributionContract.addHeir(selectedEstateId, heirAddress, token, encrypted.handles[0], encrypted.inputProof);
+    await tx.wait();
 
-  // Executor: Add heir to current estate
-  const addHeir = useCallback(async (heirAddress: string, allocation: bigint) => {
+    if (isResiduary) {
+      const residuaryTx = await distributionContract.setResiduaryHeir(selectedEstateId, heirAddress);
+      await residuaryTx.wait();
+    }
+
+    if (vesting) {
+      const vestingTx = await distributionContract.setVestingSchedule(
+        selectedEstateId,
+        heirAddress,
+        vesting.start,
+        vesting.cliff,
+        vesting.duration,
+        vesting.installments
+      );
+      await vestingTx.wait();
+    }
+
+    if (guardian) {
+      const guardianTx = await distributionContract.setGuardian(
+        selectedEstateId,
+        heirAddress,
+        guardian.guardian,
+        guardian.majorityAt,
+        guardian.maintenanceBps
+      );
+      await guardianTx.wait();
+    }
+
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, address, selectedEstateId, requiresProposal, submitProposal, encrypt64, loadEstateData]);
+
+  // Testator: Attach a sealed letter to an heir, replacing any earlier one; an empty text removes it
+  const setHeirLetter = useCallback(async (heirAddress: string, text: string) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = text
+      ? await sendLetter(heirAddress, text)
+      : await distributionContract.setLetter(selectedEstateId, heirAddress, "0x", ethers.ZeroHash, "0x");
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, sendLetter, loadEstateData]);
+
+  // Executor: Name the estate's arbiter and dispute window, or remove the arbiter with the zero address
+  const setArbiter = useCallback(async (arbiterAddress: string, window: number) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) throw new Error("Lower the approval threshold to 1 before changing the arbiter");
+
+    const tx = await distributionContract.setArbiter(selectedEstateId, arbiterAddress, window);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, requiresProposal, loadEstateData]);
+
+  // Executor: Put a minor heir under a guardian, or remove the guardian with the zero address
+  const setGuardian = useCallback(async (
+    heirAddress: string,
+    { guardian, majorityAt, maintenanceBps }: GuardianshipInfo
+  ) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) throw new Error("Lower the approval threshold to 1 before changing a guardian");
+
+    const tx = await distributionContract.setGuardian(selectedEstateId, heirAddress, guardian, majorityAt, maintenanceBps);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, requiresProposal, loadEstateData]);
+
+  // Executor: Replace an heir's allocation of a token (token units, or basis points for percentage heirs)
+  const updateAllocation = useCallback(async (
+    heirAddress: string,
+    value: bigint,
+    token: string = ethers.ZeroAddress
+  ) => {
     if (!distributionContract || !address || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) return submitProposal('UpdateAllocation', heirAddress, 0, value, token);
 
-    const encrypted = await encrypt64(DISTRIBUTION_ADDRESS, address, allocation);
+    const encrypted = await encrypt64(DISTRIBUTION_ADDRESS, address, value);
     if (!encrypted) throw new Error("Failed to encrypt allocation");
 
-    const tx = await distributionContract.addHeir(
+    const tx = await distributionContract.updateAllocation(
       selectedEstateId,
       heirAddress,
+      token,
       encrypted.handles[0],
       encrypted.inputProof
     );
     await tx.wait();
     await loadEstateData(selectedEstateId);
     return tx;
-  }, [distributionContract, address, selectedEstateId, encrypt64, loadEstateData]);
+  }, [distributionContract, address, selectedEstateId, requiresProposal, submitProposal, encrypt64, loadEstateData]);
+
+  // Executor: Name a contingent beneficiary with a share (basis points) of an heir's allocation
+  const addContingent = useCallback(async (heirAddress: string, contingent: string, shareBps: bigint) => {
+    if (!distributionContract || !address || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) throw new Error("Lower the approval threshold to 1 before naming a contingent");
+
+    const encrypted = await encrypt64(DISTRIBUTION_ADDRESS, address, shareBps);
+    if (!encrypted) throw new Error("Failed to encrypt share");
+
+    const tx = await distributionContract.addContingent(
+      selectedEstateId,
+      heirAddress,
+      contingent,
+      encrypted.handles[0],
+      encrypted.inputProof
+    );
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, address, selectedEstateId, requiresProposal, encrypt64, loadEstateData]);
+
+  // Executor: Pass a lapsed heir's allocation to their contingents
+  const recordLapse = useCallback(async (heirAddress: string) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) return submitProposal('RecordLapse', heirAddress);
+
+    const tx = await distributionContract.recordLapse(selectedEstateId, heirAddress);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, requiresProposal, submitProposal, loadEstateData]);
+
+  // Executor: Get a contingent's share of an heir's allocation in basis points
+  const getContingentShare = useCallback(async (heirAddress: string, contingent: string): Promise<bigint | null> => {
+    if (!distributionContract || !signer || !address || selectedEstateId === null) return null;
+
+    try {
+      const handle = await distributionContract.getContingentShare(selectedEstateId, heirAddress, contingent);
+      const results = await decrypt(
+        [{ handle: handle.toString(), contractAddress: DISTRIBUTION_ADDRESS }],
+        signer,
+        address,
+        [DISTRIBUTION_ADDRESS]
+      );
+
+      return results.get(handle.toString()) ?? null;
+    } catch {
+      return null;
+    }
+  }, [distributionContract, signer, address, selectedEstateId, decrypt]);
+
+  // Executor: Appoint an auditor who can decrypt the estate totals but no individual allocation
+  const addAuditor = useCallback(async (auditor: string) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.addAuditor(selectedEstateId, auditor);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, loadEstateData]);
+
+  // Executor: Remove an auditor (totals they already decrypted stay known to them)
+  const removeAuditor = useCallback(async (auditor: string) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.removeAuditor(selectedEstateId, auditor);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, loadEstateData]);
+
+  // Auditor: Decrypt the balance, total allocated and total paid out of every estate token
+  const getAuditTotals = useCallback(async (): Promise<AuditTotals | null> => {
+    if (!distributionContract || !signer || !address || selectedEstateId === null) return null;
+
+    try {
+      const triples: string[][] = await Promise.all(
+        estateTokens.map((token) => distributionContract.getAuditTotals(selectedEstateId, token.address))
+      );
+      const handles = triples
+        .flatMap((triple) => [...triple])
+        .filter((h) => h && h !== ethers.ZeroHash)
+        .map((h) => ({ handle: h.toString(), contractAddress: DISTRIBUTION_ADDRESS }));
+      const results = handles.length > 0
+        ? await decrypt(handles, signer, address, [DISTRIBUTION_ADDRESS])
+        : new Map<string, bigint>();
+
+      const totals: AuditTotals = { balance: new Map(), allocated: new Map(), paid: new Map() };
+      estateTokens.forEach((token, i) => {
+        totals.balance.set(token.address, results.get(triples[i][0].toString()) ?? BigInt(0));
+        totals.allocated.set(token.address, results.get(triples[i][1].toString()) ?? BigInt(0));
+        totals.paid.set(token.address, results.get(triples[i][2].toString()) ?? BigInt(0));
+      });
+      return totals;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to decrypt estate totals");
+      return null;
+    }
+  }, [distributionContract, signer, address, selectedEstateId, estateTokens, decrypt]);
 
   // Executor: Remove heir from current estate
   const removeHeir = useCallback(async (heirAddress: string) => {
     if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) return submitProposal('RemoveHeir', heirAddress);
 
     const tx = await distributionContract.removeHeir(selectedEstateId, heirAddress);
     await tx.wait();
     await loadEstateData(selectedEstateId);
     return tx;
-  }, [distributionContract, selectedEstateId, loadEstateData]);
+  }, [distributionContract, selectedEstateId, requiresProposal, submitProposal, loadEstateData]);
+
+  // Executor: Submit the public decryption of a pending solvency check to complete finalization
+  const completeFinalization = useCallback(async () => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const handle: string = await distributionContract.solvencyCheck(selectedEstateId);
+    if (handle === ethers.ZeroHash) throw new Error("No finalization pending");
+
+    const result = await publicDecrypt([handle]);
+    if (!result) throw new Error("Failed to decrypt solvency check");
+
+    const tx = await distributionContract.confirmFinalization(
+      selectedEstateId,
+      result.abiEncodedClearValues,
+      result.decryptionProof
+    );
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    await loadMyEstates();
+    return tx;
+  }, [distributionContract, selectedEstateId, publicDecrypt, loadEstateData, loadMyEstates]);
 
-  // Executor: Finalize current estate
+  // Executor: Finalize current estate (request the solvency check, then confirm it)
   const finalizeEstate = useCallback(async () => {
     if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) return submitProposal('FinalizeEstate', ethers.ZeroAddress);
 
     const tx = await distributionContract.finalizeEstate(selectedEstateId);
     await tx.wait();
     await loadEstateData(selectedEstateId);
+
+    try {
+      await completeFinalization();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Finalization is pending; try completing it again");
+    }
+    return tx;
+  }, [distributionContract, selectedEstateId, requiresProposal, submitProposal, loadEstateData, completeFinalization]);
+
+  // Anyone: Submit the public decryption of the disclosed totals so they are recorded on-chain
+  const completeDisclosure = useCallback(async () => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const handles: string[] = await distributionContract.getDisclosureHandles(selectedEstateId);
+    const result = await publicDecrypt([...handles]);
+    if (!result) throw new Error("Failed to decrypt estate totals");
+
+    const tx = await distributionContract.confirmEstateTotals(
+      selectedEstateId,
+      result.abiEncodedClearValues,
+      result.decryptionProof
+    );
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, publicDecrypt, loadEstateData]);
+
+  // Executor: Publish the final total allocated and paid out of a closed estate (request, then confirm)
+  const discloseEstateTotals = useCallback(async () => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.discloseEstateTotals(selectedEstateId);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+
+    try {
+      await completeDisclosure();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Disclosure is pending; try completing it again");
+    }
+    return tx;
+  }, [distributionContract, selectedEstateId, loadEstateData, completeDisclosure]);
+
+  // Executor: Cancel current estate and refund depositors
+  const cancelEstate = useCallback(async () => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) return submitProposal('CancelEstate', ethers.ZeroAddress);
+
+    const tx = await distributionContract.cancelEstate(selectedEstateId);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    await loadMyEstates();
+    return tx;
+  }, [distributionContract, selectedEstateId, requiresProposal, submitProposal, loadEstateData, loadMyEstates]);
+
+  // Executor: Set how long heirs have to claim once claims unlock (seconds, 0 = no limit)
+  const setClaimPeriod = useCallback(async (period: number) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) throw new Error("Lower the approval threshold to 1 before changing the claim period");
+
+    const tx = await distributionContract.setClaimPeriod(selectedEstateId, period);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, requiresProposal, loadEstateData]);
+
+  // Executor: Choose who receives allocations that heirs disclaim
+  const setDisclaimerPolicy = useCallback(async (policy: DisclaimerPolicy, alternate: string = ethers.ZeroAddress) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+    if (policy === 'Alternate' && requiresProposal) {
+      throw new Error("Lower the approval threshold to 1 before naming an alternate beneficiary");
+    }
+
+    const tx = await distributionContract.setDisclaimerPolicy(
+      selectedEstateId,
+      DISCLAIMER_POLICIES.indexOf(policy),
+      alternate
+    );
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, requiresProposal, loadEstateData]);
+
+  // Anyone: Expire unclaimed allocations after the deadline and close the estate
+  const sweepUnclaimed = useCallback(async () => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.sweepUnclaimed(selectedEstateId);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
     await loadMyEstates();
     return tx;
   }, [distributionContract, selectedEstateId, loadEstateData, loadMyEstates]);
 
-  // Heir: Claim allocation from current estate
+  // Heir: Claim allocation from current estate (only the vested part for scheduled heirs)
   const claimAllocation = useCallback(async () => {
     if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
 
-    const tx = await distributionContract.claimAllocation(selectedEstateId);
+    const tx = myVesting
+      ? await distributionContract.claimVested(selectedEstateId)
+      : await distributionContract.claimAllocation(selectedEstateId);
+    await tx.wait();
+    if (!myVesting) setHasClaimed(true);
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, myVesting, loadEstateData]);
+
+  // Guardian: Decrypt a ward's allocation, paid-to-date and maintenance drawn for every estate token
+  const getWardAmounts = useCallback(async (heirAddress: string): Promise<WardAmounts | null> => {
+    if (!distributionContract || !signer || !address || selectedEstateId === null) return null;
+
+    try {
+      const triples: string[][] = await Promise.all(
+        estateTokens.map((token) => distributionContract.getWardAmounts(selectedEstateId, heirAddress, token.address))
+      );
+      const handles = triples
+        .flatMap((triple) => [...triple])
+        .filter((h) => h && h !== ethers.ZeroHash)
+        .map((h) => ({ handle: h.toString(), contractAddress: DISTRIBUTION_ADDRESS }));
+      const results = handles.length > 0
+        ? await decrypt(handles, signer, address, [DISTRIBUTION_ADDRESS])
+        : new Map<string, bigint>();
+
+      const amounts: WardAmounts = { allocation: new Map(), paid: new Map(), maintenance: new Map() };
+      estateTokens.forEach((token, i) => {
+        amounts.allocation.set(token.address, results.get(triples[i][0].toString()) ?? BigInt(0));
+        amounts.paid.set(token.address, results.get(triples[i][1].toString()) ?? BigInt(0));
+        amounts.maintenance.set(token.address, results.get(triples[i][2].toString()) ?? BigInt(0));
+      });
+      return amounts;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to decrypt ward allocation");
+      return null;
+    }
+  }, [distributionContract, signer, address, selectedEstateId, estateTokens, decrypt]);
+
+  // Guardian: Draw maintenance for a ward, capped on-chain at the remaining maintenance limit
+  const claimMaintenance = useCallback(async (heirAddress: string, tokenAddress: string, amount: bigint) => {
+    if (!distributionContract || !address || selectedEstateId === null) throw new Error("No estate selected");
+
+    const encrypted = await encrypt64(DISTRIBUTION_ADDRESS, address, amount);
+    if (!encrypted) throw new Error("Failed to encrypt amount");
+
+    const tx = await distributionContract.claimMaintenance(
+      selectedEstateId,
+      heirAddress,
+      tokenAddress,
+      encrypted.handles[0],
+      encrypted.inputProof
+    );
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, address, selectedEstateId, encrypt64, loadEstateData]);
+
+  // Heir: Contest the finalized estate; only the hash of the reason goes on-chain
+  const raiseDispute = useCallback(async (reason: string) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.raiseDispute(selectedEstateId, ethers.id(reason));
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, loadEstateData]);
+
+  // Arbiter: Settle the open dispute by unfreezing claims, reopening the estate or cancelling it
+  const resolveDispute = useCallback(async (resolution: DisputeResolution) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.resolveDispute(selectedEstateId, DISPUTE_RESOLUTIONS.indexOf(resolution));
+    await tx.wait();
+    await loadMyEstates();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, loadEstateData, loadMyEstates]);
+
+  // Heir: Let a third party decrypt my allocations in the current estate
+  const grantAllocationView = useCallback(async (viewer: string) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.grantAllocationView(selectedEstateId, viewer);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, loadEstateData]);
+
+  // Heir: Stop sharing my allocations with a viewer (values they already decrypted stay known to them)
+  const revokeAllocationView = useCallback(async (viewer: string) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.revokeAllocationView(selectedEstateId, viewer);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, loadEstateData]);
+
+  // Viewer: Decrypt the allocation of every estate token an heir shares with me
+  const getSharedAllocation = useCallback(async (heirAddress: string): Promise<TokenAmounts | null> => {
+    if (!distributionContract || !signer || !address || selectedEstateId === null) return null;
+
+    try {
+      const allocationHandles: string[] = await Promise.all(
+        estateTokens.map((token) => distributionContract.getSharedAllocation(selectedEstateId, heirAddress, token.address))
+      );
+      const handles = allocationHandles
+        .filter((h) => h && h !== ethers.ZeroHash)
+        .map((h) => ({ handle: h.toString(), contractAddress: DISTRIBUTION_ADDRESS }));
+      const results = handles.length > 0
+        ? await decrypt(handles, signer, address, [DISTRIBUTION_ADDRESS])
+        : new Map<string, bigint>();
+
+      const allocation: TokenAmounts = new Map();
+      estateTokens.forEach((token, i) => {
+        allocation.set(token.address, results.get(allocationHandles[i].toString()) ?? BigInt(0));
+      });
+      return allocation;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to decrypt shared allocation");
+      return null;
+    }
+  }, [distributionContract, signer, address, selectedEstateId, estateTokens, decrypt]);
+
+  // Heir: Decrypt the key of my sealed letter and open the letter locally
+  const readMyLetter = useCallback(async (): Promise<string | null> => {
+    if (!distributionContract || !signer || !address || selectedEstateId === null) return null;
+
+    try {
+      const [ciphertext, keyHandle] = await distributionContract.getMyLetter(selectedEstateId);
+      const results = await decrypt(
+        [{ handle: keyHandle.toString(), contractAddress: DISTRIBUTION_ADDRESS }],
+        signer,
+        address,
+        [DISTRIBUTION_ADDRESS]
+      );
+      const key = results.get(keyHandle.toString());
+      if (key === undefined) throw new Error("Failed to decrypt letter key");
+      return await openLetter(ethers.getBytes(ciphertext), key);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open letter");
+      return null;
+    }
+  }, [distributionContract, signer, address, selectedEstateId, decrypt]);
+
+  // Heir: Renounce the whole allocation so it passes on under the estate's disclaimer policy
+  const disclaimInheritance = useCallback(async () => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.disclaim(selectedEstateId);
     await tx.wait();
     setHasClaimed(true);
+    setHasDisclaimed(true);
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, loadEstateData]);
+
+  // Heir or executor: Move an heir's inheritance to a new wallet (immediate for the heir, timelocked for an executor)
+  const proposeRecovery = useCallback(async (heirAddress: string, newAddress: string) => {
+    if (!distributionContract || !address || selectedEstateId === null) throw new Error("No estate selected");
+    if (heirAddress.toLowerCase() !== address.toLowerCase() && requiresProposal) {
+      throw new Error("Lower the approval threshold to 1 before recovering an heir's wallet");
+    }
+
+    const tx = await distributionContract.proposeRecovery(selectedEstateId, heirAddress, newAddress);
+    await tx.wait();
+
+    // The connected wallet is no longer an heir once it has moved its own inheritance
+    if (heirAddress.toLowerCase() === address.toLowerCase()) {
+      await loadMyEstates();
+      selectEstate(null);
+    } else {
+      await loadEstateData(selectedEstateId);
+    }
+    return tx;
+  }, [distributionContract, address, selectedEstateId, requiresProposal, loadEstateData, loadMyEstates, selectEstate]);
+
+  // Heir or executor: Stop a pending recovery during its challenge window
+  const vetoRecovery = useCallback(async (heirAddress: string) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.vetoRecovery(selectedEstateId, heirAddress);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, loadEstateData]);
+
+  // Anyone: Apply a recovery whose challenge window has passed
+  const executeRecovery = useCallback(async (heirAddress: string) => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.executeRecovery(selectedEstateId, heirAddress);
+    await tx.wait();
     await loadEstateData(selectedEstateId);
     return tx;
   }, [distributionContract, selectedEstateId, loadEstateData]);
 
+  // Testator: Record proof of life for current estate
+  const checkIn = useCallback(async () => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+
+    const tx = await distributionContract.checkIn(selectedEstateId);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, loadEstateData]);
+
+  // Executor: Attest the testator's death for current estate
+  const attestDeath = useCallback(async () => {
+    if (!distributionContract || selectedEstateId === null) throw new Error("No estate selected");
+    if (requiresProposal) throw new Error("Lower the approval threshold to 1 before attesting death");
+
+    const tx = await distributionContract.attestDeath(selectedEstateId);
+    await tx.wait();
+    await loadEstateData(selectedEstateId);
+    return tx;
+  }, [distributionContract, selectedEstateId, requiresProposal, loadEstateData]);
+
   // Check if heir has claimed from current estate
   const checkHeirClaimed = useCallback(async (heirAddress: string): Promise<boolean> => {
     if (!distributionContract || selectedEstateId === null) return false;
@@ -375,18 +1799,58 @@ export function useInheritance(signer: ethers.Signer | null, address: string) {
     }
   }, [distributionContract, selectedEstateId]);
 
+  // Check if heir has disclaimed their allocation in current estate
+  const checkHeirDisclaimed = useCallback(async (heirAddress: string): Promise<boolean> => {
+    if (!distributionContract || selectedEstateId === null) return false;
+
+    try {
+      return await distributionContract.disclaimed(selectedEstateId, heirAddress);
+    } catch {
+      return false;
+    }
+  }, [distributionContract, selectedEstateId]);
+
   return {
+    // Notifications
+    toasts,
+    dismissToast,
+
     // Multi-estate state
     myExecutorEstates,
     myHeirEstates,
+    myTestatorEstates,
+    myGuardianEstates,
+    myArbiterEstates,
+    myAuditorEstates,
+    mySharedEstates,
+    archivedEstates,
     selectedEstateId,
     currentEstate,
     currentRole,
 
+    // Tokens
+    allowedTokens,
+    estateTokens,
+
     // Estate-specific data
     heirs,
+    proposals,
+    contingencies,
+    disclaimers,
+    recoveries,
+    wards,
+    sharers,
+    myViewers,
     myAllocation,
+    myShareBps,
+    myPaid,
+    myVesting,
+    residuaryHeir,
     hasClaimed,
+    hasDisclaimed,
+    myPendingRecovery,
+    myGuardianship,
+    hasMyLetter,
 
     // Loading/error
     isLoading: isLoading || isEncrypting || isDecrypting,
@@ -399,20 +1863,57 @@ export function useInheritance(signer: ethers.Signer | null, address: string) {
 
     // Estate operations
     addHeir,
+    updateAllocation,
     removeHeir,
+    addContingent,
+    recordLapse,
     finalizeEstate,
+    completeFinalization,
+    cancelEstate,
+    discloseEstateTotals,
+    completeDisclosure,
+    setClaimPeriod,
+    setDisclaimerPolicy,
+    setGuardian,
+    setHeirLetter,
+    setArbiter,
+    addAuditor,
+    removeAuditor,
+    sweepUnclaimed,
+    approveProposal,
+    addCoExecutor,
+    removeCoExecutor,
+    setApprovalThreshold,
     claimAllocation,
+    disclaimInheritance,
+    raiseDispute,
+    resolveDispute,
+    grantAllocationView,
+    revokeAllocationView,
+    proposeRecovery,
+    vetoRecovery,
+    executeRecovery,
+    claimMaintenance,
+    checkIn,
+    attestDeath,
     decryptMyAllocation,
     getHeirAllocation,
+    getHeirShare,
+    getWardAmounts,
+    getSharedAllocation,
+    readMyLetter,
+    getAuditTotals,
+    getContingentShare,
+    checkShareHeir,
     checkHeirClaimed,
+    checkHeirDisclaimed,
 
     // Token operations
-    mintTokens,
-    setDistributionAsOperator,
+    wrapAndDeposit,
+    unwrapTokens,
     depositTokens,
 
     // Contract addresses
-    tokenAddress: TOKEN_ADDRESS,
     distributionAddress: DISTRIBUTION_ADDRESS,
   };
 }
@@ -1,3 +1,23 @@
+export type EstateRole = 'executor' | 'heir' | 'guardian' | 'arbiter' | 'auditor' | 'viewer' | 'testator';
+
+export type AllocationMode = 'amount' | 'percentage';
+
+// Public ERC-20 behind a confidential wrapper
+export interface UnderlyingInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  underlying?: UnderlyingInfo;
+}
+
+// Decrypted per-asset amounts keyed by token address
+export type TokenAmounts = Map<string, bigint>;
+
 export interface EstateInfo {
   id: number;
   executor: string;
@@ -5,18 +25,193 @@ export interface EstateInfo {
   finalized: boolean;
   active: boolean;
   name: string;
+  testator: string;
+  lastCheckIn: number;
+  inactivityPeriod: number;
+  deathAttestedAt: number;
+  claimUnlocked: boolean;
+  coExecutors: string[];
+  auditors: string[];
+  approvalThreshold: number;
+  claimPeriod: number;
+  claimDeadline: number;
+  outstandingHeirs: number;
+  finalizationPending: boolean;
+  finalizationRejected: boolean;
+  disclaimerPolicy: DisclaimerPolicy;
+  disclaimerAlternate: string | null;
+  arbiter: string | null;
+  disputeWindow: number;
+  finalizedAt: number;
+  dispute: DisputeInfo | null;
+  disclosure: DisclosureInfo;
 }
 
 export interface EstateListItem {
   id: number;
   name: string;
-  role: 'executor' | 'heir';
+  role: EstateRole;
   finalized: boolean;
   active: boolean;
 }
 
+export interface VestingInfo {
+  start: number;
+  cliff: number;
+  duration: number;
+  installments: number;
+  vestedNumerator: bigint;
+  vestedDenominator: bigint;
+}
+
+export interface AddHeirOptions {
+  mode?: AllocationMode;
+  token?: string;
+  isResiduary?: boolean;
+  vesting?: Pick<VestingInfo, 'start' | 'cliff' | 'duration' | 'installments'>;
+  guardian?: GuardianshipInfo;
+}
+
+// Guardian of a minor heir until majorityAt; maintenanceBps caps what they may draw
+export interface GuardianshipInfo {
+  guardian: string;
+  majorityAt: number;
+  maintenanceBps: number;
+}
+
+export interface WardInfo {
+  heir: string;
+  majorityAt: number;
+  maintenanceBps: number;
+  claimed: boolean;
+}
+
+// Decrypted view of a ward's inheritance for their guardian
+export interface WardAmounts {
+  allocation: TokenAmounts;
+  paid: TokenAmounts;
+  maintenance: TokenAmounts;
+}
+
+// Decrypted estate totals per token for auditors; never individual allocations
+export interface AuditTotals {
+  balance: TokenAmounts;
+  allocated: TokenAmounts;
+  paid: TokenAmounts;
+}
+
+// Order matches InheritanceDistribution.ProposalAction
+export const PROPOSAL_ACTIONS = [
+  'AddHeir',
+  'AddHeirWithShare',
+  'RemoveHeir',
+  'FinalizeEstate',
+  'AddCoExecutor',
+  'RemoveCoExecutor',
+  'SetApprovalThreshold',
+  'CancelEstate',
+  'UpdateAllocation',
+  'RecordLapse',
+] as const;
+
+export type ProposalAction = typeof PROPOSAL_ACTIONS[number];
+
+export interface ProposalInfo {
+  id: number;
+  action: ProposalAction;
+  target: string;
+  param: number;
+  proposer: string;
+  approvals: number;
+  executed: boolean;
+  approvedByMe: boolean;
+}
+
+// Order matches InheritanceBase.DisclaimerPolicy
+export const DISCLAIMER_POLICIES = [
+  'PerCapita',
+  'Alternate',
+  'Residuary',
+] as const;
+
+export type DisclaimerPolicy = typeof DISCLAIMER_POLICIES[number];
+
+export interface DisclaimerInfo {
+  heir: string;
+  policy: DisclaimerPolicy;
+  timestamp: number;
+}
+
+// Order matches InheritanceBase.DisputeResolution
+export const DISPUTE_RESOLUTIONS = [
+  'Unfreeze',
+  'Reopen',
+  'Cancel',
+] as const;
+
+export type DisputeResolution = typeof DISPUTE_RESOLUTIONS[number];
+
+// Open dispute freezing claims until the arbiter resolves it
+export interface DisputeInfo {
+  raisedBy: string;
+  raisedAt: number;
+  reasonHash: string;
+}
+
+// Final totals of one token, published for tax reporting once the estate closed
+export interface DisclosedTotal {
+  token: TokenInfo;
+  allocated: bigint;
+  paid: bigint;
+}
+
+export interface DisclosureInfo {
+  requested: boolean;
+  disclosedAt: number;
+  totals: DisclosedTotal[];
+}
+
+// Notification raised by a live contract event
+export interface Toast {
+  id: number;
+  kind: 'info' | 'success' | 'warning';
+  message: string;
+}
+
+// Who sees an event in the estate timeline: everyone, the heir it names too, or executors only
+export type EstateEventScope = 'estate' | 'heir' | 'executor';
+
+// Decoded estate event; heir is the heir it concerns and account the other party, if any
+export interface EstateEvent {
+  name: string;
+  scope: EstateEventScope;
+  heir: string | null;
+  account: string | null;
+  token: string | null;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface RecoveryInfo {
+  heir: string;
+  newAddress: string;
+  executeAfter: number;
+}
+
+export interface ContingencyInfo {
+  heir: string;
+  contingents: string[];
+  lapsed: boolean;
+  claimed: boolean;
+}
+
 export interface HeirInfo {
   address: string;
-  allocation: bigint | null;
+  allocation: TokenAmounts | null;
   claimed: boolean;
+  disclaimed: boolean;
+  mode: AllocationMode;
+  shareBps: bigint | null;
 }
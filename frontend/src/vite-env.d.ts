@@ -1,8 +1,8 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_TOKEN_ADDRESS: string;
   readonly VITE_DISTRIBUTION_ADDRESS: string;
+  readonly VITE_DEPLOY_BLOCK?: string;
 }
 
 interface ImportMeta {
@@ -1,4 +1,5 @@
 import { HardhatUserConfig } from "hardhat/config";
+import "@fhevm/hardhat-plugin";
 import "@nomicfoundation/hardhat-toolbox";
 import * as dotenv from "dotenv";
 
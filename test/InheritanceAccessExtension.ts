@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Deployment, addHeir, createFundedEstate, deployFixture, finalize } from "./fixtures";
+
+// DisclaimerPolicy values, in declaration order
+const PerCapita = 0;
+const Alternate = 1;
+const Residuary = 2;
+
+describe("InheritanceAccessExtension", function () {
+  let d: Deployment;
+  let estateId: bigint;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    d = await deployFixture();
+    estateId = await createFundedEstate(d, 1_000);
+  });
+
+  async function allocationOf(heir: string): Promise<bigint> {
+    const distribution = await d.distribution.getAddress();
+    const handle = await d.distribution.connect(d.executor).getAllocation(estateId, heir, await d.token.getAddress());
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, distribution, d.executor);
+  }
+
+  describe("disclaim", function () {
+    // Heirs of 300, 200 and 101 under the given policy; the last one is the one who disclaims
+    async function finalizeWithPolicy(policy: number, alternate = ethers.ZeroAddress) {
+      const [heirA, heirB, heirC] = d.heirs;
+      await addHeir(d, estateId, heirA, 300);
+      await addHeir(d, estateId, heirB, 200);
+      await addHeir(d, estateId, heirC, 101);
+      await d.distribution.connect(d.executor).setResiduaryHeir(estateId, heirB.address);
+      await d.accessExtension.connect(d.executor).setDisclaimerPolicy(estateId, policy, alternate);
+      await finalize(d, estateId);
+    }
+
+    it("splits the allocation equally among the heirs still owed, the first taking the dust", async function () {
+      const [heirA, heirB, heirC] = d.heirs;
+      await finalizeWithPolicy(PerCapita);
+
+      await d.accessExtension.connect(heirC).disclaim(estateId);
+      expect(await allocationOf(heirA.address)).to.equal(351n);
+      expect(await allocationOf(heirB.address)).to.equal(250n);
+      expect(await allocationOf(heirC.address)).to.equal(0n);
+
+      const handle = await d.distribution.connect(d.executor).getTotalAllocated(estateId, await d.token.getAddress());
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, handle, await d.distribution.getAddress(), d.executor),
+      ).to.equal(601n);
+    });
+
+    it("leaves out heirs who already claimed", async function () {
+      const [heirA, heirB, heirC] = d.heirs;
+      await finalizeWithPolicy(PerCapita);
+      await time.increaseTo(await d.distribution.claimsUnlockedAt(estateId));
+      await d.distribution.connect(heirA).claimAllocation(estateId);
+
+      await d.accessExtension.connect(heirC).disclaim(estateId);
+      expect(await allocationOf(heirA.address)).to.equal(300n);
+      expect(await allocationOf(heirB.address)).to.equal(301n);
+    });
+
+    it("gives the allocation to the residuary heir", async function () {
+      const [heirA, heirB, heirC] = d.heirs;
+      await finalizeWithPolicy(Residuary);
+
+      await d.accessExtension.connect(heirC).disclaim(estateId);
+      expect(await allocationOf(heirA.address)).to.equal(300n);
+      expect(await allocationOf(heirB.address)).to.equal(301n);
+    });
+
+    it("registers a named alternate as an heir", async function () {
+      const alternate = d.others[0];
+      await finalizeWithPolicy(Alternate, alternate.address);
+
+      await d.accessExtension.connect(d.heirs[2]).disclaim(estateId);
+      expect(await d.distribution.isHeirOf(estateId, alternate.address)).to.equal(true);
+      expect(await allocationOf(alternate.address)).to.equal(101n);
+    });
+
+    it("closes the disclaiming heir's claim", async function () {
+      const heirC = d.heirs[2];
+      await finalizeWithPolicy(PerCapita);
+
+      await d.accessExtension.connect(heirC).disclaim(estateId);
+      expect(await d.distribution.hasClaimed(estateId, heirC.address)).to.equal(true);
+
+      await time.increaseTo(await d.distribution.claimsUnlockedAt(estateId));
+      await expect(d.distribution.connect(heirC).claimAllocation(estateId)).to.be.revertedWithCustomError(
+        d.distribution,
+        "AlreadyClaimed",
+      );
+      await expect(d.accessExtension.connect(heirC).disclaim(estateId)).to.be.revertedWithCustomError(
+        d.accessExtension,
+        "AlreadyClaimed",
+      );
+    });
+  });
+});
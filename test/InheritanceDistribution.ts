@@ -0,0 +1,98 @@
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Deployment, INACTIVITY_PERIOD, addHeir, createFundedEstate, deployFixture, finalize } from "./fixtures";
+
+describe("InheritanceDistribution", function () {
+  let d: Deployment;
+  let estateId: bigint;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    d = await deployFixture();
+    estateId = await createFundedEstate(d, 1_000);
+  });
+
+  async function paidTo(heirIndex: number): Promise<bigint> {
+    const heir = d.heirs[heirIndex];
+    const handle = await d.distribution.connect(heir).getMyPaidAmount(estateId, await d.token.getAddress());
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, await d.distribution.getAddress(), heir);
+  }
+
+  describe("vesting", function () {
+    let start: number;
+
+    // Starts the schedule once claims unlock so every step below can claim
+    async function vestAndFinalize(duration: number, installments: number, cliff = 0) {
+      const [heir] = d.heirs;
+      await addHeir(d, estateId, heir, 300);
+      start = (await time.latest()) + INACTIVITY_PERIOD + 100;
+      await d.distribution
+        .connect(d.executor)
+        .setVestingSchedule(estateId, heir.address, start, cliff, duration, installments);
+      await finalize(d, estateId);
+    }
+
+    async function claimAt(timestamp: number) {
+      await time.setNextBlockTimestamp(timestamp);
+      await d.distribution.connect(d.heirs[0]).claimVested(estateId);
+    }
+
+    it("releases equal installments over the duration", async function () {
+      await vestAndFinalize(300, 3);
+
+      await time.increaseTo(start + 150);
+      expect(await d.distribution.vestedFraction(estateId, d.heirs[0].address)).to.deep.equal([1n, 3n]);
+
+      await claimAt(start + 199);
+      expect(await paidTo(0)).to.equal(100n);
+      expect(await d.distribution.hasClaimed(estateId, d.heirs[0].address)).to.equal(false);
+    });
+
+    it("never vests more installments than the schedule has when the duration does not divide evenly", async function () {
+      await vestAndFinalize(5, 3);
+
+      await time.increaseTo(start + 3);
+      expect(await d.distribution.vestedFraction(estateId, d.heirs[0].address)).to.deep.equal([1n, 3n]);
+
+      await claimAt(start + 4);
+      expect(await d.distribution.vestedFraction(estateId, d.heirs[0].address)).to.deep.equal([2n, 3n]);
+      expect(await paidTo(0)).to.equal(200n);
+    });
+
+    it("pays nothing before the cliff", async function () {
+      await vestAndFinalize(300, 0, 100);
+
+      await claimAt(start + 50);
+      expect(await d.distribution.vestedFraction(estateId, d.heirs[0].address)).to.deep.equal([0n, 1n]);
+      expect(await paidTo(0)).to.equal(0n);
+    });
+
+    it("pays the remainder and marks the heir claimed once fully vested", async function () {
+      await vestAndFinalize(300, 0);
+
+      await claimAt(start + 100);
+      expect(await paidTo(0)).to.equal(100n);
+
+      await claimAt(start + 300);
+      expect(await paidTo(0)).to.equal(300n);
+      expect(await d.distribution.hasClaimed(estateId, d.heirs[0].address)).to.equal(true);
+
+      await expect(d.distribution.connect(d.heirs[0]).claimVested(estateId)).to.be.revertedWithCustomError(
+        d.distribution,
+        "AlreadyClaimed",
+      );
+    });
+
+    it("rejects a single claim for an heir with a schedule", async function () {
+      await vestAndFinalize(300, 3);
+
+      await time.increaseTo(start);
+      await expect(d.distribution.connect(d.heirs[0]).claimAllocation(estateId)).to.be.revertedWithCustomError(
+        d.distribution,
+        "HasVestingSchedule",
+      );
+    });
+  });
+});
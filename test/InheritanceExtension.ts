@@ -0,0 +1,195 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Deployment, INACTIVITY_PERIOD, addHeir, createFundedEstate, deployFixture, finalize } from "./fixtures";
+
+// ProposalAction values, in declaration order
+const AddHeir = 0;
+const RemoveHeir = 2;
+const RemoveCoExecutor = 5;
+
+describe("InheritanceExtension", function () {
+  let d: Deployment;
+  let estateId: bigint;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    d = await deployFixture();
+    estateId = await createFundedEstate(d, 1_000);
+  });
+
+  describe("proposals", function () {
+    let coExecutorA: HardhatEthersSigner;
+    let coExecutorB: HardhatEthersSigner;
+
+    beforeEach(async function () {
+      [coExecutorA, coExecutorB] = d.others;
+      await addHeir(d, estateId, d.heirs[0], 300);
+      await d.extension.connect(d.executor).addCoExecutor(estateId, coExecutorA.address);
+      await d.extension.connect(d.executor).addCoExecutor(estateId, coExecutorB.address);
+      await d.extension.connect(d.executor).setApprovalThreshold(estateId, 2);
+    });
+
+    async function propose(proposer: HardhatEthersSigner, action: number, target: string): Promise<bigint> {
+      const proposalId = await d.extension.nextProposalId();
+      await d.extension
+        .connect(proposer)
+        .propose(estateId, action, target, ethers.ZeroAddress, 0, ethers.ZeroHash, "0x");
+      return proposalId;
+    }
+
+    it("rejects direct changes that move or release funds", async function () {
+      const heir = d.heirs[0].address;
+      const asExecutor = d.distribution.connect(d.executor);
+      const input = await fhevm
+        .createEncryptedInput(await d.distribution.getAddress(), d.executor.address)
+        .add64(100)
+        .encrypt();
+
+      await expect(
+        asExecutor.addHeir(estateId, d.heirs[1].address, await d.token.getAddress(), input.handles[0], input.inputProof),
+      ).to.be.revertedWithCustomError(d.distribution, "ProposalRequired");
+      await expect(asExecutor.setResiduaryHeir(estateId, heir)).to.be.revertedWithCustomError(
+        d.distribution,
+        "ProposalRequired",
+      );
+      await expect(asExecutor.setVestingSchedule(estateId, heir, 0, 0, 300, 3)).to.be.revertedWithCustomError(
+        d.distribution,
+        "ProposalRequired",
+      );
+      await expect(asExecutor.attestDeath(estateId)).to.be.revertedWithCustomError(d.distribution, "ProposalRequired");
+      await expect(d.extension.connect(d.executor).setClaimPeriod(estateId, 1)).to.be.revertedWithCustomError(
+        d.extension,
+        "ProposalRequired",
+      );
+      await expect(
+        d.extension
+          .connect(d.executor)
+          .addContingent(estateId, heir, d.heirs[1].address, input.handles[0], input.inputProof),
+      ).to.be.revertedWithCustomError(d.extension, "ProposalRequired");
+    });
+
+    it("executes a proposal once the threshold is reached", async function () {
+      const heir = d.heirs[1];
+      const tokenAddress = await d.token.getAddress();
+      const input = await fhevm
+        .createEncryptedInput(await d.distribution.getAddress(), d.executor.address)
+        .add64(200)
+        .encrypt();
+      const proposalId = await d.extension.nextProposalId();
+      await d.extension
+        .connect(d.executor)
+        .propose(estateId, AddHeir, heir.address, tokenAddress, 0, input.handles[0], input.inputProof);
+      expect(await d.distribution.isHeirOf(estateId, heir.address)).to.equal(false);
+
+      await d.extension.connect(coExecutorA).approveProposal(proposalId);
+      expect(await d.distribution.isHeirOf(estateId, heir.address)).to.equal(true);
+      expect((await d.extension.proposals(proposalId)).executed).to.equal(true);
+
+      const handle = await d.distribution.connect(coExecutorB).getAllocation(estateId, heir.address, tokenAddress);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, handle, await d.distribution.getAddress(), coExecutorB),
+      ).to.equal(200n);
+    });
+
+    it("counts each executor's approval once", async function () {
+      const proposalId = await propose(d.executor, RemoveHeir, d.heirs[0].address);
+
+      await expect(d.extension.connect(d.executor).approveProposal(proposalId)).to.be.revertedWithCustomError(
+        d.extension,
+        "AlreadyApproved",
+      );
+      expect(await d.distribution.isHeirOf(estateId, d.heirs[0].address)).to.equal(true);
+    });
+
+    it("withdraws a removed co-executor's approvals", async function () {
+      const proposalId = await propose(coExecutorA, RemoveHeir, d.heirs[0].address);
+      expect((await d.extension.proposals(proposalId)).approvals).to.equal(1n);
+
+      const removal = await propose(d.executor, RemoveCoExecutor, coExecutorA.address);
+      await d.extension.connect(coExecutorB).approveProposal(removal);
+      expect(await d.distribution.isExecutorOf(estateId, coExecutorA.address)).to.equal(false);
+      expect((await d.extension.proposals(proposalId)).approvals).to.equal(0n);
+
+      await d.extension.connect(coExecutorB).approveProposal(proposalId);
+      expect(await d.distribution.isHeirOf(estateId, d.heirs[0].address)).to.equal(true);
+    });
+  });
+
+  describe("sweepUnclaimed", function () {
+    const CLAIM_PERIOD = 7 * 24 * 60 * 60;
+
+    async function decryptBalance(account: HardhatEthersSigner): Promise<bigint> {
+      const handle = await d.token.confidentialBalanceOf(account.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, handle, await d.token.getAddress(), account);
+    }
+
+    // Two heirs of 300 and 200 with a claim period; the first claims, the second lets the deadline pass
+    async function finalizeAndClaimFirst(residuary?: HardhatEthersSigner) {
+      const [heirA, heirB] = d.heirs;
+      await addHeir(d, estateId, heirA, 300);
+      await addHeir(d, estateId, heirB, 200);
+      if (residuary) await d.distribution.connect(d.executor).setResiduaryHeir(estateId, residuary.address);
+      await d.extension.connect(d.executor).setClaimPeriod(estateId, CLAIM_PERIOD);
+      await finalize(d, estateId);
+
+      await time.increaseTo(await d.distribution.claimsUnlockedAt(estateId));
+      await d.distribution.connect(heirA).claimAllocation(estateId);
+    }
+
+    it("rejects a sweep before the deadline", async function () {
+      await finalizeAndClaimFirst();
+
+      await expect(d.extension.sweepUnclaimed(estateId)).to.be.revertedWithCustomError(
+        d.extension,
+        "ClaimDeadlineNotPassed",
+      );
+    });
+
+    it("rejects a sweep for an estate without a claim period", async function () {
+      await addHeir(d, estateId, d.heirs[0], 300);
+      await finalize(d, estateId);
+      await time.increase(INACTIVITY_PERIOD * 10);
+
+      await expect(d.extension.sweepUnclaimed(estateId)).to.be.revertedWithCustomError(
+        d.extension,
+        "ClaimDeadlineNotPassed",
+      );
+    });
+
+    it("pays the remaining balance to the residuary heir after the deadline and closes the estate", async function () {
+      const [heirA, heirB] = d.heirs;
+      await finalizeAndClaimFirst(heirA);
+
+      await time.increaseTo((await d.distribution.claimDeadline(estateId)) + 1n);
+      await expect(d.distribution.connect(heirB).claimAllocation(estateId)).to.be.revertedWithCustomError(
+        d.distribution,
+        "ClaimDeadlinePassed",
+      );
+
+      await d.extension.connect(d.others[0]).sweepUnclaimed(estateId);
+      expect(await decryptBalance(heirA)).to.equal(1_000n);
+      expect(await d.token.confidentialBalanceOf(heirB.address)).to.equal(ethers.ZeroHash);
+      expect(await d.distribution.hasClaimed(estateId, heirB.address)).to.equal(true);
+      expect((await d.distribution.getEstateInfo(estateId))._active).to.equal(false);
+
+      const [balance, , paid] = await d.accessExtension.connect(d.executor).getAuditTotals(
+        estateId,
+        await d.token.getAddress(),
+      );
+      const distribution = await d.distribution.getAddress();
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, balance, distribution, d.executor)).to.equal(0n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, paid, distribution, d.executor)).to.equal(1_000n);
+    });
+
+    it("returns the remaining balance to the primary executor without a residuary heir", async function () {
+      await finalizeAndClaimFirst();
+
+      await time.increaseTo((await d.distribution.claimDeadline(estateId)) + 1n);
+      await d.extension.sweepUnclaimed(estateId);
+      expect(await decryptBalance(d.executor)).to.equal(700n);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Deployment, addHeir, createFundedEstate, deployFixture, finalize } from "./fixtures";
+
+// DisputeResolution values, in declaration order
+const Unfreeze = 0;
+const Reopen = 1;
+
+describe("InheritanceHeirExtension", function () {
+  let d: Deployment;
+  let estateId: bigint;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    d = await deployFixture();
+    estateId = await createFundedEstate(d, 1_000);
+  });
+
+  describe("recovery", function () {
+    const RECOVERY_CHALLENGE_WINDOW = 14 * 24 * 60 * 60;
+
+    beforeEach(async function () {
+      await addHeir(d, estateId, d.heirs[0], 300);
+    });
+
+    async function expectMigrated(from: string, to: string) {
+      expect(await d.distribution.isHeirOf(estateId, from)).to.equal(false);
+      expect(await d.distribution.isHeirOf(estateId, to)).to.equal(true);
+      expect(await d.distribution.getHeirs(estateId)).to.deep.equal([to]);
+    }
+
+    it("moves an heir to their new wallet at once, which can then claim", async function () {
+      const [heir] = d.heirs;
+      const wallet = d.others[0];
+
+      await d.heirExtension.connect(heir).proposeRecovery(estateId, heir.address, wallet.address);
+      await expectMigrated(heir.address, wallet.address);
+
+      await finalize(d, estateId);
+      await time.increaseTo(await d.distribution.claimsUnlockedAt(estateId));
+      await d.distribution.connect(wallet).claimAllocation(estateId);
+
+      const handle = await d.token.confidentialBalanceOf(wallet.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, handle, await d.token.getAddress(), wallet)).to.equal(
+        300n,
+      );
+    });
+
+    it("applies an executor's recovery only after the challenge window", async function () {
+      const [heir] = d.heirs;
+      const wallet = d.others[0];
+
+      await d.heirExtension.connect(d.executor).proposeRecovery(estateId, heir.address, wallet.address);
+      await expect(d.heirExtension.executeRecovery(estateId, heir.address)).to.be.revertedWithCustomError(
+        d.heirExtension,
+        "RecoveryTimelocked",
+      );
+
+      await time.increase(RECOVERY_CHALLENGE_WINDOW);
+      await d.heirExtension.connect(d.others[1]).executeRecovery(estateId, heir.address);
+      await expectMigrated(heir.address, wallet.address);
+    });
+
+    it("lets the heir veto an executor's recovery", async function () {
+      const [heir] = d.heirs;
+      const wallet = d.others[0];
+
+      await d.heirExtension.connect(d.executor).proposeRecovery(estateId, heir.address, wallet.address);
+      await d.heirExtension.connect(heir).vetoRecovery(estateId, heir.address);
+
+      await time.increase(RECOVERY_CHALLENGE_WINDOW);
+      await expect(d.heirExtension.executeRecovery(estateId, heir.address)).to.be.revertedWithCustomError(
+        d.heirExtension,
+        "NoPendingRecovery",
+      );
+      expect(await d.distribution.isHeirOf(estateId, heir.address)).to.equal(true);
+    });
+  });
+
+  describe("disputes", function () {
+    const DISPUTE_WINDOW = 7 * 24 * 60 * 60;
+    const CLAIM_PERIOD = 30 * 24 * 60 * 60;
+    const reason = ethers.id("The allocations do not match the will");
+
+    beforeEach(async function () {
+      await addHeir(d, estateId, d.heirs[0], 300);
+      await addHeir(d, estateId, d.heirs[1], 200);
+      await d.heirExtension.connect(d.executor).setArbiter(estateId, d.others[0].address, DISPUTE_WINDOW);
+      await d.extension.connect(d.executor).setClaimPeriod(estateId, CLAIM_PERIOD);
+      await finalize(d, estateId);
+    });
+
+    it("freezes claims until the arbiter unfreezes them", async function () {
+      const [heirA, heirB] = d.heirs;
+      await d.heirExtension.connect(heirA).raiseDispute(estateId, reason);
+
+      await time.increaseTo(await d.distribution.claimsUnlockedAt(estateId));
+      await expect(d.distribution.connect(heirB).claimAllocation(estateId)).to.be.revertedWithCustomError(
+        d.distribution,
+        "EstateDisputed",
+      );
+      await expect(d.heirExtension.connect(heirA).resolveDispute(estateId, Unfreeze)).to.be.revertedWithCustomError(
+        d.heirExtension,
+        "OnlyArbiter",
+      );
+
+      await d.heirExtension.connect(d.others[0]).resolveDispute(estateId, Unfreeze);
+      await d.distribution.connect(heirB).claimAllocation(estateId);
+      expect(await d.distribution.hasClaimed(estateId, heirB.address)).to.equal(true);
+    });
+
+    it("moves the claim deadline back by the time the dispute lasted", async function () {
+      const deadline = await d.distribution.claimDeadline(estateId);
+      await d.heirExtension.connect(d.heirs[0]).raiseDispute(estateId, reason);
+      const raisedAt = await time.latest();
+
+      await time.setNextBlockTimestamp(raisedAt + DISPUTE_WINDOW);
+      await d.heirExtension.connect(d.others[0]).resolveDispute(estateId, Unfreeze);
+      expect(await d.distribution.claimDeadline(estateId)).to.equal(deadline + BigInt(DISPUTE_WINDOW));
+    });
+
+    it("returns the estate to editing on reopen", async function () {
+      await d.heirExtension.connect(d.heirs[0]).raiseDispute(estateId, reason);
+      await d.heirExtension.connect(d.others[0]).resolveDispute(estateId, Reopen);
+
+      expect((await d.distribution.getEstateInfo(estateId))._finalized).to.equal(false);
+      await addHeir(d, estateId, d.heirs[2], 100);
+      expect(await d.distribution.isHeirOf(estateId, d.heirs[2].address)).to.equal(true);
+    });
+
+    it("rejects a dispute after the window", async function () {
+      await time.increase(DISPUTE_WINDOW + 1);
+      await expect(d.heirExtension.connect(d.heirs[0]).raiseDispute(estateId, reason)).to.be.revertedWithCustomError(
+        d.heirExtension,
+        "DisputeWindowClosed",
+      );
+    });
+  });
+});
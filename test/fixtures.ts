@@ -0,0 +1,103 @@
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  InheritanceAccessExtension,
+  InheritanceDistribution,
+  InheritanceExtension,
+  InheritanceHeirExtension,
+  InheritanceToken,
+} from "../typechain-types";
+
+export const INACTIVITY_PERIOD = 30 * 24 * 60 * 60;
+
+export interface Deployment {
+  admin: HardhatEthersSigner;
+  executor: HardhatEthersSigner;
+  testator: HardhatEthersSigner;
+  heirs: HardhatEthersSigner[];
+  others: HardhatEthersSigner[];
+  token: InheritanceToken;
+  distribution: InheritanceDistribution;
+  // The extensions attached to the distribution address, so calls go through its fallback
+  extension: InheritanceExtension;
+  heirExtension: InheritanceHeirExtension;
+  accessExtension: InheritanceAccessExtension;
+}
+
+/**
+ * Deploy the extension chain, a token and the distribution contract in production order
+ */
+export async function deployFixture(): Promise<Deployment> {
+  const [admin, executor, testator, heirA, heirB, heirC, ...others] = await ethers.getSigners();
+
+  const access = await ethers.deployContract("InheritanceAccessExtension");
+  const heirExt = await ethers.deployContract("InheritanceHeirExtension", [await access.getAddress()]);
+  const ext = await ethers.deployContract("InheritanceExtension", [await heirExt.getAddress()]);
+  const token = await ethers.deployContract("InheritanceToken");
+  const distribution = await ethers.deployContract("InheritanceDistribution", [
+    await token.getAddress(),
+    await ext.getAddress(),
+  ]);
+
+  const address = await distribution.getAddress();
+  await fhevm.assertCoprocessorInitialized(distribution, "InheritanceDistribution");
+
+  return {
+    admin,
+    executor,
+    testator,
+    heirs: [heirA, heirB, heirC],
+    others,
+    token,
+    distribution,
+    extension: await ethers.getContractAt("InheritanceExtension", address),
+    heirExtension: await ethers.getContractAt("InheritanceHeirExtension", address),
+    accessExtension: await ethers.getContractAt("InheritanceAccessExtension", address),
+  };
+}
+
+/**
+ * Create an estate owned by the fixture's executor and fund it with plaintext-minted tokens
+ * @returns The new estate's ID
+ */
+export async function createFundedEstate(d: Deployment, balance: number): Promise<bigint> {
+  const estateId = await d.distribution.nextEstateId();
+  await d.distribution.connect(d.executor).createEstate("Estate", d.testator.address, INACTIVITY_PERIOD);
+
+  const tokenAddress = await d.token.getAddress();
+  await d.token.connect(d.admin).mintPlaintext(d.executor.address, balance);
+  const input = await fhevm.createEncryptedInput(tokenAddress, d.executor.address).add64(balance).encrypt();
+  await d.token
+    .connect(d.executor)
+    ["confidentialTransferAndCall(address,bytes32,bytes,bytes)"](
+      await d.distribution.getAddress(),
+      input.handles[0],
+      input.inputProof,
+      ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [estateId]),
+    );
+
+  return estateId;
+}
+
+/**
+ * Add an heir with a fixed encrypted allocation of the fixture's token
+ */
+export async function addHeir(d: Deployment, estateId: bigint, heir: HardhatEthersSigner, amount: number) {
+  const input = await fhevm
+    .createEncryptedInput(await d.distribution.getAddress(), d.executor.address)
+    .add64(amount)
+    .encrypt();
+  await d.distribution
+    .connect(d.executor)
+    .addHeir(estateId, heir.address, await d.token.getAddress(), input.handles[0], input.inputProof);
+}
+
+/**
+ * Request finalization and complete it with the mock public decryption of the solvency check
+ */
+export async function finalize(d: Deployment, estateId: bigint) {
+  await d.distribution.connect(d.executor).finalizeEstate(estateId);
+  const handle = await d.distribution.solvencyCheck(estateId);
+  const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+  await d.distribution.confirmFinalization(estateId, abiEncodedClearValues, decryptionProof);
+}